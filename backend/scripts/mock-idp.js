@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+
+// Minimal OpenID Connect provider for trying out OIDC login locally.
+// Not for production use: it signs in whoever submits the form.
+//
+// Add it to the backend .env with:
+//   OIDC_PROVIDERS=[{"id":"mock","name":"Mock IdP","issuer":"http://localhost:4010","clientId":"zocket-local"}]
+
+const http = require('http');
+const crypto = require('crypto');
+const { URL, URLSearchParams } = require('url');
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 4010);
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'zocket-local';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET; // Optional; when set the token endpoint requires it
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+// Authorization codes issued by the login form, keyed by code
+const codes = new Map();
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(data)));
+    req.on('error', reject);
+  });
+}
+
+function renderLoginForm(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('\n      ');
+
+  return `<!DOCTYPE html>
+<html>
+  <head><title>Mock IdP</title></head>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 48px auto;">
+    <h2>Mock IdP sign-in</h2>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br><input name="email" type="email" value="dev@example.com" required style="width: 100%"></label></p>
+      <p><label>Name<br><input name="name" value="Local Developer" style="width: 100%"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <p><button type="submit" name="decision" value="allow">Sign in</button>
+         <button type="submit" name="decision" value="deny">Deny</button></p>
+    </form>
+  </body>
+</html>`;
+}
+
+async function handleAuthorizeSubmit(req, res) {
+  const form = await readBody(req);
+  const redirectUri = form.get('redirect_uri');
+
+  if (form.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_request' });
+  }
+
+  const redirect = new URL(redirectUri);
+  redirect.searchParams.set('state', form.get('state') || '');
+
+  if (form.get('decision') === 'deny') {
+    redirect.searchParams.set('error', 'access_denied');
+  } else {
+    const email = (form.get('email') || '').trim().toLowerCase();
+    const code = crypto.randomBytes(24).toString('base64url');
+
+    codes.set(code, {
+      redirectUri,
+      nonce: form.get('nonce'),
+      codeChallenge: form.get('code_challenge'),
+      codeChallengeMethod: form.get('code_challenge_method') || 'plain',
+      claims: {
+        // Stable subject per email so repeated logins hit the same linked account
+        sub: crypto.createHash('sha256').update(email).digest('hex').slice(0, 24),
+        email,
+        email_verified: form.get('email_verified') === 'on',
+        name: form.get('name') || undefined,
+        preferred_username: email.split('@')[0],
+      },
+      expiresAt: Date.now() + 60 * 1000,
+    });
+    redirect.searchParams.set('code', code);
+  }
+
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const form = await readBody(req);
+  const entry = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+
+  if (form.get('grant_type') !== 'authorization_code' || !entry || entry.expiresAt < Date.now()) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+
+  if (form.get('client_id') !== CLIENT_ID || (CLIENT_SECRET && form.get('client_secret') !== CLIENT_SECRET)) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+
+  if (form.get('redirect_uri') !== entry.redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+  }
+
+  const verifier = form.get('code_verifier') || '';
+  const challenge = entry.codeChallengeMethod === 'S256'
+    ? crypto.createHash('sha256').update(verifier).digest('base64url')
+    : verifier;
+  if (!entry.codeChallenge || challenge !== entry.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    ...entry.claims,
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    nonce: entry.nonce,
+    iat: now,
+    exp: now + 300,
+  });
+
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256', 'plain'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [jwk] });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      if (url.searchParams.get('client_id') !== CLIENT_ID) {
+        return sendJson(res, 400, { error: 'unauthorized_client' });
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end(renderLoginForm(url.searchParams));
+    }
+
+    if (req.method === 'POST' && url.pathname === '/authorize') {
+      return await handleAuthorizeSubmit(req, res);
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await handleToken(req, res);
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error('❌ Mock IdP error:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC provider running at ${ISSUER}`);
+  console.log(`   client_id: ${CLIENT_ID}${CLIENT_SECRET ? ' (client secret required)' : ''}`);
+});
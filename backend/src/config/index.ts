@@ -3,6 +3,28 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// OpenID Connect identity providers, configured as a JSON array in OIDC_PROVIDERS
+const oidcProviderSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Provider id may only contain lowercase letters, numbers and dashes'),
+  name: z.string().min(1),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().optional(), // Omit for public clients that rely on PKCE alone
+  scopes: z.string().default('openid email profile'),
+});
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderSchema>;
+
+// Credit prices per model, configured as a JSON object in CREDIT_PRICING. The
+// "default" entry applies to models without their own entry.
+const modelPricingSchema = z.object({
+  promptCreditsPer1k: z.number().min(0),     // Credits per 1,000 prompt tokens
+  completionCreditsPer1k: z.number().min(0), // Credits per 1,000 completion tokens
+  minimumCredits: z.number().int().min(1),   // Floor per response; also what is reserved up front
+});
+
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+
 const configSchema = z.object({
   // Server Configuration
   PORT: z.string().transform(Number).default('3001'),
@@ -14,23 +36,86 @@ const configSchema = z.object({
   
   // Authentication
   JWT_SECRET: z.string().min(32),
-  JWT_EXPIRES_IN: z.string().default('7d'),
+  JWT_EXPIRES_IN: z.string().default('15m'), // Access token lifetime
+  REFRESH_TOKEN_TTL_DAYS: z.string().transform(Number).default('30'),
   BCRYPT_ROUNDS: z.string().transform(Number).default('12'),
+  EMAIL_VERIFICATION_TTL_HOURS: z.string().transform(Number).default('24'),
+  PASSWORD_RESET_TTL_MINUTES: z.string().transform(Number).default('60'),
+  TOTP_ISSUER: z.string().default('Zocket'), // Account label shown in authenticator apps
+  
+  // OpenID Connect
+  API_URL: z.string().optional(), // Public backend URL used in OAuth redirect URIs and local storage links; defaults to http://localhost:PORT
+  OIDC_PROVIDERS: z.string().default('[]').transform((val, ctx) => {
+    try {
+      return JSON.parse(val) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OIDC_PROVIDERS must be valid JSON' });
+      return z.NEVER;
+    }
+  }).pipe(z.array(oidcProviderSchema)),
+  
+  // Mail Configuration
+  APP_URL: z.string().default('http://localhost:3000'), // Frontend base URL used in email links
+  MAIL_DRIVER: z.string().default('outbox'), // 'outbox', 'log' or a driver added via registerMailTransport
+  MAIL_FROM: z.string().default('Zocket <no-reply@localhost>'),
+  MAIL_OUTBOX_DIR: z.string().default('mail-outbox'),
   
   // AI Configuration
-  GEMINI_API_KEY: z.string(),
+  LLM_PROVIDER: z.string().default('gemini'), // 'gemini', 'openai', 'mock', 'replay', 'record' or a provider added via registerLlmProvider
+  GEMINI_API_KEY: z.string().optional(), // Required when LLM_PROVIDER (or LLM_RECORD_PROVIDER when recording) is 'gemini'
   GEMINI_MODEL: z.string().default('gemini-2.0-flash-exp'),
   GEMINI_TEMPERATURE: z.string().transform(Number).default('0.7'),
   GEMINI_MAX_TOKENS: z.string().transform(Number).default('8192'),
+  OPENAI_BASE_URL: z.string().url().default('http://localhost:11434/v1'), // Any OpenAI-compatible server; defaults to local Ollama
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_MODEL: z.string().default('llama3.1'),
+  OPENAI_TEMPERATURE: z.string().transform(Number).default('0.7'),
+  OPENAI_MAX_TOKENS: z.string().transform(Number).default('8192'),
+  LLM_MODELS: z.string().default('').transform(val => val.split(',').map(model => model.trim()).filter(Boolean)), // Models users may pick per conversation, besides the provider's default
+  LLM_FIXTURES_DIR: z.string().default('llm-fixtures'), // Recorded responses for the 'replay' and 'record' providers
+  LLM_RECORD_PROVIDER: z.string().default('gemini'), // Provider whose responses 'record' captures
+  LLM_REPLAY_DELAY_MS: z.string().transform(Number).default('0'), // Pause between chunks for 'mock' and 'replay'
+  LLM_FALLBACK_MODELS: z.string().default('').transform(val => val.split(',').map(model => model.trim()).filter(Boolean)), // Tried in order when a model keeps failing
+  LLM_MAX_RETRIES: z.string().transform(Number).default('2'), // Per model, for rate limits, overload and network errors before the first token
+  LLM_RETRY_BASE_DELAY_MS: z.string().transform(Number).default('500'), // Doubled on every retry, with jitter
+  LLM_CIRCUIT_THRESHOLD: z.string().transform(Number).default('5'), // Consecutive failures before a model is skipped
+  LLM_CIRCUIT_COOLDOWN_MS: z.string().transform(Number).default('30000'), // How long it is skipped
+  
+  // Storage Configuration
+  STORAGE_DRIVER: z.string().optional(), // 's3', 'local' or a driver added via registerObjectStorage; defaults to 'local' with the mock and replay providers, 's3' otherwise
+  STORAGE_LOCAL_DIR: z.string().default('storage'), // Where the 'local' driver keeps objects
   
-  // AWS S3 Configuration
+  // AWS S3 Configuration (required when the storage driver is 's3')
   AWS_REGION: z.string().default('us-east-1'),
-  AWS_ACCESS_KEY_ID: z.string(),
-  AWS_SECRET_ACCESS_KEY: z.string(),
-  S3_BUCKET_NAME: z.string(),
+  AWS_ACCESS_KEY_ID: z.string().default(''),
+  AWS_SECRET_ACCESS_KEY: z.string().default(''),
+  S3_BUCKET_NAME: z.string().default(''),
   S3_CODE_PREFIX: z.string().default('code-artifacts/'),
   S3_PRESIGNED_URL_EXPIRES: z.string().transform(Number).default('3600'), // 1 hour
   
+  // Credits
+  SIGNUP_CREDITS: z.string().transform(Number).default('20'), // Granted to every new account
+  CREDIT_PRICING: z.string().default('{}').transform((val, ctx) => {
+    try {
+      return JSON.parse(val) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'CREDIT_PRICING must be valid JSON' });
+      return z.NEVER;
+    }
+  }).pipe(z.record(modelPricingSchema)),
+  PLAN_REFILL_INTERVAL_MINUTES: z.string().transform(Number).default('60'), // How often the refill job runs; 0 disables it
+  
+  // Conversation memory: estimated tokens of history sent per model, as a JSON
+  // object; "default" applies to models without their own entry
+  MEMORY_TOKEN_BUDGETS: z.string().default('{}').transform((val, ctx) => {
+    try {
+      return JSON.parse(val) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'MEMORY_TOKEN_BUDGETS must be valid JSON' });
+      return z.NEVER;
+    }
+  }).pipe(z.record(z.number().int().min(1))),
+  
   // Cache Configuration
   CACHE_MAX_SIZE: z.string().transform(Number).default('50'), // MB
   CACHE_TTL: z.string().transform(Number).default('3600'), // seconds
@@ -80,6 +165,13 @@ export const getDatabaseConfig = () => ({
   }),
 });
 
+// LLM providers that answer without a live model, and so without network access
+export const OFFLINE_LLM_PROVIDERS = ['mock', 'replay'];
+
+// The offline providers store code replies locally unless told otherwise
+export const getStorageDriver = () =>
+  config.STORAGE_DRIVER ?? (OFFLINE_LLM_PROVIDERS.includes(config.LLM_PROVIDER) ? 'local' : 's3');
+
 // S3 client configuration
 export const getS3Config = () => ({
   region: config.AWS_REGION,
@@ -103,6 +195,37 @@ export const getGeminiConfig = () => ({
   },
 });
 
+// OpenAI-compatible provider configuration
+export const getOpenAIConfig = () => ({
+  baseUrl: config.OPENAI_BASE_URL,
+  apiKey: config.OPENAI_API_KEY,
+  model: config.OPENAI_MODEL,
+  temperature: config.OPENAI_TEMPERATURE,
+  maxOutputTokens: config.OPENAI_MAX_TOKENS,
+});
+
+export const getReplayConfig = () => ({
+  fixturesDir: config.LLM_FIXTURES_DIR,
+  recordProvider: config.LLM_RECORD_PROVIDER,
+  delayMs: config.LLM_REPLAY_DELAY_MS,
+});
+
+export const getResilienceConfig = () => ({
+  maxRetries: config.LLM_MAX_RETRIES,
+  retryBaseDelayMs: config.LLM_RETRY_BASE_DELAY_MS,
+  fallbackModels: config.LLM_FALLBACK_MODELS,
+  circuitThreshold: config.LLM_CIRCUIT_THRESHOLD,
+  circuitCooldownMs: config.LLM_CIRCUIT_COOLDOWN_MS,
+});
+
+// OIDC provider registry
+export const getApiBaseUrl = () => config.API_URL || `http://localhost:${config.PORT}`;
+
+export const getOidcProviders = (): OidcProviderConfig[] => config.OIDC_PROVIDERS;
+
+export const getOidcProvider = (id: string): OidcProviderConfig | undefined =>
+  config.OIDC_PROVIDERS.find(provider => provider.id === id);
+
 // Rate limiting configuration
 export const getRateLimitConfig = () => ({
   windowMs: config.RATE_LIMIT_WINDOW,
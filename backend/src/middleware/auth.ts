@@ -1,14 +1,89 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken, extractTokenFromHeader, JWTPayload } from '../utils/auth';
+import { verifyToken, verifyPreviewTicket, extractTokenFromHeader, JWTPayload, UserRole } from '../utils/auth';
 import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { personalAccessTokenService, TokenScope } from '../services/personal-access-tokens';
+import { sessionService } from '../services/sessions';
+import { teamService, Workspace, PERSONAL_WORKSPACE } from '../services/teams';
+import { planService, PlanFeature } from '../services/plans';
 
 const logger = createLogger();
 
+export type AuthMethod = 'jwt' | 'personal_access_token' | 'preview_ticket';
+
+export interface AuthContext {
+  method: AuthMethod;
+  scopes: TokenScope[] | null; // null means unrestricted (browser sessions)
+  tokenId?: string;
+  sessionId?: string; // Set for browser sessions
+}
+
 export interface AuthenticatedRequest extends Request {
   user: JWTPayload;
+  auth: AuthContext;
 }
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+export interface WorkspaceRequest extends AuthenticatedRequest {
+  workspace: Workspace;
+}
+
+// Clients select the active team with this header; without it requests use the personal workspace
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+// Resolve a bearer token, which is either a JWT access token or a personal access token
+async function authenticate(token: string): Promise<{ user: JWTPayload; auth: AuthContext }> {
+  if (personalAccessTokenService.isPersonalAccessToken(token)) {
+    const result = await personalAccessTokenService.authenticate(token);
+    if (!result) {
+      throw new Error('Invalid personal access token');
+    }
+
+    return {
+      user: {
+        userId: result.user.id,
+        email: result.user.email,
+        username: result.user.username,
+        role: result.user.role,
+        tokenVersion: result.user.tokenVersion,
+      },
+      auth: { method: 'personal_access_token', scopes: result.scopes, tokenId: result.tokenId },
+    };
+  }
+
+  const payload = verifyToken(token);
+
+  // Reject tokens issued before the user's last password change, and disabled accounts
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { tokenVersion: true, role: true, disabledAt: true },
+  });
+
+  if (!user || user.tokenVersion !== payload.tokenVersion) {
+    throw new Error('Token has been revoked');
+  }
+
+  if (user.disabledAt) {
+    throw new Error('Account is disabled');
+  }
+
+  // Signing a session out elsewhere must cut off its access tokens immediately
+  if (payload.sessionId && !(await sessionService.validate(payload.sessionId, payload.userId))) {
+    throw new Error('Session has been revoked');
+  }
+
+  // Role changes take effect immediately rather than when the token is renewed
+  return {
+    user: { ...payload, role: user.role },
+    auth: { method: 'jwt', scopes: null, sessionId: payload.sessionId },
+  };
+}
+
+function attachAuth(req: Request, result: { user: JWTPayload; auth: AuthContext }) {
+  (req as AuthenticatedRequest).user = result.user;
+  (req as AuthenticatedRequest).auth = result.auth;
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   try {
     const token = extractTokenFromHeader(req.headers.authorization);
     
@@ -19,8 +94,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
       });
     }
 
-    const payload = verifyToken(token);
-    (req as AuthenticatedRequest).user = payload;
+    attachAuth(req, await authenticate(token));
     
     next();
   } catch (error) {
@@ -37,49 +111,216 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   }
 }
 
-// Special auth middleware for preview endpoints that can accept tokens via query params
-export function requireAuthWithQueryToken(req: Request, res: Response, next: NextFunction) {
+// Resolve a preview ticket minted by POST /api/artifacts/:id/preview-ticket.
+// It grants read access to that one artifact only.
+async function authenticatePreviewTicket(ticket: string, artifactId: string): Promise<{ user: JWTPayload; auth: AuthContext }> {
+  const payload = verifyPreviewTicket(ticket);
+  if (payload.artifactId !== artifactId) {
+    throw new Error('Preview ticket is for a different artifact');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { email: true, username: true, role: true, tokenVersion: true, disabledAt: true },
+  });
+
+  if (!user || user.tokenVersion !== payload.tokenVersion || user.disabledAt) {
+    throw new Error('Preview ticket has been revoked');
+  }
+
+  if (payload.sessionId && !(await sessionService.validate(payload.sessionId, payload.userId))) {
+    throw new Error('Session has been revoked');
+  }
+
+  return {
+    user: {
+      userId: payload.userId,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      tokenVersion: user.tokenVersion,
+      sessionId: payload.sessionId,
+    },
+    auth: { method: 'preview_ticket', scopes: ['artifacts:read'], sessionId: payload.sessionId },
+  };
+}
+
+// Auth for artifact preview routes. Iframes cannot send headers, so besides the
+// Authorization header these accept a short-lived `?ticket=` bound to the
+// artifact in `:id`. Access tokens are never accepted in the URL.
+export async function requireAuthOrPreviewTicket(req: Request, res: Response, next: NextFunction) {
+  const token = extractTokenFromHeader(req.headers.authorization);
+  const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : null;
+
   try {
-    // First try to get token from Authorization header
-    let token = extractTokenFromHeader(req.headers.authorization);
-    
-    // If no header token, try query parameter for iframe compatibility
-    if (!token && req.query.token) {
-      token = req.query.token as string;
-    }
-    
-    if (!token) {
-      return res.status(401).json({ 
+    if (token) {
+      attachAuth(req, await authenticate(token));
+    } else if (ticket) {
+      attachAuth(req, await authenticatePreviewTicket(ticket, req.params.id));
+    } else {
+      return res.status(401).json({
         error: 'Authentication required',
-        message: 'No token provided' 
+        message: req.query.token
+          ? 'Tokens are not accepted in URLs. Request a preview ticket instead.'
+          : 'No token provided'
       });
     }
 
-    const payload = verifyToken(token);
-    (req as AuthenticatedRequest).user = payload;
-    
     next();
   } catch (error) {
-    logger.warn('Authentication failed:', { 
+    logger.warn('Authentication failed:', {
       error: error instanceof Error ? error.message : 'Unknown error',
       ip: req.ip,
       userAgent: req.get('User-Agent')
     });
-    
-    return res.status(401).json({ 
+
+    return res.status(401).json({
       error: 'Authentication failed',
-      message: 'Invalid token' 
+      message: token ? 'Invalid token' : 'Invalid or expired preview ticket'
+    });
+  }
+}
+
+// Must run after requireAuth. Restricts a route to users holding one of the given roles.
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { userId, role } = (req as AuthenticatedRequest).user;
+
+    if (!roles.includes(role)) {
+      logger.warn('Role check failed', { userId, role, required: roles, path: req.originalUrl });
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to access this resource'
+      });
+    }
+
+    next();
+  };
+}
+
+// Must run after requireAuth. Personal access tokens need the given scope; sessions have every scope.
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { auth } = req as AuthenticatedRequest;
+
+    if (auth.scopes && !auth.scopes.includes(scope)) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This token is missing the '${scope}' scope`
+      });
+    }
+
+    next();
+  };
+}
+
+// Must run after requireAuth. Restricts a route to users whose plan includes the feature.
+export function requirePlanFeature(feature: PlanFeature) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { plan } = await planService.effectivePlan((req as AuthenticatedRequest).user.userId);
+
+      if (!plan.features[feature]) {
+        return res.status(403).json({
+          error: 'Plan upgrade required',
+          message: `This feature is not included in the ${plan.name} plan`,
+          feature,
+        });
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Plan check failed:', error);
+      return res.status(500).json({
+        error: 'Plan check failed',
+        message: 'Unable to check your plan'
+      });
+    }
+  };
+}
+
+// Must run after requireAuth. Account management is limited to interactive (JWT) sessions.
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if ((req as AuthenticatedRequest).auth.method !== 'jwt') {
+    return res.status(403).json({
+      error: 'Session required',
+      message: 'Personal access tokens cannot be used for this endpoint'
+    });
+  }
+
+  next();
+}
+
+// Must run after requireAuth. Resolves the active workspace and checks team membership.
+export async function requireWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const teamId = req.get(WORKSPACE_HEADER);
+
+    if (!teamId) {
+      (req as WorkspaceRequest).workspace = PERSONAL_WORKSPACE;
+      return next();
+    }
+
+    const workspace = await teamService.getWorkspace(userId, teamId);
+    if (!workspace) {
+      return res.status(403).json({
+        error: 'Workspace access denied',
+        message: 'You are not a member of this team'
+      });
+    }
+
+    (req as WorkspaceRequest).workspace = workspace;
+    next();
+  } catch (error) {
+    logger.error('Workspace resolution failed:', error);
+    return res.status(500).json({
+      error: 'Workspace check failed',
+      message: 'Unable to resolve the active workspace'
+    });
+  }
+}
+
+// Must run after requireAuth. Blocks accounts that have not confirmed their email address.
+export async function requireVerifiedEmail(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    if (!user.emailVerifiedAt) {
+      return res.status(403).json({
+        error: 'Email not verified',
+        message: 'Please verify your email address before using this feature.'
+      });
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Email verification check failed:', error);
+    return res.status(500).json({
+      error: 'Verification check failed',
+      message: 'Unable to verify account status'
     });
   }
 }
 
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
   try {
     const token = extractTokenFromHeader(req.headers.authorization);
     
     if (token) {
-      const payload = verifyToken(token);
-      (req as AuthenticatedRequest).user = payload;
+      attachAuth(req, await authenticate(token));
     }
     
     next();
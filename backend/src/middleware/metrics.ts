@@ -25,8 +25,14 @@ interface Metrics {
   cacheSize: number;
   
   // Build metrics
+  buildCount: number;
+  buildFailureCount: number;
   buildSuccessRate: number;
   averageBuildTime: number;
+
+  // Security scan metrics
+  securityScanCount: number;
+  securityScoreDistribution: Map<number, number>; // Scans per 10-point band, keyed by its lower bound
   
   // AI metrics
   aiRequestCount: number;
@@ -52,8 +58,12 @@ class MetricsCollector {
     cpuUsage: process.cpuUsage(),
     cacheHitRate: 0,
     cacheSize: 0,
+    buildCount: 0,
+    buildFailureCount: 0,
     buildSuccessRate: 0,
     averageBuildTime: 0,
+    securityScanCount: 0,
+    securityScoreDistribution: new Map(),
     aiRequestCount: 0,
     averageAiResponseTime: 0,
     aiErrorRate: 0,
@@ -117,8 +127,23 @@ class MetricsCollector {
   }
 
   trackBuild(success: boolean, buildTime: number) {
-    this.metrics.buildSuccessRate = this.metrics.buildSuccessRate * 0.95 + (success ? 1 : 0) * 0.05;
-    this.metrics.averageBuildTime = this.metrics.averageBuildTime * 0.9 + buildTime * 0.1;
+    this.metrics.buildCount++;
+    if (!success) {
+      this.metrics.buildFailureCount++;
+    }
+    this.metrics.buildSuccessRate =
+      (this.metrics.buildCount - this.metrics.buildFailureCount) / this.metrics.buildCount;
+    // Moving average, seeded with the first build
+    this.metrics.averageBuildTime = this.metrics.buildCount === 1
+      ? buildTime
+      : this.metrics.averageBuildTime * 0.9 + buildTime * 0.1;
+  }
+
+  trackSecurityScan(score: number) {
+    this.metrics.securityScanCount++;
+    // 100 shares the top band with 90-99
+    const band = Math.min(90, Math.floor(score / 10) * 10);
+    this.incrementMapValue(this.metrics.securityScoreDistribution, band);
   }
 
   trackAiRequest(responseTime: number, error: boolean = false) {
@@ -279,5 +304,6 @@ export const metricsEndpoint = (req: Request, res: Response) => {
     requestsByEndpoint: Object.fromEntries(allMetrics.requestsByEndpoint),
     requestsByStatus: Object.fromEntries(allMetrics.requestsByStatus),
     errorsByType: Object.fromEntries(allMetrics.errorsByType),
+    securityScoreDistribution: Object.fromEntries(allMetrics.securityScoreDistribution),
   });
 }; 
\ No newline at end of file
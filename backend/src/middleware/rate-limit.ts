@@ -1,5 +1,7 @@
 import rateLimit from 'express-rate-limit';
 import { createLogger } from '../utils/logger';
+import { planService } from '../services/plans';
+import type { AuthenticatedRequest } from './auth';
 
 const logger = createLogger();
 
@@ -71,4 +73,26 @@ export const authRateLimit = rateLimit({
       message: 'Too many authentication attempts from this IP, please try again later.',
     });
   },
-});
\ No newline at end of file
+});
+
+// Chat requests per user per hour, as allowed by their plan. Must run after requireAuth.
+export const planChatRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  limit: async (req) => {
+    const { plan } = await planService.effectivePlan((req as AuthenticatedRequest).user.userId);
+    return plan.chatRequestsPerHour;
+  },
+  keyGenerator: (req) => (req as AuthenticatedRequest).user.userId,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('Plan chat rate limit reached', {
+      userId: (req as AuthenticatedRequest).user.userId,
+      path: req.path,
+    });
+    res.status(429).json({
+      error: 'Too many requests',
+      message: 'You have reached the hourly message limit of your plan. Please try again later.',
+    });
+  },
+});
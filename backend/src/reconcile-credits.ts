@@ -0,0 +1,29 @@
+import dotenv from "dotenv";
+import { creditService } from "./services/credits";
+import { prisma } from "./utils/database";
+
+// Load environment variables
+dotenv.config();
+
+// Adds an opening-balance ledger entry for accounts created before the credit
+// ledger existed. Safe to run repeatedly.
+async function main() {
+  console.log("🧾 Reconciling credit balances with the ledger...");
+
+  const corrected = await creditService.reconcile();
+
+  console.log(
+    corrected > 0
+      ? `✅ Recorded opening balances for ${corrected} account(s).`
+      : "✅ Every balance already matches the ledger."
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Error reconciling credits:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
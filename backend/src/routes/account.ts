@@ -0,0 +1,212 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import archiver from 'archiver';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { strictRateLimit } from '../middleware/rate-limit';
+import { accountService } from '../services/account';
+import { twoFactorService } from '../services/two-factor';
+import { auditService } from '../services/audit';
+import { instructionsService, MAX_INSTRUCTIONS_LENGTH } from '../services/instructions';
+import { sendAccountDeletedEmail } from '../services/account-emails';
+import { comparePassword } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const router = Router();
+const logger = createLogger();
+
+// Validation schemas
+const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().trim().max(32).optional(), // Required when two-factor authentication is enabled
+});
+
+const instructionsSchema = z.object({
+  instructions: z.string().trim().max(MAX_INSTRUCTIONS_LENGTH, 'Instructions are too long')
+    .transform(text => text || null).nullable(),
+});
+
+// GET /api/account/instructions
+router.get('/instructions', requireAuth, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    res.json({ instructions: await instructionsService.getForUser(userId) });
+  } catch (error) {
+    logger.error('Get instructions error:', error);
+    res.status(500).json({
+      error: 'Failed to get instructions',
+      message: 'Unable to retrieve custom instructions'
+    });
+  }
+});
+
+// PUT /api/account/instructions
+// Applies to every conversation; an empty value clears them
+router.put('/instructions', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { instructions } = instructionsSchema.parse(req.body);
+
+    await instructionsService.setForUser(userId, instructions);
+
+    res.json({ message: 'Instructions updated', instructions });
+  } catch (error) {
+    logger.error('Update instructions error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update instructions',
+      message: 'Unable to update custom instructions'
+    });
+  }
+});
+
+// GET /api/account/export
+// Streams a zip archive of the account; see "Account export format" in the README
+router.get('/export', strictRateLimit, requireAuth, requireSession, async (req, res) => {
+  const { user } = req as AuthenticatedRequest;
+  const { userId, username } = user;
+  const archive = archiver('zip', { zlib: { level: 6 } });
+
+  try {
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="zocket-export-${username}-${date}.zip"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    archive.on('warning', (warning) => logger.warn('Account export warning:', warning));
+    archive.on('error', (error) => {
+      logger.error('Account export archive error:', error);
+      res.destroy(error);
+    });
+    archive.pipe(res);
+
+    await accountService.writeExport(userId, archive);
+    await archive.finalize();
+
+    await auditService.record(req, { action: 'account.exported', actor: user, targetType: 'user', targetId: userId });
+  } catch (error) {
+    logger.error('Account export error:', error);
+    archive.abort();
+
+    // Once bytes are on the wire the only way to signal failure is to cut the download
+    if (res.headersSent) {
+      return res.destroy();
+    }
+
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({
+      error: 'Export failed',
+      message: 'Unable to export account data'
+    });
+  }
+});
+
+// DELETE /api/account
+// Permanently deletes the account and everything it owns
+router.delete('/', strictRateLimit, requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { password, code } = deleteAccountSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: 'Password is incorrect'
+      });
+    }
+
+    if (user.totpEnabledAt) {
+      if (!code) {
+        return res.status(400).json({
+          error: 'Code required',
+          message: 'Enter a code from your authenticator app or a recovery code',
+          twoFactorRequired: true
+        });
+      }
+
+      if (!(await twoFactorService.verify(userId, code))) {
+        return res.status(400).json({
+          error: 'Invalid code',
+          message: 'That code is not valid'
+        });
+      }
+    }
+
+    // Keep at least one active administrator around
+    if (user.role === 'ADMIN') {
+      const otherAdmins = await prisma.user.count({
+        where: { role: 'ADMIN', disabledAt: null, id: { not: userId } },
+      });
+
+      if (otherAdmins === 0) {
+        return res.status(409).json({
+          error: 'Last administrator',
+          message: 'Promote another administrator before deleting this account'
+        });
+      }
+    }
+
+    const result = await accountService.deleteAccount(userId);
+
+    // The actor row is gone, so the event keeps only the email snapshot
+    await auditService.record(req, {
+      action: 'account.deleted',
+      actor: { email: user.email },
+      targetType: 'user',
+      targetId: userId,
+      metadata: { conversations: result.conversations, artifacts: result.artifacts },
+    });
+
+    try {
+      await sendAccountDeletedEmail(user);
+    } catch (mailError) {
+      logger.error('Failed to send account deleted email:', mailError);
+    }
+
+    res.json({
+      message: 'Account deleted',
+      deleted: {
+        conversations: result.conversations,
+        artifacts: result.artifacts,
+      },
+    });
+  } catch (error) {
+    logger.error('Delete account error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Delete failed',
+      message: 'Unable to delete account'
+    });
+  }
+});
+
+export default router;
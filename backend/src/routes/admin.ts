@@ -0,0 +1,687 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireRole, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { sessionService } from '../services/sessions';
+import { auditService, AUDIT_ACTIONS } from '../services/audit';
+import {
+  creditService,
+  CreditError,
+  CreditErrorCode,
+  CreditTransactionType,
+  CREDIT_TRANSACTION_TYPES,
+} from '../services/credits';
+import { PLAN_IDS } from '../services/plans';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const router = Router();
+const logger = createLogger();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every admin route needs an interactive admin session
+const requireAdmin = requireRole('ADMIN');
+
+const CREDIT_ERROR_STATUS: Record<CreditErrorCode, number> = {
+  not_found: 404,
+  insufficient: 400,
+  conflict: 409,
+  invalid: 400,
+};
+
+// Validation schemas
+const userQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1).pipe(z.number().min(1)),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20).pipe(z.number().min(1).max(100)),
+  search: z.string().optional(),
+  role: z.enum(['USER', 'ADMIN']).optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+});
+
+const adjustCreditsSchema = z.object({
+  amount: z.number().int('Amount must be a whole number').refine(val => val !== 0, 'Amount cannot be zero'),
+  reason: z.string().trim().max(200, 'Reason too long').optional(),
+});
+
+const creditHistoryQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1).pipe(z.number().min(1)),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20).pipe(z.number().min(1).max(100)),
+  type: z.enum(CREDIT_TRANSACTION_TYPES as [string, ...string[]]).optional(),
+});
+
+const refundSchema = z.object({
+  reason: z.string().trim().max(200, 'Reason too long').optional(),
+});
+
+const updateUserSchema = z.object({
+  role: z.enum(['USER', 'ADMIN']).optional(),
+  disabled: z.boolean().optional(),
+  planId: z.enum(PLAN_IDS as [string, ...string[]]).optional(),
+}).refine(
+  data => data.role !== undefined || data.disabled !== undefined || data.planId !== undefined,
+  'Nothing to update'
+);
+
+const teamPlanSchema = z.object({
+  planId: z.enum(PLAN_IDS as [string, ...string[]]).nullable(), // null: members keep their own plans
+});
+
+const auditFilterSchema = z.object({
+  action: z.string().trim().max(64).optional(), // Exact action, or a prefix ending in "." such as "auth."
+  actorId: z.string().trim().optional(),
+  actorEmail: z.string().trim().max(254).optional(),
+  targetType: z.string().trim().max(32).optional(),
+  targetId: z.string().trim().optional(),
+  ipAddress: z.string().trim().max(64).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const auditQuerySchema = auditFilterSchema.extend({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1).pipe(z.number().min(1)),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 50).pipe(z.number().min(1).max(200)),
+});
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  credits: true,
+  planId: true,
+  nextRefillAt: true,
+  role: true,
+  emailVerifiedAt: true,
+  disabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: {
+      conversations: true,
+    }
+  }
+};
+
+interface AdminUserRecord {
+  id: string;
+  email: string;
+  username: string;
+  credits: number;
+  planId: string;
+  nextRefillAt: Date | null;
+  role: string;
+  emailVerifiedAt: Date | null;
+  disabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { conversations: number };
+}
+
+function formatAdminUser(user: AdminUserRecord) {
+  const { _count, emailVerifiedAt, ...profile } = user;
+  return {
+    ...profile,
+    emailVerified: !!emailVerifiedAt,
+    conversationCount: _count.conversations,
+  };
+}
+
+// GET /api/admin/users
+router.get('/users', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { page, limit, search, role, status } = userQuerySchema.parse(req.query);
+    const skip = (page - 1) * limit;
+
+    const where = {
+      ...(search && {
+        OR: [
+          { email: { contains: search } },
+          { username: { contains: search } },
+        ],
+      }),
+      ...(role && { role }),
+      ...(status && { disabledAt: status === 'disabled' ? { not: null } : null }),
+    };
+
+    const [users, totalCount] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: adminUserSelect,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      users: users.map((user: AdminUserRecord) => formatAdminUser(user)),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      }
+    });
+  } catch (error) {
+    logger.error('Admin list users error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to list users',
+      message: 'Unable to retrieve users'
+    });
+  }
+});
+
+// GET /api/admin/users/:id
+router.get('/users/:id', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: adminUserSelect,
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    res.json({
+      user: formatAdminUser(user),
+    });
+  } catch (error) {
+    logger.error('Admin get user error:', error);
+    res.status(500).json({
+      error: 'Failed to get user',
+      message: 'Unable to retrieve user'
+    });
+  }
+});
+
+// GET /api/admin/users/:id/usage
+router.get('/users/:id/usage', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, credits: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    const since = new Date(Date.now() - 30 * DAY_MS);
+    const messageWhere = { conversation: { userId: id } };
+    const artifactWhere = { message: { conversation: { userId: id } } };
+
+    const [
+      conversationCount,
+      messagesByRole,
+      recentMessagesByRole,
+      artifactStats,
+      lastMessage,
+    ] = await Promise.all([
+      prisma.conversation.count({ where: { userId: id } }),
+      prisma.message.groupBy({
+        by: ['role'],
+        where: messageWhere,
+        _count: { _all: true },
+      }),
+      prisma.message.groupBy({
+        by: ['role'],
+        where: { ...messageWhere, createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+      prisma.codeArtifact.aggregate({
+        where: artifactWhere,
+        _count: { _all: true },
+        _sum: { fileSize: true },
+      }),
+      prisma.message.findFirst({
+        where: messageWhere,
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    const countByRole = (groups: Array<{ role: string; _count: { _all: number } }>) => ({
+      user: groups.find(group => group.role === 'USER')?._count._all ?? 0,
+      assistant: groups.find(group => group.role === 'ASSISTANT')?._count._all ?? 0,
+    });
+
+    res.json({
+      usage: {
+        credits: user.credits,
+        conversations: conversationCount,
+        messages: countByRole(messagesByRole),
+        messagesLast30Days: countByRole(recentMessagesByRole),
+        artifacts: {
+          count: artifactStats._count._all,
+          totalBytes: artifactStats._sum.fileSize ?? 0,
+        },
+        lastActiveAt: lastMessage?.createdAt ?? null,
+      }
+    });
+  } catch (error) {
+    logger.error('Admin get usage error:', error);
+    res.status(500).json({
+      error: 'Failed to get usage',
+      message: 'Unable to retrieve usage statistics'
+    });
+  }
+});
+
+// POST /api/admin/users/:id/credits
+router.post('/users/:id/credits', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { userId: adminId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const { amount, reason } = adjustCreditsSchema.parse(req.body);
+
+    await creditService.apply(id, {
+      type: 'ADJUSTMENT',
+      amount,
+      description: reason || null,
+      actorId: adminId,
+      requireSufficientBalance: true,
+    });
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: adminUserSelect,
+    });
+
+    // Deleted between the adjustment and the lookup
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    logger.info('Credits adjusted by admin', { adminId, userId: id, amount, reason });
+    await auditService.record(req, {
+      action: 'admin.credits_adjusted',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: id,
+      metadata: { amount, reason: reason ?? null, balance: user.credits },
+    });
+
+    res.json({
+      message: 'Credits updated successfully',
+      user: formatAdminUser(user),
+    });
+  } catch (error) {
+    if (error instanceof CreditError) {
+      return res.status(CREDIT_ERROR_STATUS[error.code]).json({
+        error: error.code === 'insufficient' ? 'Insufficient credits' : 'Credits not updated',
+        message: error.message
+      });
+    }
+
+    logger.error('Admin adjust credits error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update credits',
+      message: 'Unable to adjust credits'
+    });
+  }
+});
+
+// GET /api/admin/users/:id/credit-transactions
+router.get('/users/:id/credit-transactions', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { page, limit, type } = creditHistoryQuerySchema.parse(req.query);
+
+    const summary = await creditService.summary(id);
+    if (!summary) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    const skip = (page - 1) * limit;
+    const { transactions, totalCount } = await creditService.history(id, {
+      skip,
+      take: limit,
+      type: type as CreditTransactionType | undefined,
+    });
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      balance: summary.balance,
+      transactions,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    });
+  } catch (error) {
+    logger.error('Admin get credit transactions error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to get credit transactions',
+      message: 'Unable to retrieve credit history'
+    });
+  }
+});
+
+// POST /api/admin/users/:id/credit-transactions/:transactionId/refund
+router.post('/users/:id/credit-transactions/:transactionId/refund', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { userId: adminId } = (req as AuthenticatedRequest).user;
+    const { id, transactionId } = req.params;
+    const { reason } = refundSchema.parse(req.body);
+
+    const refund = await creditService.refund(id, transactionId, { actorId: adminId, reason });
+
+    logger.info('Credit charge refunded by admin', { adminId, userId: id, transactionId });
+    await auditService.record(req, {
+      action: 'admin.credits_refunded',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: id,
+      metadata: { transactionId, refundId: refund.transactionId, reason: reason ?? null, balance: refund.balance },
+    });
+
+    res.json({
+      message: 'Charge refunded successfully',
+      balance: refund.balance,
+    });
+  } catch (error) {
+    if (error instanceof CreditError) {
+      return res.status(CREDIT_ERROR_STATUS[error.code]).json({
+        error: 'Refund failed',
+        message: error.message
+      });
+    }
+
+    logger.error('Admin refund credits error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to refund charge',
+      message: 'Unable to refund credits'
+    });
+  }
+});
+
+// PATCH /api/admin/users/:id
+router.patch('/users/:id', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { userId: adminId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const { role, disabled, planId } = updateUserSchema.parse(req.body);
+
+    // Guard against admins locking themselves out
+    if (id === adminId && (disabled === true || role === 'USER')) {
+      return res.status(400).json({
+        error: 'Invalid operation',
+        message: 'You cannot disable or demote your own account'
+      });
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, disabledAt: true, planId: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(role && { role }),
+        ...(disabled !== undefined && {
+          disabledAt: disabled ? (existing.disabledAt ?? new Date()) : null,
+        }),
+        // A new plan starts a new period, refilled on the next run of the refill job
+        ...(planId && planId !== existing.planId && { planId, nextRefillAt: null }),
+      },
+      select: adminUserSelect,
+    });
+
+    if (disabled) {
+      // End all sessions; access tokens are rejected by requireAuth from now on
+      await sessionService.revokeAll(id);
+    }
+
+    logger.info('User updated by admin', { adminId, userId: id, role, disabled, planId });
+    await auditService.record(req, {
+      action: 'admin.user_updated',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: id,
+      metadata: { role, disabled, planId },
+    });
+
+    res.json({
+      message: 'User updated successfully',
+      user: formatAdminUser(user),
+    });
+  } catch (error) {
+    logger.error('Admin update user error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update user',
+      message: 'Unable to update user'
+    });
+  }
+});
+
+// PUT /api/admin/teams/:id/plan
+router.put('/teams/:id/plan', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { userId: adminId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const { planId } = teamPlanSchema.parse(req.body);
+
+    const existing = await prisma.team.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'Team does not exist'
+      });
+    }
+
+    const team = await prisma.team.update({
+      where: { id },
+      data: { planId },
+      select: { id: true, name: true, planId: true },
+    });
+
+    logger.info('Team plan changed by admin', { adminId, teamId: id, planId });
+    await auditService.record(req, {
+      action: 'admin.team_plan_changed',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'team',
+      targetId: id,
+      metadata: { planId },
+    });
+
+    res.json({
+      message: 'Team plan updated successfully',
+      team,
+    });
+  } catch (error) {
+    logger.error('Admin update team plan error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update team plan',
+      message: 'Unable to update team plan'
+    });
+  }
+});
+
+// GET /api/admin/audit-events
+router.get('/audit-events', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { page, limit, ...filters } = auditQuerySchema.parse(req.query);
+
+    const { events, totalCount } = await auditService.query(filters, {
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      events,
+      actions: AUDIT_ACTIONS,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      }
+    });
+  } catch (error) {
+    logger.error('Admin list audit events error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to get audit events',
+      message: 'Unable to retrieve audit events'
+    });
+  }
+});
+
+// GET /api/admin/audit-events/export
+// CSV of the events matching the same filters as the listing, newest first
+router.get('/audit-events/export', requireAuth, requireSession, requireAdmin, async (req, res) => {
+  try {
+    const filters = auditFilterSchema.parse(req.query);
+
+    const { csv, rowCount, truncated } = await auditService.exportCsv(filters);
+
+    // Exports leave the system, so they are audited themselves
+    await auditService.record(req, {
+      action: 'admin.audit_exported',
+      actor: (req as AuthenticatedRequest).user,
+      metadata: { filters, rowCount, truncated },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-events-${date}.csv"`);
+    res.setHeader('X-Audit-Export-Truncated', String(truncated));
+    res.send(csv);
+  } catch (error) {
+    logger.error('Admin export audit events error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to export audit events',
+      message: 'Unable to export audit events'
+    });
+  }
+});
+
+export default router;
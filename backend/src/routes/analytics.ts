@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { analyticsService } from '../services/analytics';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+// Validation schemas
+const rangeQuerySchema = z.object({
+  days: z.string().optional().transform(val => val ? parseInt(val) : 30).pipe(z.number().min(1).max(90)),
+});
+
+// GET /api/analytics/usage
+router.get('/usage', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { days } = rangeQuerySchema.parse(req.query);
+
+    res.json({ usage: await analyticsService.usage(userId, days) });
+  } catch (error) {
+    logger.error('Get usage analytics error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to get usage analytics',
+      message: 'Unable to retrieve usage analytics'
+    });
+  }
+});
+
+// GET /api/analytics/artifacts
+router.get('/artifacts', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { days } = rangeQuerySchema.parse(req.query);
+
+    res.json({ artifacts: await analyticsService.artifacts(userId, days) });
+  } catch (error) {
+    logger.error('Get artifact analytics error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to get artifact analytics',
+      message: 'Unable to retrieve artifact analytics'
+    });
+  }
+});
+
+// GET /api/analytics/quality
+router.get('/quality', requireAuth, requireSession, (req, res) => {
+  try {
+    res.json({ quality: analyticsService.quality() });
+  } catch (error) {
+    logger.error('Get quality analytics error:', error);
+    res.status(500).json({
+      error: 'Failed to get quality analytics',
+      message: 'Unable to retrieve build and security metrics'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import artifactRoutes from './artifacts';
+import { prisma } from '../utils/database';
+import { generatePreviewTicket, PREVIEW_TICKET_TTL_SECONDS } from '../utils/auth';
+import { s3Service } from '../services/s3';
+import { createSignedInUser } from '../test/factories';
+
+const app = express();
+app.use(express.json());
+app.use('/api/artifacts', artifactRoutes);
+
+const PREVIEW_HTML = '<!DOCTYPE html><html><body>Preview</body></html>';
+
+async function createArtifact(userId: string) {
+  const conversation = await prisma.conversation.create({ data: { userId, title: 'Test' } });
+  const message = await prisma.message.create({
+    data: { conversationId: conversation.id, role: 'ASSISTANT', content: 'Here you go' },
+  });
+  return prisma.codeArtifact.create({
+    data: {
+      messageId: message.id,
+      title: 'Page',
+      language: 'html',
+      type: 'HTML',
+      s3Key: `code/${message.id}.html`,
+      s3Url: `https://storage.example.com/code/${message.id}.html`,
+    },
+  });
+}
+
+async function mintTicket(artifactId: string, token: string) {
+  const res = await request(app)
+    .post(`/api/artifacts/${artifactId}/preview-ticket`)
+    .set('Authorization', `Bearer ${token}`);
+  expect(res.status).toBe(200);
+  return res.body.ticket as string;
+}
+
+describe('artifact preview tickets', () => {
+  beforeEach(() => {
+    vi.spyOn(s3Service, 'getCode').mockResolvedValue(PREVIEW_HTML);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('let an iframe load the preview of the artifact they were minted for', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const ticket = await mintTicket(artifact.id, token);
+
+    const res = await request(app).get(`/api/artifacts/${artifact.id}/preview`).query({ ticket });
+
+    expect(res.status).toBe(200);
+    expect(res.text).toBe(PREVIEW_HTML);
+    expect(res.headers['referrer-policy']).toBe('no-referrer');
+  });
+
+  it('are only minted for artifacts the user can access', async () => {
+    const { user } = await createSignedInUser();
+    const { token: otherToken } = await createSignedInUser({ username: 'grace' });
+    const artifact = await createArtifact(user.id);
+
+    const res = await request(app)
+      .post(`/api/artifacts/${artifact.id}/preview-ticket`)
+      .set('Authorization', `Bearer ${otherToken}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('do not open other artifacts', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const other = await createArtifact(user.id);
+    const ticket = await mintTicket(artifact.id, token);
+
+    const res = await request(app).get(`/api/artifacts/${other.id}/preview`).query({ ticket });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('are not accepted as access tokens', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const ticket = await mintTicket(artifact.id, token);
+
+    const res = await request(app).get(`/api/artifacts/${artifact.id}`).set('Authorization', `Bearer ${ticket}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('expire', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const ticket = await mintTicket(artifact.id, token);
+
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + (PREVIEW_TICKET_TTL_SECONDS + 1) * 1000 });
+    const res = await request(app).get(`/api/artifacts/${artifact.id}/preview`).query({ ticket });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('stop working when the user signs out everywhere', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const ticket = await mintTicket(artifact.id, token);
+    await prisma.user.update({ where: { id: user.id }, data: { tokenVersion: { increment: 1 } } });
+
+    const res = await request(app).get(`/api/artifacts/${artifact.id}/preview`).query({ ticket });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('stop working when their session is revoked', async () => {
+    const { user } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+    const session = await prisma.session.create({
+      data: { userId: user.id, expiresAt: new Date(Date.now() + 60 * 60 * 1000), revokedAt: new Date() },
+    });
+    const ticket = generatePreviewTicket({
+      userId: user.id,
+      artifactId: artifact.id,
+      tokenVersion: user.tokenVersion,
+      sessionId: session.id,
+    });
+
+    const res = await request(app).get(`/api/artifacts/${artifact.id}/preview`).query({ ticket });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('are required instead of access tokens in the URL', async () => {
+    const { user, token } = await createSignedInUser();
+    const artifact = await createArtifact(user.id);
+
+    const res = await request(app).get(`/api/artifacts/${artifact.id}/preview`).query({ token });
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toContain('Request a preview ticket');
+  });
+});
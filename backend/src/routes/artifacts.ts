@@ -1,16 +1,19 @@
 import { Router } from 'express';
-import { requireAuth, requireAuthWithQueryToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requireAuthOrPreviewTicket, requireScope, AuthenticatedRequest } from '../middleware/auth';
 import { s3Service } from '../services/s3';
+import { auditService } from '../services/audit';
+import { accessibleConversationsWhere, manageableConversationsWhere } from '../services/teams';
 import { localBundlingService } from '../services/local-bundling-service';
 import { optimizedStorageManager } from '../services/optimized-storage-manager';
 import { createLogger } from '../utils/logger';
 import { prisma } from '../utils/database';
+import { generatePreviewTicket, PREVIEW_TICKET_TTL_SECONDS } from '../utils/auth';
 
 const router = Router();
 const logger = createLogger();
 
 // GET /api/artifacts/:id
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requireScope('artifacts:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -20,9 +23,7 @@ router.get('/:id', requireAuth, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: accessibleConversationsWhere(userId),
         },
       },
       include: {
@@ -68,7 +69,7 @@ router.get('/:id', requireAuth, async (req, res) => {
 });
 
 // GET /api/artifacts/:id/code
-router.get('/:id/code', requireAuth, async (req, res) => {
+router.get('/:id/code', requireAuth, requireScope('artifacts:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -78,9 +79,7 @@ router.get('/:id/code', requireAuth, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: accessibleConversationsWhere(userId),
         },
       },
     });
@@ -126,7 +125,7 @@ router.get('/:id/code', requireAuth, async (req, res) => {
 });
 
 // GET /api/artifacts/:id/download
-router.get('/:id/download', requireAuth, async (req, res) => {
+router.get('/:id/download', requireAuth, requireScope('artifacts:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -136,9 +135,7 @@ router.get('/:id/download', requireAuth, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: accessibleConversationsWhere(userId),
         },
       },
     });
@@ -162,6 +159,13 @@ router.get('/:id/download', requireAuth, async (req, res) => {
     res.send(code);
 
     logger.info('Artifact downloaded', { artifactId: id, filename });
+    await auditService.record(req, {
+      action: 'artifact.downloaded',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'artifact',
+      targetId: id,
+      metadata: { filename },
+    });
   } catch (error) {
     logger.error('Download artifact error:', error);
     res.status(500).json({
@@ -173,8 +177,53 @@ router.get('/:id/download', requireAuth, async (req, res) => {
 
   
 
+// POST /api/artifacts/:id/preview-ticket
+// Mints a short-lived ticket that lets an iframe load this artifact's preview
+router.post('/:id/preview-ticket', requireAuth, requireScope('artifacts:read'), async (req, res) => {
+  try {
+    const { user, auth } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const artifact = await prisma.codeArtifact.findFirst({
+      where: {
+        id,
+        message: {
+          conversation: accessibleConversationsWhere(user.userId),
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!artifact) {
+      return res.status(404).json({
+        error: 'Artifact not found',
+        message: 'The specified artifact does not exist or you do not have access to it',
+      });
+    }
+
+    const ticket = generatePreviewTicket({
+      userId: user.userId,
+      artifactId: id,
+      tokenVersion: user.tokenVersion,
+      sessionId: auth.sessionId,
+    });
+
+    res.json({
+      ticket,
+      expiresAt: new Date(Date.now() + PREVIEW_TICKET_TTL_SECONDS * 1000),
+    });
+  } catch (error) {
+    logger.error('Create preview ticket error:', error);
+    res.status(500).json({
+      error: 'Failed to create preview ticket',
+      message: 'Unable to authorize preview',
+    });
+  }
+});
+
 // GET /api/artifacts/:id/preview
-router.get('/:id/preview', requireAuthWithQueryToken, async (req, res) => {
+// Accepts a preview ticket as ?ticket= for iframe embedding
+router.get('/:id/preview', requireAuthOrPreviewTicket, requireScope('artifacts:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -184,9 +233,7 @@ router.get('/:id/preview', requireAuthWithQueryToken, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: accessibleConversationsWhere(userId),
         },
       },
     });
@@ -234,6 +281,8 @@ router.get('/:id/preview', requireAuthWithQueryToken, async (req, res) => {
     // Return HTML for iframe embedding with proper CSP headers
     res.setHeader('Content-Type', 'text/html');
     res.setHeader('X-Frame-Options', 'SAMEORIGIN');
+    // Keep the ticket in this URL out of requests made by the previewed code
+    res.setHeader('Referrer-Policy', 'no-referrer');
     res.setHeader('Content-Security-Policy', 
       "frame-ancestors 'self' http://localhost:3000 https://localhost:3000; " +
       "default-src 'self' 'unsafe-inline' 'unsafe-eval' data: blob:; " +
@@ -254,7 +303,7 @@ router.get('/:id/preview', requireAuthWithQueryToken, async (req, res) => {
 });
 
 // POST /api/artifacts/:id/bundle - Manually bundle a React artifact
-router.post('/:id/bundle', requireAuth, async (req, res) => {
+router.post('/:id/bundle', requireAuth, requireScope('artifacts:write'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -264,9 +313,7 @@ router.post('/:id/bundle', requireAuth, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: accessibleConversationsWhere(userId),
         },
       },
     });
@@ -351,7 +398,7 @@ router.post('/:id/bundle', requireAuth, async (req, res) => {
 });
 
 // DELETE /api/artifacts/:id
-router.delete('/:id', requireAuth, async (req, res) => {
+router.delete('/:id', requireAuth, requireScope('artifacts:write'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -361,9 +408,7 @@ router.delete('/:id', requireAuth, async (req, res) => {
       where: {
         id,
         message: {
-          conversation: {
-            userId,
-          },
+          conversation: manageableConversationsWhere(userId),
         },
       },
     });
@@ -401,6 +446,13 @@ router.delete('/:id', requireAuth, async (req, res) => {
     });
 
     logger.info('Artifact deleted', { artifactId: id, s3Key: artifact.s3Key });
+    await auditService.record(req, {
+      action: 'artifact.deleted',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'artifact',
+      targetId: id,
+      metadata: { title: artifact.title, messageId: artifact.messageId },
+    });
   } catch (error) {
     logger.error('Delete artifact error:', error);
     res.status(500).json({
@@ -1,7 +1,29 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { z } from 'zod';
-import { generateToken, comparePassword } from '../utils/auth';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { Prisma } from '@prisma/client';
+import {
+  generateToken,
+  comparePassword,
+  hashPassword,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  UserRole,
+} from '../utils/auth';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { authTokenService } from '../services/auth-tokens';
+import { refreshTokenService } from '../services/refresh-tokens';
+import { sessionService, SessionClient } from '../services/sessions';
+import {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+} from '../services/account-emails';
+import { oidcService, OidcError } from '../services/oidc';
+import { twoFactorService } from '../services/two-factor';
+import { auditService } from '../services/audit';
+import { signupCreditsData } from '../services/credits';
+import { config, getOidcProvider, getOidcProviders } from '../config';
 import { createLogger } from '../utils/logger';
 import { prisma } from '../utils/database';
 
@@ -10,10 +32,295 @@ const logger = createLogger();
 
 // Validation schemas
 const loginSchema = z.object({
-  email: z.string().email('Invalid email format'),
+  email: z.string().email('Invalid email format').transform(email => email.toLowerCase()),
   password: z.string().min(1, 'Password is required'),
 });
 
+const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be at most 128 characters');
+
+const registerSchema = z.object({
+  email: z.string().email('Invalid email format').transform(email => email.toLowerCase()),
+  username: z.string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username must be at most 30 characters')
+    .regex(/^[a-zA-Z0-9_.-]+$/, 'Username may only contain letters, numbers, dots, dashes and underscores'),
+  password: passwordSchema,
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format').transform(email => email.toLowerCase()),
+});
+
+const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+const oidcExchangeSchema = z.object({
+  code: z.string().min(1, 'Login code is required'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+// Store a new password and sign the user out everywhere: bumping tokenVersion
+// invalidates access tokens, revoking refresh tokens ends every session
+async function replacePassword(userId: string, password: string) {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash: await hashPassword(password),
+      tokenVersion: { increment: 1 },
+    },
+  });
+
+  await sessionService.revokeAll(userId);
+  return user;
+}
+
+function getSessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.get('User-Agent'),
+    ipAddress: req.ip,
+  };
+}
+
+// Start a session: an access token plus a refresh token that starts the session's token family
+async function issueTokens(
+  user: { id: string; email: string; username: string; role: UserRole; tokenVersion: number },
+  req: Request
+) {
+  const session = await sessionService.create(user.id, getSessionClient(req));
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    username: user.username,
+    role: user.role,
+    tokenVersion: user.tokenVersion,
+    sessionId: session.id,
+  });
+  const refreshToken = await refreshTokenService.issue(user.id, session.id);
+
+  return {
+    token,
+    refreshToken: refreshToken.token,
+    refreshTokenExpiresAt: refreshToken.expiresAt,
+  };
+}
+
+// First-factor success for an account with 2FA: the client must complete
+// POST /login/2fa with this challenge before any tokens are issued
+function twoFactorChallengeResponse(user: { id: string; tokenVersion: number }) {
+  return {
+    message: 'Two-factor authentication required',
+    twoFactorRequired: true,
+    challengeToken: generateTwoFactorChallenge({ userId: user.id, tokenVersion: user.tokenVersion }),
+    challengeExpiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  };
+}
+
+function accountExistsResponse(field: 'email' | 'username') {
+  return {
+    error: 'Account already exists',
+    message: field === 'email'
+      ? 'An account with this email already exists'
+      : 'This username is already taken',
+    field,
+  };
+}
+
+// POST /api/auth/register
+router.post('/register', async (req, res) => {
+  try {
+    const { email, username, password } = registerSchema.parse(req.body);
+
+    const existingUser = await prisma.user.findFirst({
+      where: {
+        OR: [{ email }, { username }],
+      },
+      select: { email: true, username: true },
+    });
+
+    if (existingUser) {
+      return res.status(409).json(accountExistsResponse(existingUser.email === email ? 'email' : 'username'));
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        username,
+        passwordHash: await hashPassword(password),
+        ...signupCreditsData(),
+      },
+    });
+
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      // The account is still usable; the user can request a new link later
+      logger.error('Failed to send verification email:', mailError);
+    }
+
+    const tokens = await issueTokens(user, req);
+
+    logger.info('User registered', { userId: user.id, email: user.email });
+    await auditService.record(req, {
+      action: 'auth.register',
+      actor: { userId: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    res.status(201).json({
+      message: 'Registration successful. Please check your email to verify your account.',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        credits: user.credits,
+        role: user.role,
+        emailVerified: false,
+        createdAt: user.createdAt,
+      },
+      ...tokens,
+    });
+  } catch (error) {
+    // A concurrent registration took the email or username after the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const target = error.meta?.target;
+      const field = Array.isArray(target) && target.includes('username') ? 'username' : 'email';
+      return res.status(409).json(accountExistsResponse(field));
+    }
+
+    logger.error('Registration error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Registration failed',
+      message: 'Unable to create account'
+    });
+  }
+});
+
+// POST /api/auth/verify-email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    const userId = await authTokenService.consume(token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    logger.info('Email verified', { userId });
+    await auditService.record(req, {
+      action: 'auth.email_verified',
+      actor: { userId },
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    res.json({
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    logger.error('Email verification error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Verification failed',
+      message: 'Unable to verify email address'
+    });
+  }
+});
+
+// POST /api/auth/resend-verification
+router.post('/resend-verification', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, username: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({
+        error: 'Already verified',
+        message: 'Your email address is already verified'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    logger.info('Verification email resent', { userId });
+
+    res.json({
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    logger.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Failed to send verification email',
+      message: 'Unable to send verification email'
+    });
+  }
+});
+
 // POST /api/auth/login
 router.post('/login', async (req, res) => {
   try {
@@ -25,6 +332,11 @@ router.post('/login', async (req, res) => {
     });
 
     if (!user) {
+      await auditService.record(req, {
+        action: 'auth.login_failed',
+        actor: { email },
+        metadata: { reason: 'unknown_email' },
+      });
       return res.status(401).json({
         error: 'Authentication failed',
         message: 'Invalid email or password'
@@ -34,20 +346,50 @@ router.post('/login', async (req, res) => {
     // Verify password
     const isValidPassword = await comparePassword(password, user.passwordHash);
     if (!isValidPassword) {
+      await auditService.record(req, {
+        action: 'auth.login_failed',
+        actor: { userId: user.id, email: user.email },
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: 'invalid_password' },
+      });
       return res.status(401).json({
         error: 'Authentication failed',
         message: 'Invalid email or password'
       });
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-    });
+    if (user.disabledAt) {
+      logger.warn('Login attempt for disabled account', { userId: user.id });
+      await auditService.record(req, {
+        action: 'auth.login_failed',
+        actor: { userId: user.id, email: user.email },
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: 'account_disabled' },
+      });
+      return res.status(403).json({
+        error: 'Account disabled',
+        message: 'This account has been disabled. Please contact support.'
+      });
+    }
+
+    if (user.totpEnabledAt) {
+      logger.info('Password accepted, awaiting second factor', { userId: user.id });
+      return res.json(twoFactorChallengeResponse(user));
+    }
+
+    // Generate access and refresh tokens
+    const tokens = await issueTokens(user, req);
 
     logger.info('User logged in successfully', { userId: user.id, email: user.email });
+    await auditService.record(req, {
+      action: 'auth.login',
+      actor: { userId: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { method: 'password' },
+    });
 
     res.json({
       message: 'Login successful',
@@ -56,9 +398,11 @@ router.post('/login', async (req, res) => {
         email: user.email,
         username: user.username,
         credits: user.credits,
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
         createdAt: user.createdAt,
       },
-      token,
+      ...tokens,
     });
   } catch (error) {
     logger.error('Login error:', error);
@@ -80,6 +424,101 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// POST /api/auth/login/2fa
+// Second login step: trades the challenge from /login plus a TOTP or recovery code for tokens
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code } = loginTwoFactorSchema.parse(req.body);
+
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallenge(challengeToken);
+    } catch {
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Your sign-in attempt expired. Please sign in again.'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId }
+    });
+
+    // A password change since the challenge was issued invalidates it
+    if (!user || user.tokenVersion !== challenge.tokenVersion || !user.totpEnabledAt) {
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Your sign-in attempt expired. Please sign in again.'
+      });
+    }
+
+    if (user.disabledAt) {
+      return res.status(403).json({
+        error: 'Account disabled',
+        message: 'This account has been disabled. Please contact support.'
+      });
+    }
+
+    const method = await twoFactorService.verify(user.id, code);
+    if (!method) {
+      logger.warn('Invalid second factor', { userId: user.id });
+      await auditService.record(req, {
+        action: 'auth.login_failed',
+        actor: { userId: user.id, email: user.email },
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: 'invalid_second_factor' },
+      });
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const tokens = await issueTokens(user, req);
+
+    logger.info('User logged in successfully', { userId: user.id, email: user.email, twoFactorMethod: method });
+    await auditService.record(req, {
+      action: 'auth.login',
+      actor: { userId: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { twoFactorMethod: method },
+    });
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        credits: user.credits,
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
+        createdAt: user.createdAt,
+      },
+      ...tokens,
+    });
+  } catch (error) {
+    logger.error('Two-factor login error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to authenticate'
+    });
+  }
+});
+
 // GET /api/auth/me
 router.get('/me', requireAuth, async (req, res) => {
   try {
@@ -92,6 +531,9 @@ router.get('/me', requireAuth, async (req, res) => {
         email: true,
         username: true,
         credits: true,
+        role: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -109,9 +551,13 @@ router.get('/me', requireAuth, async (req, res) => {
       });
     }
 
+    const { emailVerifiedAt, totpEnabledAt, ...profile } = user;
+
     res.json({
       user: {
-        ...user,
+        ...profile,
+        emailVerified: !!emailVerifiedAt,
+        twoFactorEnabled: !!totpEnabledAt,
         conversationCount: user._count.conversations,
       }
     });
@@ -125,25 +571,64 @@ router.get('/me', requireAuth, async (req, res) => {
 });
 
 // POST /api/auth/refresh
-router.post('/refresh', requireAuth, async (req, res) => {
+// Authenticated by the refresh token alone so that an expired access token can be renewed
+router.post('/refresh', async (req, res) => {
   try {
-    const { userId, email, username } = (req as AuthenticatedRequest).user;
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    const rotated = await refreshTokenService.rotate(refreshToken);
+    if (!rotated) {
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        message: 'Your session has expired. Please sign in again.'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotated.userId },
+      select: { id: true, email: true, username: true, role: true, tokenVersion: true, disabledAt: true },
+    });
+
+    if (!user || user.disabledAt) {
+      await refreshTokenService.revokeFamily(rotated.familyId);
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        message: user ? 'This account has been disabled' : 'User account no longer exists'
+      });
+    }
+
+    await sessionService.recordRefresh(rotated.familyId, user.id, getSessionClient(req), rotated.expiresAt);
 
-    // Generate new token
     const token = generateToken({
-      userId,
-      email,
-      username,
+      userId: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      tokenVersion: user.tokenVersion,
+      sessionId: rotated.familyId,
     });
 
-    logger.info('Token refreshed', { userId });
+    logger.info('Token refreshed', { userId: user.id });
 
     res.json({
       message: 'Token refreshed successfully',
       token,
+      refreshToken: rotated.token,
+      refreshTokenExpiresAt: rotated.expiresAt,
     });
   } catch (error) {
     logger.error('Token refresh error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
     res.status(500).json({
       error: 'Token refresh failed',
       message: 'Unable to refresh token'
@@ -151,4 +636,428 @@ router.post('/refresh', requireAuth, async (req, res) => {
   }
 });
 
+// POST /api/auth/logout
+// Revokes the refresh token family so the session cannot be renewed
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = logoutSchema.parse(req.body ?? {});
+
+    if (refreshToken) {
+      const revoked = await refreshTokenService.revoke(refreshToken);
+      if (revoked) {
+        await auditService.record(req, {
+          action: 'auth.logout',
+          actor: { userId: revoked.userId },
+          targetType: 'session',
+          targetId: revoked.familyId,
+        });
+      }
+    }
+
+    res.json({
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    logger.error('Logout error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'Unable to log out'
+    });
+  }
+});
+
+// POST /api/auth/logout-all
+// Signs out every session of the current user, including this one
+router.post('/logout-all', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { user } = req as AuthenticatedRequest;
+    const { userId } = user;
+
+    await sessionService.revokeAll(userId);
+
+    // Also invalidates access tokens issued before session tracking
+    await prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+    });
+
+    logger.info('User logged out everywhere', { userId });
+    await auditService.record(req, { action: 'auth.logout_all', actor: user, targetType: 'user', targetId: userId });
+
+    res.json({
+      message: 'Logged out of all sessions',
+    });
+  } catch (error) {
+    logger.error('Logout everywhere error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'Unable to log out of all sessions'
+    });
+  }
+});
+
+// POST /api/auth/change-password
+router.post('/change-password', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { passwordHash: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    // 400 rather than 401: the session itself is valid
+    const isValidPassword = await comparePassword(currentPassword, user.passwordHash);
+    if (!isValidPassword) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: 'Current password is incorrect',
+        field: 'currentPassword',
+      });
+    }
+
+    if (await comparePassword(newPassword, user.passwordHash)) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: 'New password must be different from the current password',
+        field: 'newPassword',
+      });
+    }
+
+    const updatedUser = await replacePassword(userId, newPassword);
+
+    try {
+      await sendPasswordChangedEmail(updatedUser);
+    } catch (mailError) {
+      logger.error('Failed to send password changed email:', mailError);
+    }
+
+    // Keep the current client signed in with a fresh token pair
+    const tokens = await issueTokens(updatedUser, req);
+
+    logger.info('Password changed', { userId });
+    await auditService.record(req, {
+      action: 'auth.password_changed',
+      actor: { userId, email: updatedUser.email },
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    res.json({
+      message: 'Password changed successfully',
+      ...tokens,
+    });
+  } catch (error) {
+    logger.error('Change password error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Password change failed',
+      message: 'Unable to change password'
+    });
+  }
+});
+
+// POST /api/auth/forgot-password
+// Always responds the same way so the endpoint cannot be used to discover accounts
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true },
+    });
+
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user);
+        logger.info('Password reset requested', { userId: user.id });
+        await auditService.record(req, {
+          action: 'auth.password_reset_requested',
+          actor: { email },
+          targetType: 'user',
+          targetId: user.id,
+        });
+      } catch (mailError) {
+        logger.error('Failed to send password reset email:', mailError);
+      }
+    }
+
+    res.json({
+      message: 'If an account exists for that email, a password reset link has been sent.',
+    });
+  } catch (error) {
+    logger.error('Forgot password error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'Unable to process password reset request'
+    });
+  }
+});
+
+// POST /api/auth/reset-password
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    const userId = await authTokenService.consume(token, 'PASSWORD_RESET');
+    if (!userId) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This password reset link is invalid or has expired'
+      });
+    }
+
+    const user = await replacePassword(userId, password);
+
+    // Following the emailed link proves ownership of the address
+    if (!user.emailVerifiedAt) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerifiedAt: new Date() },
+      });
+    }
+
+    try {
+      await sendPasswordChangedEmail(user);
+    } catch (mailError) {
+      logger.error('Failed to send password changed email:', mailError);
+    }
+
+    logger.info('Password reset completed', { userId });
+    await auditService.record(req, {
+      action: 'auth.password_reset',
+      actor: { userId, email: user.email },
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    res.json({
+      message: 'Password has been reset. You can now sign in with your new password.',
+    });
+  } catch (error) {
+    logger.error('Reset password error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'Unable to reset password'
+    });
+  }
+});
+
+// GET /api/auth/oidc/providers
+// Public list of configured identity providers for the login page
+router.get('/oidc/providers', (req, res) => {
+  res.json({
+    providers: getOidcProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+    })),
+  });
+});
+
+// GET /api/auth/oidc/:provider/authorize
+// Starts the authorization-code flow by redirecting the browser to the identity provider
+router.get('/oidc/:provider/authorize', async (req, res) => {
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) {
+    return res.status(404).json({
+      error: 'Provider not found',
+      message: 'Unknown identity provider'
+    });
+  }
+
+  try {
+    const redirectPath = typeof req.query.redirect === 'string' ? req.query.redirect : '/';
+    const url = await oidcService.createAuthorizationUrl(provider, redirectPath);
+
+    res.redirect(url);
+  } catch (error) {
+    logger.error('OIDC authorize error:', error);
+    res.redirect(`${config.APP_URL}/auth/callback?error=provider_unavailable`);
+  }
+});
+
+// GET /api/auth/oidc/:provider/callback
+// Redirect target registered with the identity provider. Hands the frontend a
+// short-lived one-time code instead of putting tokens in the URL.
+router.get('/oidc/:provider/callback', async (req, res) => {
+  const callbackUrl = new URL('/auth/callback', config.APP_URL);
+
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) {
+    callbackUrl.searchParams.set('error', 'unknown_provider');
+    return res.redirect(callbackUrl.toString());
+  }
+
+  if (typeof req.query.error === 'string') {
+    logger.warn('Identity provider returned an error', { provider: provider.id, error: req.query.error });
+    callbackUrl.searchParams.set('error', req.query.error === 'access_denied' ? 'access_denied' : 'provider_error');
+    return res.redirect(callbackUrl.toString());
+  }
+
+  try {
+    const { identity, redirectPath } = await oidcService.handleCallback(provider, {
+      code: typeof req.query.code === 'string' ? req.query.code : undefined,
+      state: typeof req.query.state === 'string' ? req.query.state : undefined,
+    });
+
+    const user = await oidcService.resolveUser(provider, identity);
+    if (user.disabledAt) {
+      throw new OidcError('account_disabled', 'This account has been disabled');
+    }
+
+    callbackUrl.searchParams.set('code', oidcService.issueLoginCode(user.id, redirectPath));
+    res.redirect(callbackUrl.toString());
+  } catch (error) {
+    if (error instanceof OidcError) {
+      logger.warn('OIDC login failed', { provider: provider.id, code: error.code, message: error.message });
+      await auditService.record(req, {
+        action: 'auth.login_failed',
+        metadata: { reason: error.code, provider: provider.id },
+      });
+      callbackUrl.searchParams.set('error', error.code);
+    } else {
+      logger.error('OIDC callback error:', error);
+      callbackUrl.searchParams.set('error', 'server_error');
+    }
+    res.redirect(callbackUrl.toString());
+  }
+});
+
+// POST /api/auth/oidc/exchange
+// Trades the one-time code from the callback for the same tokens /login returns
+router.post('/oidc/exchange', async (req, res) => {
+  try {
+    const { code } = oidcExchangeSchema.parse(req.body);
+
+    const pending = oidcService.consumeLoginCode(code);
+    if (!pending) {
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'This sign-in link is invalid or has expired'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: pending.userId }
+    });
+
+    if (!user) {
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'User account no longer exists'
+      });
+    }
+
+    if (user.disabledAt) {
+      return res.status(403).json({
+        error: 'Account disabled',
+        message: 'This account has been disabled. Please contact support.'
+      });
+    }
+
+    // The identity provider only replaces the password; the second factor still applies
+    if (user.totpEnabledAt) {
+      return res.json({
+        ...twoFactorChallengeResponse(user),
+        redirectPath: pending.redirectPath,
+      });
+    }
+
+    const tokens = await issueTokens(user, req);
+
+    logger.info('User logged in via OIDC', { userId: user.id });
+    await auditService.record(req, {
+      action: 'auth.login',
+      actor: { userId: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { method: 'oidc' },
+    });
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        credits: user.credits,
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
+        createdAt: user.createdAt,
+      },
+      redirectPath: pending.redirectPath,
+      ...tokens,
+    });
+  } catch (error) {
+    logger.error('OIDC exchange error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to complete sign-in'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import chatRoutes from './chat';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { createSignedInUser } from '../test/factories';
+
+// The chat routes behind the mock provider and the local storage driver, as in
+// an offline development setup
+const app = express();
+app.use(express.json());
+app.use('/api/chat', chatRoutes);
+
+function createUser(credits = 10) {
+  return createSignedInUser({ credits, emailVerifiedAt: new Date() });
+}
+
+// SSE events as sent by the streaming service
+function parseEvents(body: string): Array<{ type: string; data: any }> {
+  return body
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)));
+}
+
+describe('POST /api/chat/send', () => {
+  it('streams a code reply, stores its artifact locally and charges for it', async () => {
+    const { user, token } = await createUser();
+
+    const res = await request(app)
+      .post('/api/chat/send')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ message: 'Create a React counter component', enableBuilding: false });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/event-stream');
+
+    const events = parseEvents(res.text);
+    const text = events
+      .filter(event => event.type === 'chunk' && typeof event.data.text === 'string')
+      .map(event => event.data.text)
+      .join('');
+    expect(text).toContain('Here is a counter component');
+    expect(events.some(event => event.type === 'error')).toBe(false);
+
+    const messages = await prisma.message.findMany({ orderBy: { createdAt: 'asc' } });
+    expect(messages.map(message => message.role)).toEqual(['USER', 'ASSISTANT']);
+    expect(messages[1].content).toBe(text);
+
+    const artifacts = await prisma.codeArtifact.findMany({ where: { messageId: messages[1].id } });
+    expect(artifacts).toHaveLength(1);
+    const stored = fs.readFileSync(path.join(config.STORAGE_LOCAL_DIR, artifacts[0].s3Key), 'utf8');
+    expect(stored).toContain('useState');
+    expect(artifacts[0].s3Url).toMatch(/\/storage\//);
+
+    const { credits } = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(credits).toBeLessThan(10);
+    expect(await prisma.creditReservation.count({ where: { status: 'HELD' } })).toBe(0);
+  });
+
+  it('answers without streaming', async () => {
+    const { token } = await createUser();
+
+    const res = await request(app)
+      .post('/api/chat/send')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ message: 'Hello there', stream: false });
+
+    expect(res.status).toBe(200);
+    expect(await prisma.message.count({ where: { role: 'ASSISTANT' } })).toBe(1);
+    expect(JSON.stringify(res.body)).toContain('This is a mock response');
+  });
+
+  it('refuses to generate without credits', async () => {
+    const { token } = await createUser(0);
+
+    const res = await request(app)
+      .post('/api/chat/send')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ message: 'Hello there', stream: false });
+
+    expect(res.status).toBe(403);
+    expect(await prisma.message.count()).toBe(0);
+  });
+});
+
+describe('POST /api/chat/regenerate', () => {
+  it('streams in a session that can be cancelled and removes the replaced artifact', async () => {
+    const { token } = await createUser();
+    await request(app)
+      .post('/api/chat/send')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ message: 'Create a React counter component', enableBuilding: false });
+    const original = await prisma.message.findFirstOrThrow({ where: { role: 'ASSISTANT' } });
+    const artifact = await prisma.codeArtifact.findFirstOrThrow({ where: { messageId: original.id } });
+
+    const res = await request(app)
+      .post(`/api/chat/regenerate/${original.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({});
+
+    expect(res.status).toBe(200);
+    expect(res.headers['x-stream-session-id']).toBeTruthy();
+    const complete = parseEvents(res.text).find(event => event.type === 'complete');
+    expect(complete?.data).toMatchObject({ reason: 'completed', messageId: expect.any(String) });
+    expect(complete?.data.messageId).not.toBe(original.id);
+
+    expect(await prisma.message.findUnique({ where: { id: original.id } })).toBeNull();
+    expect(await prisma.codeArtifact.count()).toBe(0);
+    expect(fs.existsSync(path.join(config.STORAGE_LOCAL_DIR, artifact.s3Key))).toBe(false);
+  });
+});
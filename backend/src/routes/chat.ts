@@ -1,13 +1,22 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
-import { geminiService } from '../services/gemini';
+import { Prisma } from '@prisma/client';
+import { requireAuth, requireScope, requireVerifiedEmail, requireWorkspace, AuthenticatedRequest, WorkspaceRequest } from '../middleware/auth';
+import { strictRateLimit, planChatRateLimit } from '../middleware/rate-limit';
+import { llmService, TokenUsage, GenerationOptions } from '../services/llm';
+import { LlmError } from '../services/llm-resilience';
 import { memoryManager } from '../services/memory';
+import { accessibleConversationsWhere } from '../services/teams';
+import { creditService, CreditError, CreditReservation } from '../services/credits';
+import { pricingService } from '../services/pricing';
+import { planService } from '../services/plans';
+import { instructionsService, MAX_INSTRUCTIONS_LENGTH } from '../services/instructions';
 import { createLogger } from '../utils/logger';
 import { prisma } from '../utils/database';
 
 import { optimizedStorageManager } from '../services/optimized-storage-manager';
-import { streamingService } from '../services/streaming-service';
+import { streamingService, StreamSessionError } from '../services/streaming-service';
+import { collectStorageKeys, deleteUnreferencedObjects } from '../services/storage-cleanup';
 import { securityValidator } from '../services/security-validator';
 import { enhancedCodeExtractor } from '../services/enhanced-code-extractor';
 import { localBundlingService } from '../services/local-bundling-service';
@@ -18,6 +27,16 @@ const router = Router();
 const logger = createLogger();
 
 // Validation schemas
+// Stored on the conversation; null resets a setting to the server default
+const conversationSettingsSchema = z.object({
+  model: z.string().refine(model => llmService.models.includes(model), 'Model is not available').nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  maxOutputTokens: z.number().int().min(1).nullable().optional(), // Capped by the plan's limit
+  topP: z.number().min(0).max(1).nullable().optional(),
+  customInstructions: z.string().trim().max(MAX_INSTRUCTIONS_LENGTH, 'Instructions are too long')
+    .transform(text => text || null).nullable().optional(),
+});
+
 const sendMessageSchema = z.object({
   message: z.string().min(1, 'Message cannot be empty').max(10000, 'Message too long'),
   conversationId: z.string().uuid('Invalid conversation ID').optional(),
@@ -25,49 +44,60 @@ const sendMessageSchema = z.object({
   enableSecurity: z.boolean().optional().default(true),
   enableBuilding: z.boolean().optional().default(true),
   enablePreview: z.boolean().optional().default(true),
+  settings: conversationSettingsSchema.optional(),
 });
 
-// POST /api/chat/send
-router.post('/send', requireAuth, async (req, res) => {
+interface ConversationSettings {
+  model: string | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  topP: number | null;
+}
+
+// GET /api/chat/models
+router.get('/models', requireAuth, async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
+    const { plan } = await planService.effectivePlan(userId);
+
+    res.json({
+      models: llmService.models,
+      defaultModel: llmService.modelName,
+      maxOutputTokens: plan.maxOutputTokens,
+    });
+  } catch (error) {
+    logger.error('Get models error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve models',
+      message: 'Unable to fetch the available models',
+    });
+  }
+});
+
+// POST /api/chat/send
+router.post('/send', strictRateLimit, requireAuth, requireScope('chat:write'), requireVerifiedEmail, requireWorkspace, planChatRateLimit, async (req, res) => {
+  let reservation: CreditReservation | null = null;
+
+  try {
+    const { user: { userId }, workspace } = req as WorkspaceRequest;
     const { 
       message, 
       conversationId, 
       stream, 
       enableSecurity, 
-      enableBuilding, 
-      enablePreview 
+      enableBuilding: buildingRequested, 
+      enablePreview,
+      settings,
     } = sendMessageSchema.parse(req.body);
 
-    // Check user credits
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { credits: true }
-    });
-
-    if (!user) {
-      return res.status(404).json({
-        error: 'User not found',
-        message: 'User account no longer exists'
-      });
-    }
-
-    if (user.credits <= 0) {
-      return res.status(403).json({
-        error: 'Insufficient credits',
-        message: 'You have exhausted your credits. Please contact subasgupta@outlook.com to get more credits.',
-        credits: 0
-      });
-    }
-
-    // Get or create conversation
+    // Find the conversation first; its model decides the credits to hold
     let conversation;
     if (conversationId) {
+      // Team members can continue each other's conversations
       conversation = await prisma.conversation.findFirst({
         where: {
           id: conversationId,
-          userId,
+          ...accessibleConversationsWhere(userId),
         },
         include: {
           messages: {
@@ -89,19 +119,39 @@ router.post('/send', requireAuth, async (req, res) => {
           message: 'The specified conversation does not exist or you do not have access to it',
         });
       }
-    } else {
-      // Create new conversation
+    }
+
+    // Hold a credit for the whole generation so parallel requests cannot overdraw
+    const model = llmService.resolveModel(settings?.model !== undefined ? settings.model : conversation?.model);
+    reservation = await reserveCredit(userId, res, model);
+    if (!reservation) return;
+
+    const { plan } = await planService.effectivePlan(userId);
+    const enableBuilding = buildingRequested && plan.features.codeBuilds;
+
+    if (!conversation) {
+      // Create new conversation in the active workspace
       conversation = await prisma.conversation.create({
         data: {
           userId,
+          teamId: workspace.teamId,
           title: message.length > 50 ? message.substring(0, 47) + '...' : message,
+          ...settings,
         },
         include: {
           messages: true,
         },
       });
+    } else if (settings) {
+      conversation = {
+        ...conversation,
+        ...await prisma.conversation.update({ where: { id: conversation.id }, data: settings }),
+      };
     }
 
+    const generation = generationOptions(conversation, plan.maxOutputTokens);
+    const customInstructions = await instructionsService.forConversation(userId, conversation);
+
     // Save user message
     const userMessage = await prisma.message.create({
       data: {
@@ -120,27 +170,35 @@ router.post('/send', requireAuth, async (req, res) => {
         enablePreview: enablePreview,
         compression: true,
         timeout: 120000,
+        ownerId: userId,
       });
+      const { signal } = session.abortController;
 
       try {
-        // Get conversation memory and create chat session
+        // Get conversation memory
         const memory = memoryManager.getConversationMemory(conversation.id);
-        const history = await memory.getGeminiHistory();
-        const chatSession = geminiService.createChatSession(history);
+        const history = await memory.getHistory(userMessage.createdAt);
 
         // Stream with single-file processing
-        const aiResponseGenerator = geminiService.streamMessage(message, chatSession, {
+        const aiResponseGenerator = llmService.stream(history, message, {
           enableSecurity,
           enableBuilding,
-          conversationHistory: history,
+          customInstructions,
+          ...generation,
+          signal,
         });
         
         // Custom streaming for single-file consolidation
         let fullResponse = '';
+        let usage: TokenUsage | null = null;
+        let responseModel = generation.model; // A fallback model may answer instead
         const artifacts = [];
 
         for await (const chunk of aiResponseGenerator) {
-          if (!chunk.isComplete) {
+          if (chunk.isComplete) {
+            usage = chunk.usage ?? null;
+            responseModel = chunk.model ?? responseModel;
+          } else {
             fullResponse += chunk.text;
             
             // Send chunk to client
@@ -154,6 +212,19 @@ router.post('/send', requireAuth, async (req, res) => {
           }
         }
 
+        // Cancelled or disconnected: keep the partial response, skip the pipeline
+        // and charge nothing; the reserved credit is released below
+        if (signal.aborted) {
+          const cancelledMessage = await saveCancelledResponse(conversation.id, fullResponse, generation.model);
+          logger.info('Generation cancelled', { conversationId: conversation.id, reason: signal.reason });
+          streamingService.closeSession(sessionId, String(signal.reason), {
+            conversationId: conversation.id,
+            messageId: cancelledMessage?.id,
+            cancelled: true,
+          });
+          return;
+        }
+
         // Intelligent code detection before extraction
         const userIntent = codeIntentDetector.analyzeUserIntent(message);
         const responseIntent = codeIntentDetector.analyzeResponseContent(fullResponse);
@@ -295,6 +366,9 @@ router.post('/send', requireAuth, async (req, res) => {
             conversationId: conversation.id,
             role: 'ASSISTANT',
             content: streamResult.fullResponse,
+            model: responseModel,
+            promptTokens: usage?.promptTokens,
+            completionTokens: usage?.completionTokens,
           },
         });
 
@@ -346,13 +420,18 @@ router.post('/send', requireAuth, async (req, res) => {
           { output: streamResult.fullResponse }
         );
 
-        // Close streaming session
-        streamingService.closeSession(sessionId, 'completed');
+        // Charge after a successful streaming response
+        const { charged } = await creditService.commit(reservation.id, {
+          conversationId: conversation.id,
+          messageId: assistantMessage.id,
+          credits: pricingService.creditsFor(responseModel, usage),
+        });
 
-        // Decrement user credits after successful streaming response
-        await prisma.user.update({
-          where: { id: userId },
-          data: { credits: { decrement: 1 } }
+        // Close streaming session; the completion event carries the usage
+        streamingService.closeSession(sessionId, 'completed', {
+          conversationId: conversation.id,
+          messageId: assistantMessage.id,
+          usage: formatUsage(usage, charged),
         });
 
         logger.info('Single-file streaming chat response completed', {
@@ -365,6 +444,10 @@ router.post('/send', requireAuth, async (req, res) => {
 
       } catch (error) {
         logger.error('Enhanced streaming chat error:', error);
+        streamingService['sendEvent'](sessionId, {
+          type: 'error',
+          data: generationError(error, 'Streaming failed'),
+        });
         streamingService.closeSession(sessionId, 'error');
         
         if (!res.headersSent) {
@@ -378,13 +461,13 @@ router.post('/send', requireAuth, async (req, res) => {
       // Enhanced non-streaming response
       try {
         const memory = memoryManager.getConversationMemory(conversation.id);
-        const history = await memory.getGeminiHistory();
-        const chatSession = geminiService.createChatSession(history);
+        const history = await memory.getHistory(userMessage.createdAt);
 
-        const response = await geminiService.sendMessage(message, chatSession, {
+        const { text: response, usage, model: responseModel = generation.model } = await llmService.complete(history, message, {
           enableSecurity,
           enableBuilding,
-          conversationHistory: history,
+          customInstructions,
+          ...generation,
         });
         
         // Intelligent code detection before extraction
@@ -434,6 +517,9 @@ router.post('/send', requireAuth, async (req, res) => {
             conversationId: conversation.id,
             role: 'ASSISTANT',
             content: response,
+            model: responseModel,
+            promptTokens: usage?.promptTokens,
+            completionTokens: usage?.completionTokens,
           },
         });
 
@@ -538,10 +624,11 @@ router.post('/send', requireAuth, async (req, res) => {
           { output: response }
         );
 
-        // Decrement user credits after successful response
-        await prisma.user.update({
-          where: { id: userId },
-          data: { credits: { decrement: 1 } }
+        // Charge after a successful response
+        const { charged } = await creditService.commit(reservation.id, {
+          conversationId: conversation.id,
+          messageId: assistantMessage.id,
+          credits: pricingService.creditsFor(responseModel, usage),
         });
 
         res.json({
@@ -550,6 +637,7 @@ router.post('/send', requireAuth, async (req, res) => {
             messageId: assistantMessage.id,
             conversationId: conversation.id,
             response,
+            usage: formatUsage(usage, charged),
             artifacts: savedArtifacts,
             builds: builds.length,
             security: securityResults ? {
@@ -578,9 +666,11 @@ router.post('/send', requireAuth, async (req, res) => {
 
       } catch (error) {
         logger.error('Single-file chat response error:', error);
+        const { error: detail, reason } = generationError(error, 'An error occurred while processing your request');
         res.status(500).json({
           error: 'Failed to generate single-file response',
-          message: 'An error occurred while processing your request',
+          message: detail,
+          reason,
         });
       }
     }
@@ -601,11 +691,82 @@ router.post('/send', requireAuth, async (req, res) => {
       error: 'Chat request failed',
       message: 'Unable to process chat request',
     });
+  } finally {
+    // No-op once committed; otherwise the generation failed or was abandoned
+    if (reservation) {
+      await creditService.release(reservation.id);
+    }
+  }
+});
+
+// GET /api/chat/stream/:sessionId
+// Resumes a /send or /regenerate stream after a dropped connection, from the Last-Event-ID header
+router.get('/stream/:sessionId', requireAuth, requireScope('chat:write'), async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    streamingService.resumeSession(req.params.sessionId, userId, res, req.get('Last-Event-ID'));
+  } catch (error) {
+    if (error instanceof StreamSessionError && error.code === 'not_found') {
+      return res.status(404).json({
+        error: 'Stream not found',
+        message: 'The stream has expired or does not belong to you',
+      });
+    }
+    if (error instanceof StreamSessionError && error.code === 'history_lost') {
+      return res.status(409).json({
+        error: 'Cannot resume stream',
+        message: 'The events after Last-Event-ID are no longer available',
+      });
+    }
+
+    logger.error('Resume stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Failed to resume stream',
+        message: 'Unable to resume the stream',
+      });
+    }
+  }
+});
+
+// POST /api/chat/cancel
+// Stops the stream named by the X-Stream-Session-Id header of a /send or /regenerate response
+router.post('/cancel', requireAuth, requireScope('chat:write'), async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const sessionId = req.get('X-Stream-Session-Id');
+
+    if (!sessionId) {
+      return res.status(400).json({
+        error: 'Missing session',
+        message: 'The X-Stream-Session-Id header is required',
+      });
+    }
+
+    if (!streamingService.cancelSession(sessionId, userId)) {
+      return res.status(404).json({
+        error: 'Stream not found',
+        message: 'The stream has already finished or does not belong to you',
+      });
+    }
+
+    res.json({
+      message: 'Generation cancelled',
+      data: { sessionId },
+    });
+  } catch (error) {
+    logger.error('Cancel generation error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel generation',
+      message: 'Unable to cancel the generation',
+    });
   }
 });
 
 // POST /api/chat/regenerate
-router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
+router.post('/regenerate/:messageId', strictRateLimit, requireAuth, requireScope('chat:write'), requireVerifiedEmail, planChatRateLimit, async (req, res) => {
+  let reservation: CreditReservation | null = null;
+
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { messageId } = req.params;
@@ -615,9 +776,7 @@ router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
     const message = await prisma.message.findFirst({
       where: {
         id: messageId,
-        conversation: {
-          userId,
-        },
+        conversation: accessibleConversationsWhere(userId),
       },
       include: {
         conversation: {
@@ -653,105 +812,144 @@ router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
       });
     }
 
+    // Regenerating costs the same as sending
+    reservation = await reserveCredit(userId, res, llmService.resolveModel(message.conversation.model));
+    if (!reservation) return;
+
+    const { plan } = await planService.effectivePlan(userId);
+    const generation = generationOptions(message.conversation, plan.maxOutputTokens);
+    const customInstructions = await instructionsService.forConversation(userId, message.conversation);
+
     const userMessage = message.conversation.messages[messageIndex - 1];
-    
-    // Delete the old assistant message and any artifacts
-    await prisma.codeArtifact.deleteMany({
-      where: { messageId: message.id },
-    });
-    
-    await prisma.message.delete({
-      where: { id: message.id },
-    });
 
     // Regenerate response using the same logic as /send
     // This is similar to the /send endpoint but reuses existing conversation
     if (stream) {
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control',
+      // A session like /send's, so the regeneration can be cancelled and resumed
+      const sessionId = uuidv4();
+      const session = streamingService.createStreamSession(sessionId, res, {
+        enableArtifactProcessing: false,
+        enableBuilding: false,
+        enablePreview: false,
+        timeout: 120000,
+        ownerId: userId,
       });
+      const { signal } = session.abortController;
 
       let fullResponse = '';
+      let usage: TokenUsage | null = null;
+      let responseModel = generation.model;
       
       try {
         const memory = memoryManager.getConversationMemory(message.conversation.id);
-        const history = await memory.getGeminiHistory();
-        const chatSession = geminiService.createChatSession(history);
+        const history = await memory.getHistory(userMessage.createdAt);
 
-        const streamGenerator = geminiService.streamMessage(userMessage.content, chatSession);
+        const streamGenerator = llmService.stream(history, userMessage.content, {
+          customInstructions,
+          ...generation,
+          signal,
+        });
         
         for await (const chunk of streamGenerator) {
-          if (!chunk.isComplete) {
+          if (chunk.isComplete) {
+            usage = chunk.usage ?? null;
+            responseModel = chunk.model ?? responseModel;
+          } else {
             fullResponse += chunk.text;
             
-            res.write(`data: ${JSON.stringify({
+            streamingService['sendEvent'](sessionId, {
               type: 'chunk',
               data: {
                 text: chunk.text,
                 isComplete: false,
-              }
-            })}\n\n`);
+              },
+            });
           }
         }
 
-        // Save new assistant message
-        const newAssistantMessage = await prisma.message.create({
-          data: {
+        // A partial response replaces the old one; without any content the old one stays.
+        // The reserved credit is released below.
+        if (signal.aborted) {
+          const cancelledMessage = fullResponse
+            ? await replaceAssistantMessage(message.id, {
+              conversationId: message.conversation.id,
+              role: 'ASSISTANT',
+              content: fullResponse,
+              model: generation.model,
+              cancelled: true,
+            })
+            : null;
+          logger.info('Regeneration cancelled', { conversationId: message.conversation.id, reason: signal.reason });
+          streamingService.closeSession(sessionId, String(signal.reason), {
             conversationId: message.conversation.id,
-            role: 'ASSISTANT',
-            content: fullResponse,
-          },
+            messageId: cancelledMessage?.id,
+            cancelled: true,
+          });
+          return;
+        }
+
+        const newAssistantMessage = await replaceAssistantMessage(message.id, {
+          conversationId: message.conversation.id,
+          role: 'ASSISTANT',
+          content: fullResponse,
+          model: responseModel,
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
         });
 
-        res.write(`data: ${JSON.stringify({
-          type: 'complete',
-          data: {
-            messageId: newAssistantMessage.id,
-            conversationId: message.conversation.id,
-            isComplete: true,
-          }
-        })}\n\n`);
+        const { charged } = await creditService.commit(reservation.id, {
+          conversationId: message.conversation.id,
+          messageId: newAssistantMessage.id,
+          credits: pricingService.creditsFor(responseModel, usage),
+          regeneration: true,
+        });
 
         await memory.saveContext(
           { input: userMessage.content },
           { output: fullResponse }
         );
 
+        streamingService.closeSession(sessionId, 'completed', {
+          conversationId: message.conversation.id,
+          messageId: newAssistantMessage.id,
+          usage: formatUsage(usage, charged),
+        });
+
       } catch (error) {
         logger.error('Regenerate streaming error:', error);
-        res.write(`data: ${JSON.stringify({
+        streamingService['sendEvent'](sessionId, {
           type: 'error',
-          data: {
-            error: 'Failed to regenerate response',
-          }
-        })}\n\n`);
+          data: generationError(error, 'Failed to regenerate response'),
+        });
+        streamingService.closeSession(sessionId, 'error');
       }
-      
-      res.end();
     } else {
       // Non-streaming regeneration
       try {
         const memory = memoryManager.getConversationMemory(message.conversation.id);
-        const history = await memory.getGeminiHistory();
-        const chatSession = geminiService.createChatSession(history);
+        const history = await memory.getHistory(userMessage.createdAt);
 
-        const response = await geminiService.sendMessage(userMessage.content, chatSession, {
+        const { text: response, usage, model: responseModel = generation.model } = await llmService.complete(history, userMessage.content, {
           enableSecurity: true,
-          enableBuilding: true,
-          conversationHistory: history,
+          enableBuilding: plan.features.codeBuilds,
+          customInstructions,
+          ...generation,
         });
 
-        // Save new assistant message
-        const newAssistantMessage = await prisma.message.create({
-          data: {
-            conversationId: message.conversation.id,
-            role: 'ASSISTANT',
-            content: response,
-          },
+        const newAssistantMessage = await replaceAssistantMessage(message.id, {
+          conversationId: message.conversation.id,
+          role: 'ASSISTANT',
+          content: response,
+          model: responseModel,
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+        });
+
+        const { charged } = await creditService.commit(reservation.id, {
+          conversationId: message.conversation.id,
+          messageId: newAssistantMessage.id,
+          credits: pricingService.creditsFor(responseModel, usage),
+          regeneration: true,
         });
 
         // Update memory
@@ -766,6 +964,7 @@ router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
             messageId: newAssistantMessage.id,
             conversationId: message.conversation.id,
             response,
+            usage: formatUsage(usage, charged),
           },
         });
 
@@ -777,9 +976,11 @@ router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
 
       } catch (error) {
         logger.error('Non-streaming regeneration error:', error);
+        const { error: detail, reason } = generationError(error, 'An error occurred while regenerating the response');
         res.status(500).json({
           error: 'Failed to regenerate response',
-          message: 'An error occurred while regenerating the response',
+          message: detail,
+          reason,
         });
       }
     }
@@ -790,9 +991,112 @@ router.post('/regenerate/:messageId', requireAuth, async (req, res) => {
       error: 'Failed to regenerate message',
       message: 'An error occurred while regenerating the response',
     });
+  } finally {
+    if (reservation) {
+      await creditService.release(reservation.id);
+    }
   }
 });
 
+// A conversation's generation settings, within the plan's output limit
+function generationOptions(conversation: ConversationSettings, planMaxOutputTokens: number): GenerationOptions & { model: string } {
+  return {
+    model: llmService.resolveModel(conversation.model),
+    temperature: conversation.temperature ?? undefined,
+    topP: conversation.topP ?? undefined,
+    maxOutputTokens: Math.min(conversation.maxOutputTokens ?? Infinity, planMaxOutputTokens),
+  };
+}
+
+// Reserve a credit for a generation, or answer the request when there is none to spare
+async function reserveCredit(userId: string, res: Response, model: string): Promise<CreditReservation | null> {
+  try {
+    return await creditService.reserve(userId, pricingService.minimumCredits(model));
+  } catch (error) {
+    if (error instanceof CreditError && error.code === 'not_found') {
+      res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+      return null;
+    }
+    if (error instanceof CreditError && error.code === 'insufficient') {
+      const [{ plan }, user] = await Promise.all([
+        planService.effectivePlan(userId),
+        prisma.user.findUnique({ where: { id: userId }, select: { credits: true, nextRefillAt: true } }),
+      ]);
+      res.status(403).json({
+        error: 'Insufficient credits',
+        message: 'You have exhausted your credits. They are topped up at the next refill of your plan.',
+        credits: user?.credits ?? 0,
+        plan: { id: plan.id, name: plan.name, monthlyCredits: plan.monthlyCredits },
+        nextRefillAt: user?.nextRefillAt ?? null,
+      });
+      return null;
+    }
+    throw error;
+  }
+}
+
+// What the client is told when a generation fails; model failures carry their reason
+function generationError(error: unknown, fallbackMessage: string) {
+  if (error instanceof LlmError) {
+    return { error: error.message, reason: error.reason, retryable: error.transient };
+  }
+  return { error: fallbackMessage, reason: 'internal', retryable: false };
+}
+
+// Usage reported to the client alongside a finished response
+function formatUsage(usage: TokenUsage | null, credits: number) {
+  return {
+    promptTokens: usage?.promptTokens ?? null,
+    completionTokens: usage?.completionTokens ?? null,
+    credits,
+  };
+}
+
+// Keep what was generated before a cancel; nothing is charged for it
+async function saveCancelledResponse(conversationId: string, content: string, model: string) {
+  if (!content) return null;
+
+  return prisma.message.create({
+    data: {
+      conversationId,
+      role: 'ASSISTANT',
+      content,
+      model,
+      cancelled: true,
+    },
+  });
+}
+
+// Swap a regenerated response in for the old one. The old one is only deleted
+// here, so a regeneration that fails or ends without content leaves it in place.
+async function replaceAssistantMessage(oldMessageId: string, data: Prisma.MessageUncheckedCreateInput) {
+  const oldArtifacts = await prisma.codeArtifact.findMany({
+    where: { messageId: oldMessageId },
+    select: { s3Key: true, bundledHtmlKey: true },
+  });
+
+  const [, , replacement] = await prisma.$transaction([
+    prisma.codeArtifact.deleteMany({ where: { messageId: oldMessageId } }),
+    prisma.message.delete({ where: { id: oldMessageId } }),
+    prisma.message.create({ data }),
+  ]);
+
+  // The new response is saved; a failed cleanup only leaves objects behind
+  try {
+    const storage = await deleteUnreferencedObjects(collectStorageKeys(oldArtifacts));
+    if (oldArtifacts.length > 0) {
+      logger.info('Replaced response artifacts cleaned up', { oldMessageId, ...storage });
+    }
+  } catch (error) {
+    logger.error('Failed to clean up replaced response artifacts', { oldMessageId, error });
+  }
+
+  return replacement;
+}
+
 // Helper function for buildability check
 function isBuildable(artifact: any): boolean {
   const buildableTypes = ['REACT', 'JAVASCRIPT', 'HTML'];
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requireScope, requireWorkspace, AuthenticatedRequest, WorkspaceRequest } from '../middleware/auth';
 import { memoryManager } from '../services/memory';
 import { s3Service } from '../services/s3';
+import { auditService } from '../services/audit';
+import { accessibleConversationsWhere, manageableConversationsWhere, workspaceConversationsWhere } from '../services/teams';
 import { createLogger } from '../utils/logger';
 import { prisma } from '../utils/database';
 
@@ -21,15 +23,15 @@ const conversationQuerySchema = z.object({
 });
 
 // GET /api/conversations
-router.get('/', requireAuth, async (req, res) => {
+router.get('/', requireAuth, requireScope('conversations:read'), requireWorkspace, async (req, res) => {
   try {
-    const { userId } = (req as AuthenticatedRequest).user;
+    const { user: { userId }, workspace } = req as WorkspaceRequest;
     const { page, limit, search } = conversationQuerySchema.parse(req.query);
 
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const whereClause: any = { userId };
+    const whereClause: any = workspaceConversationsWhere(userId, workspace);
     if (search) {
       whereClause.OR = [
         { title: { contains: search, mode: 'insensitive' } },
@@ -53,6 +55,12 @@ router.get('/', requireAuth, async (req, res) => {
               messages: true,
             },
           },
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
           messages: {
             take: 1,
             orderBy: { createdAt: 'desc' },
@@ -75,6 +83,8 @@ router.get('/', requireAuth, async (req, res) => {
       title: conv.title,
       messageCount: conv._count.messages,
       lastMessage: conv.messages[0] || null,
+      teamId: conv.teamId,
+      createdBy: conv.user,
       createdAt: conv.createdAt,
       updatedAt: conv.updatedAt,
     }));
@@ -91,7 +101,7 @@ router.get('/', requireAuth, async (req, res) => {
       },
     });
 
-    logger.debug('Conversations retrieved', { userId, count: conversations.length });
+    logger.debug('Conversations retrieved', { userId, teamId: workspace.teamId, count: conversations.length });
   } catch (error) {
     logger.error('Get conversations error:', error);
     
@@ -113,7 +123,7 @@ router.get('/', requireAuth, async (req, res) => {
 });
 
 // GET /api/conversations/:id
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requireScope('conversations:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -121,7 +131,7 @@ router.get('/:id', requireAuth, async (req, res) => {
     const conversation = await prisma.conversation.findFirst({
       where: {
         id,
-        userId,
+        ...accessibleConversationsWhere(userId),
       },
       include: {
         messages: {
@@ -184,17 +194,17 @@ router.get('/:id', requireAuth, async (req, res) => {
 });
 
 // PUT /api/conversations/:id
-router.put('/:id', requireAuth, async (req, res) => {
+router.put('/:id', requireAuth, requireScope('conversations:write'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
     const { title } = updateConversationSchema.parse(req.body);
 
-    // Verify ownership
+    // Verify ownership (team owners and admins may also rename team conversations)
     const existingConversation = await prisma.conversation.findFirst({
       where: {
         id,
-        userId,
+        ...manageableConversationsWhere(userId),
       },
     });
 
@@ -249,7 +259,7 @@ router.put('/:id', requireAuth, async (req, res) => {
 });
 
 // DELETE /api/conversations/:id
-router.delete('/:id', requireAuth, async (req, res) => {
+router.delete('/:id', requireAuth, requireScope('conversations:write'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -258,7 +268,7 @@ router.delete('/:id', requireAuth, async (req, res) => {
     const conversation = await prisma.conversation.findFirst({
       where: {
         id,
-        userId,
+        ...manageableConversationsWhere(userId),
       },
       include: {
         messages: {
@@ -319,6 +329,18 @@ router.delete('/:id', requireAuth, async (req, res) => {
       messageCount: conversation.messages.length,
       artifactCount: s3KeysToDelete.length,
     });
+    await auditService.record(req, {
+      action: 'conversation.deleted',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'conversation',
+      targetId: id,
+      metadata: {
+        title: conversation.title,
+        teamId: conversation.teamId,
+        messageCount: conversation.messages.length,
+        artifactCount: s3KeysToDelete.length,
+      },
+    });
   } catch (error) {
     logger.error('Delete conversation error:', error);
     res.status(500).json({
@@ -329,7 +351,7 @@ router.delete('/:id', requireAuth, async (req, res) => {
 });
 
 // GET /api/conversations/:id/export
-router.get('/:id/export', requireAuth, async (req, res) => {
+router.get('/:id/export', requireAuth, requireScope('conversations:read'), async (req, res) => {
   try {
     const { userId } = (req as AuthenticatedRequest).user;
     const { id } = req.params;
@@ -338,7 +360,7 @@ router.get('/:id/export', requireAuth, async (req, res) => {
     const conversation = await prisma.conversation.findFirst({
       where: {
         id,
-        userId,
+        ...accessibleConversationsWhere(userId),
       },
       include: {
         messages: {
@@ -423,6 +445,13 @@ router.get('/:id/export', requireAuth, async (req, res) => {
     }
 
     logger.info('Conversation exported', { conversationId: id, format });
+    await auditService.record(req, {
+      action: 'conversation.exported',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'conversation',
+      targetId: id,
+      metadata: { format },
+    });
   } catch (error) {
     logger.error('Export conversation error:', error);
     res.status(500).json({
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { creditService, CreditTransactionType, CREDIT_TRANSACTION_TYPES } from '../services/credits';
+import { planService, PLANS } from '../services/plans';
+import { prisma } from '../utils/database';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+// Validation schemas
+const historyQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1).pipe(z.number().min(1)),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20).pipe(z.number().min(1).max(100)),
+  type: z.enum(CREDIT_TRANSACTION_TYPES as [string, ...string[]]).optional(),
+});
+
+// GET /api/credits
+// Current balance, what moved it over the last 30 days, and the plan that refills it
+router.get('/', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    const [usage, effectivePlan, user] = await Promise.all([
+      creditService.summary(userId),
+      planService.effectivePlan(userId),
+      prisma.user.findUnique({ where: { id: userId }, select: { nextRefillAt: true } }),
+    ]);
+
+    if (!usage) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User does not exist'
+      });
+    }
+
+    res.json({
+      usage,
+      plan: effectivePlan,
+      nextRefillAt: user?.nextRefillAt ?? null,
+    });
+  } catch (error) {
+    logger.error('Get credit usage error:', error);
+    res.status(500).json({
+      error: 'Failed to get credit usage',
+      message: 'Unable to retrieve credit usage'
+    });
+  }
+});
+
+// GET /api/credits/plans
+router.get('/plans', requireAuth, (req, res) => {
+  res.json({ plans: Object.values(PLANS) });
+});
+
+// GET /api/credits/history
+router.get('/history', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { page, limit, type } = historyQuerySchema.parse(req.query);
+    const skip = (page - 1) * limit;
+
+    const { transactions, totalCount } = await creditService.history(userId, {
+      skip,
+      take: limit,
+      type: type as CreditTransactionType | undefined,
+    });
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      transactions,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    });
+  } catch (error) {
+    logger.error('Get credit history error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to get credit history',
+      message: 'Unable to retrieve credit history'
+    });
+  }
+});
+
+export default router;
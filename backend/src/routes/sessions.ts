@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { sessionService } from '../services/sessions';
+import { auditService } from '../services/audit';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+// GET /api/sessions
+router.get('/', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { user, auth } = req as AuthenticatedRequest;
+
+    const sessions = await sessionService.list(user.userId, auth.sessionId);
+
+    res.json({ sessions });
+  } catch (error) {
+    logger.error('List sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to list sessions',
+      message: 'Unable to retrieve active sessions'
+    });
+  }
+});
+
+// DELETE /api/sessions
+// Signs out every session except the one making the request
+router.delete('/', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { user, auth } = req as AuthenticatedRequest;
+
+    if (!auth.sessionId) {
+      return res.status(400).json({
+        error: 'Session required',
+        message: 'Please sign in again to manage your sessions'
+      });
+    }
+
+    await sessionService.revokeAll(user.userId, auth.sessionId);
+    await auditService.record(req, {
+      action: 'session.revoked_others',
+      actor: user,
+      targetType: 'user',
+      targetId: user.userId,
+    });
+
+    res.json({
+      message: 'Signed out of all other sessions',
+    });
+  } catch (error) {
+    logger.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke sessions',
+      message: 'Unable to sign out other sessions'
+    });
+  }
+});
+
+// DELETE /api/sessions/:id
+router.delete('/:id', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const revoked = await sessionService.revoke(user.userId, id);
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: 'Session not found or already signed out'
+      });
+    }
+
+    await auditService.record(req, { action: 'session.revoked', actor: user, targetType: 'session', targetId: id });
+
+    res.json({
+      message: 'Session signed out',
+    });
+  } catch (error) {
+    logger.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke session',
+      message: 'Unable to sign out session'
+    });
+  }
+});
+
+export default router;
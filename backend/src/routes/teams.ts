@@ -0,0 +1,498 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireSession, requirePlanFeature, AuthenticatedRequest } from '../middleware/auth';
+import { teamService, TeamError, TeamErrorCode, isTeamManager } from '../services/teams';
+import { memoryManager } from '../services/memory';
+import { auditService } from '../services/audit';
+import { MAX_INSTRUCTIONS_LENGTH } from '../services/instructions';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+const TEAM_ERROR_STATUS: Record<TeamErrorCode, number> = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+  invalid: 400,
+};
+
+// Validation schemas
+const teamNameSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80, 'Name is too long'),
+});
+
+const instructionsSchema = z.object({
+  instructions: z.string().trim().max(MAX_INSTRUCTIONS_LENGTH, 'Instructions are too long')
+    .transform(text => text || null).nullable(),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(['OWNER', 'ADMIN', 'MEMBER']),
+});
+
+const createInvitationSchema = z.object({
+  role: z.enum(['ADMIN', 'MEMBER']).default('MEMBER'),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
+  maxUses: z.number().int().min(1).max(1000).nullable().default(null),
+});
+
+// GET /api/teams
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    res.json({ teams: await teamService.listForUser(userId) });
+  } catch (error) {
+    logger.error('List teams error:', error);
+    res.status(500).json({
+      error: 'Failed to list teams',
+      message: 'Unable to retrieve teams'
+    });
+  }
+});
+
+// POST /api/teams
+router.post('/', requireAuth, requireSession, requirePlanFeature('teamCreation'), async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { name } = teamNameSchema.parse(req.body);
+
+    const team = await teamService.create(userId, name);
+
+    res.status(201).json({ message: 'Team created', team });
+  } catch (error) {
+    logger.error('Create team error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to create team',
+      message: 'Unable to create team'
+    });
+  }
+});
+
+// GET /api/teams/invitations/:token
+// Preview an invitation link before accepting it
+router.get('/invitations/:token', requireAuth, requireSession, async (req, res) => {
+  try {
+    const invitation = await teamService.findInvitation(req.params.token);
+
+    if (!invitation) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'This invitation link is invalid or has expired'
+      });
+    }
+
+    res.json({ invitation });
+  } catch (error) {
+    logger.error('Get invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to get invitation',
+      message: 'Unable to retrieve invitation'
+    });
+  }
+});
+
+// POST /api/teams/invitations/:token/accept
+router.post('/invitations/:token/accept', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    const team = await teamService.acceptInvitation(req.params.token, userId);
+    await auditService.record(req, {
+      action: 'team.invitation_accepted',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'team',
+      targetId: team.id,
+      metadata: { role: team.role },
+    });
+
+    res.json({ message: `You joined ${team.name}`, team });
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return res.status(TEAM_ERROR_STATUS[error.code]).json({
+        error: 'Invitation not accepted',
+        message: error.message
+      });
+    }
+
+    logger.error('Accept invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to accept invitation',
+      message: 'Unable to accept invitation'
+    });
+  }
+});
+
+// GET /api/teams/:id
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    const team = workspace && await teamService.get(id);
+
+    if (!workspace || !team) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    res.json({ team: { ...team, role: workspace.role } });
+  } catch (error) {
+    logger.error('Get team error:', error);
+    res.status(500).json({
+      error: 'Failed to get team',
+      message: 'Unable to retrieve team'
+    });
+  }
+});
+
+// PATCH /api/teams/:id
+router.patch('/:id', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const { name } = teamNameSchema.parse(req.body);
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    if (!isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can rename the team'
+      });
+    }
+
+    await teamService.rename(id, name);
+
+    res.json({ message: 'Team updated' });
+  } catch (error) {
+    logger.error('Update team error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update team',
+      message: 'Unable to update team'
+    });
+  }
+});
+
+// PUT /api/teams/:id/instructions
+// Applies to every conversation in the team; an empty value clears them
+router.put('/:id/instructions', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const { instructions } = instructionsSchema.parse(req.body);
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    if (!isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can change the team instructions'
+      });
+    }
+
+    await teamService.setInstructions(id, instructions);
+
+    res.json({ message: 'Instructions updated', instructions });
+  } catch (error) {
+    logger.error('Update team instructions error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update instructions',
+      message: 'Unable to update team instructions'
+    });
+  }
+});
+
+// DELETE /api/teams/:id
+// Deletes the team together with all of its conversations
+router.delete('/:id', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    if (workspace.role !== 'OWNER') {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners can delete the team'
+      });
+    }
+
+    const { conversationIds } = await teamService.delete(id);
+    await Promise.all(conversationIds.map(conversationId => memoryManager.clearConversation(conversationId)));
+    await auditService.record(req, {
+      action: 'team.deleted',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'team',
+      targetId: id,
+      metadata: { deletedConversations: conversationIds.length },
+    });
+
+    res.json({
+      message: 'Team deleted',
+      deletedConversations: conversationIds.length,
+    });
+  } catch (error) {
+    logger.error('Delete team error:', error);
+    res.status(500).json({
+      error: 'Failed to delete team',
+      message: 'Unable to delete team'
+    });
+  }
+});
+
+// PATCH /api/teams/:id/members/:userId
+router.patch('/:id/members/:userId', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id, userId: memberId } = req.params;
+    const { role } = updateMemberSchema.parse(req.body);
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    if (!isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can change member roles'
+      });
+    }
+
+    await teamService.updateMemberRole(id, workspace.role!, memberId, role);
+    await auditService.record(req, {
+      action: 'team.member_role_changed',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'team',
+      targetId: id,
+      metadata: { memberId, role },
+    });
+
+    res.json({ message: 'Member role updated' });
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return res.status(TEAM_ERROR_STATUS[error.code]).json({
+        error: 'Role not changed',
+        message: error.message
+      });
+    }
+
+    logger.error('Update team member error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update member',
+      message: 'Unable to update member role'
+    });
+  }
+});
+
+// DELETE /api/teams/:id/members/:userId
+// Removes a member; members can remove themselves to leave the team
+router.delete('/:id/members/:userId', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id, userId: memberId } = req.params;
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace) {
+      return res.status(404).json({
+        error: 'Team not found',
+        message: 'The specified team does not exist or you are not a member'
+      });
+    }
+
+    await teamService.removeMember(id, { userId, role: workspace.role! }, memberId);
+    await auditService.record(req, {
+      action: 'team.member_removed',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'team',
+      targetId: id,
+      metadata: { memberId },
+    });
+
+    res.json({ message: memberId === userId ? 'You left the team' : 'Member removed' });
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return res.status(TEAM_ERROR_STATUS[error.code]).json({
+        error: 'Member not removed',
+        message: error.message
+      });
+    }
+
+    logger.error('Remove team member error:', error);
+    res.status(500).json({
+      error: 'Failed to remove member',
+      message: 'Unable to remove member'
+    });
+  }
+});
+
+// GET /api/teams/:id/invitations
+router.get('/:id/invitations', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace || !isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can manage invitations'
+      });
+    }
+
+    res.json({ invitations: await teamService.listInvitations(id) });
+  } catch (error) {
+    logger.error('List invitations error:', error);
+    res.status(500).json({
+      error: 'Failed to list invitations',
+      message: 'Unable to retrieve invitations'
+    });
+  }
+});
+
+// POST /api/teams/:id/invitations
+// The invitation link is returned once in `url`
+router.post('/:id/invitations', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id } = req.params;
+    const input = createInvitationSchema.parse(req.body);
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace || !isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can manage invitations'
+      });
+    }
+
+    const { invitation, url } = await teamService.createInvitation(id, userId, input);
+
+    res.status(201).json({
+      message: 'Invitation created. Share the link with the people you want to invite.',
+      invitation,
+      url,
+    });
+  } catch (error) {
+    logger.error('Create invitation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to create invitation',
+      message: 'Unable to create invitation'
+    });
+  }
+});
+
+// DELETE /api/teams/:id/invitations/:invitationId
+router.delete('/:id/invitations/:invitationId', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { id, invitationId } = req.params;
+
+    const workspace = await teamService.getWorkspace(userId, id);
+    if (!workspace || !isTeamManager(workspace.role)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only team owners and admins can manage invitations'
+      });
+    }
+
+    if (!(await teamService.revokeInvitation(id, invitationId))) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'The specified invitation does not exist or was already revoked'
+      });
+    }
+
+    res.json({ message: 'Invitation revoked' });
+  } catch (error) {
+    logger.error('Revoke invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke invitation',
+      message: 'Unable to revoke invitation'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireSession, requirePlanFeature, AuthenticatedRequest } from '../middleware/auth';
+import { personalAccessTokenService, TOKEN_SCOPES } from '../services/personal-access-tokens';
+import { auditService } from '../services/audit';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger();
+
+const MAX_ACTIVE_TOKENS = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(), // null or omitted: never expires
+});
+
+// GET /api/tokens
+router.get('/', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    const tokens = await personalAccessTokenService.list(userId);
+
+    res.json({
+      tokens,
+      availableScopes: TOKEN_SCOPES,
+    });
+  } catch (error) {
+    logger.error('List tokens error:', error);
+    res.status(500).json({
+      error: 'Failed to list tokens',
+      message: 'Unable to retrieve personal access tokens'
+    });
+  }
+});
+
+// POST /api/tokens
+router.post('/', requireAuth, requireSession, requirePlanFeature('apiAccess'), async (req, res) => {
+  try {
+    const { user } = req as AuthenticatedRequest;
+    const { userId } = user;
+    const { name, scopes, expiresInDays } = createTokenSchema.parse(req.body);
+
+    const activeCount = await personalAccessTokenService.countActive(userId);
+    if (activeCount >= MAX_ACTIVE_TOKENS) {
+      return res.status(400).json({
+        error: 'Token limit reached',
+        message: `You can have at most ${MAX_ACTIVE_TOKENS} active tokens. Revoke an unused token first.`
+      });
+    }
+
+    const { token, summary } = await personalAccessTokenService.create(userId, {
+      name,
+      scopes,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    });
+
+    await auditService.record(req, {
+      action: 'token.created',
+      actor: user,
+      targetType: 'token',
+      targetId: summary.id,
+      metadata: { name, scopes, expiresAt: summary.expiresAt },
+    });
+
+    res.status(201).json({
+      message: 'Token created. Copy it now, it will not be shown again.',
+      token: summary,
+      secret: token,
+    });
+  } catch (error) {
+    logger.error('Create token error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to create token',
+      message: 'Unable to create personal access token'
+    });
+  }
+});
+
+// DELETE /api/tokens/:id
+router.delete('/:id', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { user } = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const revoked = await personalAccessTokenService.revoke(user.userId, id);
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'Token not found',
+        message: 'Token does not exist or was already revoked'
+      });
+    }
+
+    await auditService.record(req, { action: 'token.revoked', actor: user, targetType: 'token', targetId: id });
+
+    res.json({
+      message: 'Token revoked successfully',
+    });
+  } catch (error) {
+    logger.error('Revoke token error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke token',
+      message: 'Unable to revoke personal access token'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,249 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { twoFactorService } from '../services/two-factor';
+import { auditService } from '../services/audit';
+import { sendTwoFactorChangedEmail } from '../services/account-emails';
+import { comparePassword } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const router = Router();
+const logger = createLogger();
+
+// Validation schemas
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// GET /api/auth/2fa
+router.get('/', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+
+    res.json(await twoFactorService.getStatus(userId));
+  } catch (error) {
+    logger.error('Get 2FA status error:', error);
+    res.status(500).json({
+      error: 'Failed to get status',
+      message: 'Unable to retrieve two-factor authentication status'
+    });
+  }
+});
+
+// POST /api/auth/2fa/setup
+// Generates a new secret; 2FA stays off until it is confirmed via /enable
+router.post('/setup', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId, email } = (req as AuthenticatedRequest).user;
+
+    const status = await twoFactorService.getStatus(userId);
+    if (status.enabled) {
+      return res.status(409).json({
+        error: 'Already enabled',
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const setup = await twoFactorService.beginSetup({ id: userId, email });
+
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then enter a code to finish.',
+      ...setup,
+    });
+  } catch (error) {
+    logger.error('2FA setup error:', error);
+    res.status(500).json({
+      error: 'Setup failed',
+      message: 'Unable to start two-factor authentication setup'
+    });
+  }
+});
+
+// POST /api/auth/2fa/enable
+router.post('/enable', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { code } = codeSchema.parse(req.body);
+
+    const recoveryCodes = await twoFactorService.enable(userId, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'That code is not valid. Check your authenticator app and try again.'
+      });
+    }
+
+    await auditService.record(req, {
+      action: 'two_factor.enabled',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (user) {
+      try {
+        await sendTwoFactorChangedEmail(user, true);
+      } catch (mailError) {
+        logger.error('Failed to send 2FA enabled email:', mailError);
+      }
+    }
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error('Enable 2FA error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Enable failed',
+      message: 'Unable to enable two-factor authentication'
+    });
+  }
+});
+
+// POST /api/auth/2fa/disable
+// Requires both the password and a current code (or recovery code)
+router.post('/disable', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { password, code } = disableSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User account no longer exists'
+      });
+    }
+
+    if (!user.totpEnabledAt) {
+      return res.status(400).json({
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return res.status(400).json({
+        error: 'Invalid password',
+        message: 'Password is incorrect'
+      });
+    }
+
+    if (!(await twoFactorService.verify(userId, code))) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'That code is not valid'
+      });
+    }
+
+    await twoFactorService.disable(userId);
+    await auditService.record(req, {
+      action: 'two_factor.disabled',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    try {
+      await sendTwoFactorChangedEmail(user, false);
+    } catch (mailError) {
+      logger.error('Failed to send 2FA disabled email:', mailError);
+    }
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    logger.error('Disable 2FA error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Disable failed',
+      message: 'Unable to disable two-factor authentication'
+    });
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes
+// Replaces all recovery codes; requires a current code
+router.post('/recovery-codes', requireAuth, requireSession, async (req, res) => {
+  try {
+    const { userId } = (req as AuthenticatedRequest).user;
+    const { code } = codeSchema.parse(req.body);
+
+    const status = await twoFactorService.getStatus(userId);
+    if (!status.enabled) {
+      return res.status(400).json({
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (!(await twoFactorService.verify(userId, code))) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'That code is not valid'
+      });
+    }
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(userId);
+
+    logger.info('Recovery codes regenerated', { userId });
+    await auditService.record(req, {
+      action: 'two_factor.recovery_codes_regenerated',
+      actor: (req as AuthenticatedRequest).user,
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    res.json({
+      message: 'New recovery codes generated. Your old codes no longer work.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error('Regenerate recovery codes error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+    }
+
+    res.status(500).json({
+      error: 'Regeneration failed',
+      message: 'Unable to generate new recovery codes'
+    });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import dotenv from "dotenv";
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { s3Service } from "./services/s3";
+import { signupCreditsData } from "./services/credits";
 
 // Load environment variables
 dotenv.config();
@@ -23,7 +24,9 @@ async function main() {
       email: "lakshmi@zocket.com",
       username: "Lakshmi",
       passwordHash: await bcrypt.hash("p6bF93]7=Xna", 10),
-      credits: 20,
+      ...signupCreditsData(20),
+      role: "ADMIN",
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -7,12 +7,22 @@ import { PrismaClient } from '@prisma/client';
 import { createLogger } from './utils/logger';
 import { validateEnv } from './utils/env';
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/two-factor';
 import chatRoutes from './routes/chat';
 
 import conversationRoutes from './routes/conversations';
 import artifactRoutes from './routes/artifacts';
-
-import { generalRateLimit, strictRateLimit, authRateLimit } from './middleware/rate-limit';
+import tokenRoutes from './routes/tokens';
+import sessionRoutes from './routes/sessions';
+import accountRoutes from './routes/account';
+import teamRoutes from './routes/teams';
+import creditRoutes from './routes/credits';
+import analyticsRoutes from './routes/analytics';
+import adminRoutes from './routes/admin';
+
+import { generalRateLimit, authRateLimit } from './middleware/rate-limit';
+import { planService } from './services/plans';
+import { config, getStorageDriver } from './config';
 
 dotenv.config();
 
@@ -93,14 +103,34 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Objects of the local storage driver, which links to them here
+if (getStorageDriver() === 'local') {
+  app.use('/storage', express.static(config.STORAGE_LOCAL_DIR, { dotfiles: 'deny' }));
+}
+
 // API Routes with specific rate limits
+app.use('/api/auth/2fa', authRateLimit, twoFactorRoutes);
 app.use('/api/auth', authRateLimit, authRoutes);
-app.use('/api/chat', strictRateLimit, chatRoutes);
+app.use('/api/chat', chatRoutes);
 
 app.use('/api/conversations', conversationRoutes);
 
 app.use('/api/artifacts', artifactRoutes);
 
+app.use('/api/tokens', tokenRoutes);
+
+app.use('/api/sessions', sessionRoutes);
+
+app.use('/api/account', accountRoutes);
+
+app.use('/api/teams', teamRoutes);
+
+app.use('/api/credits', creditRoutes);
+
+app.use('/api/analytics', analyticsRoutes);
+
+app.use('/api/admin', adminRoutes);
+
 // 404 handler
 app.use('*', (req, res) => {
   res.status(404).json({ 
@@ -150,6 +180,8 @@ app.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`);
   logger.info(`📖 API Documentation available at http://localhost:${PORT}/health`);
   logger.info(`🌍 CORS enabled for: ${CORS_ORIGINS.join(', ')}`);
+
+  planService.startRefillSchedule();
 });
 
 export default app;
\ No newline at end of file
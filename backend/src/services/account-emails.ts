@@ -0,0 +1,106 @@
+import { mailer } from './mailer';
+import { authTokenService } from './auth-tokens';
+import { config } from '../config';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function buildAppLink(pathname: string, token: string): string {
+  const url = new URL(pathname, config.APP_URL);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/**
+ * Issue an email verification token and mail the verification link
+ */
+export async function sendVerificationEmail(user: { id: string; email: string; username: string }): Promise<void> {
+  const ttlHours = config.EMAIL_VERIFICATION_TTL_HOURS;
+  const { token } = await authTokenService.issue(user.id, 'EMAIL_VERIFICATION', ttlHours * HOUR_MS);
+  const link = buildAppLink('/verify-email', token);
+
+  await mailer.send({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Please confirm your email address to start using the AI coding assistant:',
+      link,
+      '',
+      `This link expires in ${ttlHours} hours. If you did not create an account, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Issue a password reset token and mail the reset link
+ */
+export async function sendPasswordResetEmail(user: { id: string; email: string; username: string }): Promise<void> {
+  const ttlMinutes = config.PASSWORD_RESET_TTL_MINUTES;
+  const { token } = await authTokenService.issue(user.id, 'PASSWORD_RESET', ttlMinutes * MINUTE_MS);
+  const link = buildAppLink('/reset-password', token);
+
+  await mailer.send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'We received a request to reset your password. Choose a new one here:',
+      link,
+      '',
+      `This link expires in ${ttlMinutes} minutes and can only be used once. If you did not request a reset, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Let the user know their password was changed
+ */
+export async function sendPasswordChangedEmail(user: { email: string; username: string }): Promise<void> {
+  await mailer.send({
+    to: user.email,
+    subject: 'Your password was changed',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'The password for your account was just changed and you have been signed out of all other sessions.',
+      'If this was not you, reset your password immediately.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Let the user know two-factor authentication was turned on or off
+ */
+export async function sendTwoFactorChangedEmail(user: { email: string; username: string }, enabled: boolean): Promise<void> {
+  await mailer.send({
+    to: user.email,
+    subject: enabled ? 'Two-factor authentication enabled' : 'Two-factor authentication disabled',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      enabled
+        ? 'Two-factor authentication is now enabled. Signing in will require a code from your authenticator app.'
+        : 'Two-factor authentication was turned off for your account. Signing in now only requires your password.',
+      'If this was not you, reset your password immediately.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Confirm that an account and its data were deleted
+ */
+export async function sendAccountDeletedEmail(user: { email: string; username: string }): Promise<void> {
+  await mailer.send({
+    to: user.email,
+    subject: 'Your account was deleted',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Your account has been deleted along with its conversations, messages and generated code.',
+      'If this was not you, contact support as soon as possible.',
+    ].join('\n'),
+  });
+}
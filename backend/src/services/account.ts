@@ -0,0 +1,258 @@
+import type { Archiver } from 'archiver';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { s3Service } from './s3';
+import { collectStorageKeys, deleteUnreferencedObjects } from './storage-cleanup';
+import { teamService } from './teams';
+
+const logger = createLogger();
+
+// Bump when the archive layout changes; documented in the README
+export const ACCOUNT_EXPORT_FORMAT_VERSION = 1;
+
+const SOURCE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  jsx: 'jsx',
+  tsx: 'tsx',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  python: 'py',
+  markdown: 'md',
+};
+
+export interface AccountExportManifest {
+  format: 'zocket-account-export';
+  version: number;
+  exportedAt: string;
+  userId: string;
+  conversations: number;
+  messages: number;
+  artifacts: number;
+  missingArtifactSources: string[]; // Artifact ids whose source could not be read from storage
+}
+
+export interface AccountDeletionResult {
+  conversations: number;
+  artifacts: number;
+  storageObjectsDeleted: number;
+  storageObjectsRetained: number; // Still referenced by other users' artifacts
+  storageObjectsFailed: number;
+}
+
+interface ExportArtifact {
+  id: string;
+  title: string;
+  language: string;
+  type: string;
+  s3Key: string;
+  createdAt: Date;
+}
+
+interface ExportMessage {
+  id: string;
+  role: string;
+  content: string;
+  createdAt: Date;
+  artifacts: ExportArtifact[];
+}
+
+function artifactSourcePath(artifact: ExportArtifact): string {
+  const baseName = artifact.title
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'source';
+  const extension = SOURCE_EXTENSIONS[artifact.language.toLowerCase()] ?? 'txt';
+
+  return `artifacts/${artifact.id}/${baseName}.${extension}`;
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Self-service account data export and deletion
+ */
+export class AccountService {
+  /**
+   * Write all of a user's data into an archive (layout documented in the README).
+   * Conversations are loaded one at a time to keep memory flat for large accounts.
+   */
+  async writeExport(userId: string, archive: Archiver): Promise<AccountExportManifest> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        oauthAccounts: { select: { provider: true, email: true, createdAt: true, lastLoginAt: true } },
+        accessTokens: {
+          where: { revokedAt: null },
+          select: { name: true, tokenPrefix: true, scopes: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+        },
+        sessions: {
+          where: { revokedAt: null },
+          select: { userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true },
+        },
+        memberships: {
+          select: { role: true, createdAt: true, team: { select: { id: true, name: true } } },
+        },
+        creditTransactions: {
+          orderBy: { createdAt: 'asc' },
+          select: { type: true, amount: true, balanceAfter: true, description: true, conversationId: true, createdAt: true },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    archive.append(toJson({
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      credits: user.credits,
+      planId: user.planId,
+      customInstructions: user.customInstructions,
+      emailVerifiedAt: user.emailVerifiedAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      linkedIdentities: user.oauthAccounts,
+      personalAccessTokens: user.accessTokens,
+      sessions: user.sessions,
+      teams: user.memberships,
+      creditTransactions: user.creditTransactions,
+    }), { name: 'account.json' });
+
+    const manifest: AccountExportManifest = {
+      format: 'zocket-account-export',
+      version: ACCOUNT_EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      conversations: 0,
+      messages: 0,
+      artifacts: 0,
+      missingArtifactSources: [],
+    };
+
+    const conversations = await prisma.conversation.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    for (const { id } of conversations) {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id },
+        include: {
+          messages: {
+            orderBy: { createdAt: 'asc' },
+            include: { artifacts: { orderBy: { createdAt: 'asc' } } },
+          },
+        },
+      });
+
+      if (!conversation) {
+        continue; // Deleted while the export was running
+      }
+
+      const messages = [];
+      for (const message of conversation.messages as ExportMessage[]) {
+        const artifacts = [];
+        for (const artifact of message.artifacts) {
+          const sourcePath = artifactSourcePath(artifact);
+          let sourceAvailable = true;
+
+          try {
+            const code = await s3Service.getCode(artifact.s3Key);
+            archive.append(code, { name: sourcePath });
+          } catch (error) {
+            sourceAvailable = false;
+            manifest.missingArtifactSources.push(artifact.id);
+            logger.warn('Artifact source missing from export', { userId, artifactId: artifact.id });
+          }
+
+          artifacts.push({
+            id: artifact.id,
+            title: artifact.title,
+            language: artifact.language,
+            type: artifact.type,
+            createdAt: artifact.createdAt,
+            source: sourceAvailable ? sourcePath : null,
+          });
+        }
+
+        messages.push({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          createdAt: message.createdAt,
+          artifacts,
+        });
+
+        manifest.messages++;
+        manifest.artifacts += artifacts.length;
+      }
+
+      archive.append(toJson({
+        id: conversation.id,
+        title: conversation.title,
+        customInstructions: conversation.customInstructions,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        messages,
+      }), { name: `conversations/${conversation.id}.json` });
+
+      manifest.conversations++;
+    }
+
+    archive.append(toJson(manifest), { name: 'manifest.json' });
+
+    logger.info('Account export written', {
+      userId,
+      conversations: manifest.conversations,
+      artifacts: manifest.artifacts,
+      missing: manifest.missingArtifactSources.length,
+    });
+
+    return manifest;
+  }
+
+  /**
+   * Delete a user and everything they own. Database rows go through the Prisma
+   * cascades; stored code and bundled HTML are removed here.
+   * Conversations the user started in a team are deleted with them.
+   */
+  async deleteAccount(userId: string): Promise<AccountDeletionResult> {
+    const [artifacts, conversations] = await Promise.all([
+      prisma.codeArtifact.findMany({
+        where: { message: { conversation: { userId } } },
+        select: { s3Key: true, bundledHtmlKey: true },
+      }),
+      prisma.conversation.count({ where: { userId } }),
+    ]);
+
+    const storageKeys = collectStorageKeys(artifacts);
+
+    // Teams must not be left without an owner
+    await teamService.releaseUserTeams(userId);
+
+    await prisma.user.delete({ where: { id: userId } });
+
+    const storage = await deleteUnreferencedObjects(storageKeys);
+    const result: AccountDeletionResult = {
+      conversations,
+      artifacts: artifacts.length,
+      storageObjectsDeleted: storage.deleted,
+      storageObjectsRetained: storage.retained,
+      storageObjectsFailed: storage.failed,
+    };
+
+    logger.info('Account deleted', { userId, ...result });
+    return result;
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,186 @@
+import { prisma } from '../utils/database';
+import { metrics } from '../middleware/metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyUsage {
+  date: string;         // UTC day, yyyy-mm-dd
+  messages: number;     // Prompts sent
+  responses: number;    // Assistant responses saved
+  creditsSpent: number; // Charged for responses and regenerations
+}
+
+export interface UsageAnalytics {
+  days: number;
+  daily: DailyUsage[];
+  totals: { messages: number; responses: number; creditsSpent: number };
+  averageLatencyMs: number | null; // Prompt saved to response saved; null without responses
+}
+
+export interface ArtifactAnalytics {
+  days: number;
+  total: number;
+  byLanguage: Array<{ language: string; count: number }>;
+  byType: Array<{ type: string; count: number }>;
+}
+
+export interface QualityAnalytics {
+  since: string; // When the server started collecting
+  builds: {
+    total: number;
+    succeeded: number;
+    successRate: number | null;
+    averageBuildTimeMs: number | null;
+  };
+  security: {
+    scans: number;
+    distribution: Array<{ min: number; max: number; count: number }>;
+  };
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Every UTC day of the window, oldest first, so days without activity still show up
+function emptyDays(days: number, now: Date): Map<string, DailyUsage> {
+  const series = new Map<string, DailyUsage>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDay(new Date(now.getTime() - offset * DAY_MS));
+    series.set(date, { date, messages: 0, responses: 0, creditsSpent: 0 });
+  }
+  return series;
+}
+
+function windowStart(days: number, now: Date): Date {
+  const start = new Date(now.getTime() - (days - 1) * DAY_MS);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Aggregates for the usage dashboard. Usage and artifacts cover the
+ * conversations a user started; build and security figures come from the
+ * in-process metrics collector and cover the whole server since it started.
+ */
+export class AnalyticsService {
+  /**
+   * Messages, responses and credits per day, and the average response latency
+   */
+  async usage(userId: string, days: number, now: Date = new Date()): Promise<UsageAnalytics> {
+    const since = windowStart(days, now);
+
+    const [messages, charges] = await Promise.all([
+      prisma.message.findMany({
+        where: { conversation: { userId }, createdAt: { gte: since } },
+        select: { conversationId: true, role: true, createdAt: true },
+        orderBy: [{ conversationId: 'asc' }, { createdAt: 'asc' }],
+      }),
+      prisma.creditTransaction.findMany({
+        where: { userId, type: { in: ['MESSAGE', 'REGENERATION'] }, createdAt: { gte: since } },
+        select: { amount: true, createdAt: true },
+      }),
+    ]);
+
+    const series = emptyDays(days, now);
+    let latencyTotal = 0;
+    let latencyCount = 0;
+    let previous: { conversationId: string; role: string; createdAt: Date } | null = null;
+
+    for (const message of messages as Array<{ conversationId: string; role: string; createdAt: Date }>) {
+      const day = series.get(toDay(message.createdAt));
+      if (message.role === 'USER' && day) day.messages++;
+      if (message.role === 'ASSISTANT' && day) day.responses++;
+
+      // A response answers the prompt saved just before it in the same conversation
+      if (
+        message.role === 'ASSISTANT'
+        && previous?.role === 'USER'
+        && previous.conversationId === message.conversationId
+      ) {
+        latencyTotal += message.createdAt.getTime() - previous.createdAt.getTime();
+        latencyCount++;
+      }
+      previous = message;
+    }
+
+    for (const charge of charges as Array<{ amount: number; createdAt: Date }>) {
+      const day = series.get(toDay(charge.createdAt));
+      if (day) day.creditsSpent -= charge.amount;
+    }
+
+    const daily = Array.from(series.values());
+    return {
+      days,
+      daily,
+      totals: {
+        messages: daily.reduce((sum, day) => sum + day.messages, 0),
+        responses: daily.reduce((sum, day) => sum + day.responses, 0),
+        creditsSpent: daily.reduce((sum, day) => sum + day.creditsSpent, 0),
+      },
+      averageLatencyMs: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null,
+    };
+  }
+
+  /**
+   * Artifacts created in the window, by language and by type, largest first
+   */
+  async artifacts(userId: string, days: number, now: Date = new Date()): Promise<ArtifactAnalytics> {
+    const where = {
+      message: { conversation: { userId } },
+      createdAt: { gte: windowStart(days, now) },
+    };
+
+    const [byLanguage, byType] = await Promise.all([
+      prisma.codeArtifact.groupBy({ by: ['language'], where, _count: { _all: true } }),
+      prisma.codeArtifact.groupBy({ by: ['type'], where, _count: { _all: true } }),
+    ]);
+
+    const languages = (byLanguage as Array<{ language: string; _count: { _all: number } }>)
+      .map(group => ({ language: group.language, count: group._count._all }))
+      .sort((a, b) => b.count - a.count);
+    const types = (byType as Array<{ type: string; _count: { _all: number } }>)
+      .map(group => ({ type: group.type, count: group._count._all }))
+      .sort((a, b) => b.count - a.count);
+
+    return {
+      days,
+      total: languages.reduce((sum, group) => sum + group.count, 0),
+      byLanguage: languages,
+      byType: types,
+    };
+  }
+
+  /**
+   * Build success rate and security score distribution since the server started
+   */
+  quality(): QualityAnalytics {
+    const current = metrics.getMetrics();
+    const succeeded = current.buildCount - current.buildFailureCount;
+
+    const distribution = [];
+    for (let min = 0; min <= 90; min += 10) {
+      distribution.push({
+        min,
+        max: min === 90 ? 100 : min + 9,
+        count: current.securityScoreDistribution.get(min) ?? 0,
+      });
+    }
+
+    return {
+      since: new Date(current.timestamp - current.uptime * 1000).toISOString(),
+      builds: {
+        total: current.buildCount,
+        succeeded,
+        successRate: current.buildCount > 0 ? current.buildSuccessRate : null,
+        averageBuildTimeMs: current.buildCount > 0 ? Math.round(current.averageBuildTime) : null,
+      },
+      security: {
+        scans: current.securityScanCount,
+        distribution,
+      },
+    };
+  }
+}
+
+export const analyticsService = new AnalyticsService();
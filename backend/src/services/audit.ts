@@ -0,0 +1,229 @@
+import type { Request } from 'express';
+import type { Prisma } from '@prisma/client';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const logger = createLogger();
+
+export const AUDIT_ACTIONS = [
+  'auth.register',
+  'auth.email_verified',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.logout_all',
+  'auth.password_changed',
+  'auth.password_reset_requested',
+  'auth.password_reset',
+  'auth.refresh_token_reused',
+  'two_factor.enabled',
+  'two_factor.disabled',
+  'two_factor.recovery_codes_regenerated',
+  'session.revoked',
+  'session.revoked_others',
+  'token.created',
+  'token.revoked',
+  'conversation.deleted',
+  'conversation.exported',
+  'artifact.downloaded',
+  'artifact.deleted',
+  'account.exported',
+  'account.deleted',
+  'team.deleted',
+  'team.member_role_changed',
+  'team.member_removed',
+  'team.invitation_accepted',
+  'admin.credits_adjusted',
+  'admin.credits_refunded',
+  'admin.user_updated',
+  'admin.team_plan_changed',
+  'admin.audit_exported',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditTargetType =
+  | 'user'
+  | 'session'
+  | 'token'
+  | 'conversation'
+  | 'artifact'
+  | 'team';
+
+const USER_AGENT_MAX_LENGTH = 512;
+// Upper bound on a single CSV export, so one request cannot dump the whole table
+export const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  // The signed-in user, or the claimed identity for anonymous attempts such as failed logins
+  actor?: { userId?: string | null; email?: string | null } | null;
+  targetType?: AuditTargetType;
+  targetId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  action?: string; // Exact action, or a prefix ending in "." such as "auth."
+  actorId?: string;
+  actorEmail?: string; // Substring match
+  targetType?: string;
+  targetId?: string;
+  ipAddress?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditEventRecord {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+interface AuditEventRow extends Omit<AuditEventRecord, 'metadata'> {
+  metadata: string | null;
+}
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'actorId',
+  'actorEmail',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'metadata',
+] as const;
+
+function parseMetadata(metadata: string | null): Record<string, unknown> | null {
+  if (!metadata) return null;
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+}
+
+function toRecord(row: AuditEventRow): AuditEventRecord {
+  return { ...row, metadata: parseMetadata(row.metadata) };
+}
+
+// Cells starting with these characters are evaluated as formulas by spreadsheet apps
+function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Persistent record of security-relevant actions, for investigating incidents.
+ * Events are append-only and outlive the accounts they mention.
+ */
+export class AuditService {
+  /**
+   * Record an event. Never throws: a failed audit write is logged rather than
+   * failing the request that triggered it.
+   */
+  async record(req: Request | null, event: AuditEventInput): Promise<void> {
+    // Actions taken with a personal access token name the token
+    const tokenId = (req as { auth?: { tokenId?: string } } | null)?.auth?.tokenId;
+    const metadata = tokenId ? { ...event.metadata, viaTokenId: tokenId } : event.metadata;
+
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          actorId: event.actor?.userId ?? null,
+          actorEmail: event.actor?.email ?? null,
+          action: event.action,
+          targetType: event.targetType ?? null,
+          targetId: event.targetId ?? null,
+          ipAddress: req?.ip ?? null,
+          userAgent: req?.get('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+          metadata: metadata ? JSON.stringify(metadata) : null,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record audit event', { action: event.action, error });
+    }
+  }
+
+  /**
+   * Events matching the filters, newest first
+   */
+  async query(
+    filters: AuditEventFilters,
+    page: { skip: number; take: number }
+  ): Promise<{ events: AuditEventRecord[]; totalCount: number }> {
+    const where = this.buildWhere(filters);
+
+    const [rows, totalCount] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: page.skip,
+        take: page.take,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events: rows.map(toRecord), totalCount };
+  }
+
+  /**
+   * Render matching events as CSV, newest first, up to AUDIT_EXPORT_MAX_ROWS.
+   * `truncated` is set when more events matched than were exported.
+   */
+  async exportCsv(filters: AuditEventFilters): Promise<{ csv: string; rowCount: number; truncated: boolean }> {
+    const rows: AuditEventRow[] = await prisma.auditEvent.findMany({
+      where: this.buildWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_MAX_ROWS + 1,
+    });
+
+    const truncated = rows.length > AUDIT_EXPORT_MAX_ROWS;
+    const exported = rows.slice(0, AUDIT_EXPORT_MAX_ROWS);
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of exported) {
+      lines.push(CSV_COLUMNS.map(column => {
+        const value = row[column];
+        if (value === null || value === undefined) return '';
+        return escapeCsvCell(value instanceof Date ? value.toISOString() : String(value));
+      }).join(','));
+    }
+
+    return { csv: lines.join('\r\n') + '\r\n', rowCount: exported.length, truncated };
+  }
+
+  private buildWhere(filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+    const where: Prisma.AuditEventWhereInput = {};
+
+    if (filters.action) {
+      where.action = filters.action.endsWith('.')
+        ? { startsWith: filters.action }
+        : filters.action;
+    }
+    if (filters.actorId) where.actorId = filters.actorId;
+    if (filters.actorEmail) where.actorEmail = { contains: filters.actorEmail };
+    if (filters.targetType) where.targetType = filters.targetType;
+    if (filters.targetId) where.targetId = filters.targetId;
+    if (filters.ipAddress) where.ipAddress = filters.ipAddress;
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      };
+    }
+
+    return where;
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,63 @@
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const logger = createLogger();
+
+// Mirrors the AuthTokenType enum in schema.prisma
+export type AuthTokenType = 'EMAIL_VERIFICATION' | 'PASSWORD_RESET';
+
+/**
+ * Single-use, expiring tokens delivered out-of-band (email links).
+ * The raw token is only ever returned to the caller; the database stores its hash.
+ */
+export class AuthTokenService {
+  /**
+   * Issue a new token, invalidating any outstanding tokens of the same type
+   */
+  async issue(userId: string, type: AuthTokenType, ttlMs: number): Promise<{ token: string; expiresAt: Date }> {
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    await prisma.$transaction([
+      prisma.authToken.deleteMany({
+        where: { userId, type, consumedAt: null },
+      }),
+      prisma.authToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    logger.debug('Auth token issued', { userId, type });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Consume a token. Returns the owning user id, or null if the token is
+   * unknown, expired, already used or of a different type.
+   */
+  async consume(token: string, type: AuthTokenType): Promise<string | null> {
+    const record = await prisma.authToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!record || record.type !== type || record.consumedAt || record.expiresAt < new Date()) {
+      return null;
+    }
+
+    // Guard against concurrent use: only one request can flip consumedAt
+    const { count } = await prisma.authToken.updateMany({
+      where: { id: record.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    return count === 1 ? record.userId : null;
+  }
+}
+
+export const authTokenService = new AuthTokenService();
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import { creditService, signupCreditsData, CreditError } from './credits';
+import { prisma } from '../utils/database';
+import { createUser as createAnyUser } from '../test/factories';
+
+// A new user with their signup grant in the ledger
+function createUser(credits = 10) {
+  return createAnyUser(signupCreditsData(credits));
+}
+
+async function createMessage(userId: string) {
+  const conversation = await prisma.conversation.create({ data: { userId, title: 'Test' } });
+  const message = await prisma.message.create({
+    data: { conversationId: conversation.id, role: 'ASSISTANT', content: 'Reply' },
+  });
+  return { conversationId: conversation.id, messageId: message.id };
+}
+
+async function balance(userId: string) {
+  const { credits } = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  return credits;
+}
+
+// The invariant the service maintains: balance = ledger sum - open holds
+async function expectLedgerMatchesBalance(userId: string) {
+  const transactions = await prisma.creditTransaction.findMany({ where: { userId } });
+  const holds = await prisma.creditReservation.findMany({ where: { userId, status: 'HELD' } });
+  const ledger = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+  const held = holds.reduce((sum, hold) => sum + hold.amount, 0);
+  expect(await balance(userId)).toBe(ledger - held);
+}
+
+async function expectCreditError(promise: Promise<unknown>, code: string) {
+  await expect(promise).rejects.toSatisfy(error => error instanceof CreditError && error.code === code);
+}
+
+describe('CreditService', () => {
+  describe('reserve', () => {
+    it('holds credits from the balance', async () => {
+      const user = await createUser(10);
+
+      const reservation = await creditService.reserve(user.id, 3);
+
+      expect(reservation.amount).toBe(3);
+      expect(await balance(user.id)).toBe(7);
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('rejects holds larger than the balance', async () => {
+      const user = await createUser(2);
+
+      await expectCreditError(creditService.reserve(user.id, 3), 'insufficient');
+      expect(await balance(user.id)).toBe(2);
+    });
+
+    it('rejects unknown users', async () => {
+      await expectCreditError(creditService.reserve('missing', 1), 'not_found');
+    });
+
+    it('releases expired holds first', async () => {
+      const user = await createUser(3);
+      const stale = await creditService.reserve(user.id, 3);
+      await prisma.creditReservation.update({ where: { id: stale.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+      await creditService.reserve(user.id, 2);
+
+      const { status } = await prisma.creditReservation.findUniqueOrThrow({ where: { id: stale.id } });
+      expect(status).toBe('RELEASED');
+      expect(await balance(user.id)).toBe(1);
+      await expectLedgerMatchesBalance(user.id);
+    });
+  });
+
+  describe('commit', () => {
+    it('charges the held credits for the message', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 2);
+
+      const result = await creditService.commit(reservation.id, { ...message, credits: 2 });
+
+      expect(result).toMatchObject({ balance: 8, charged: 2 });
+      const transaction = await prisma.creditTransaction.findUniqueOrThrow({ where: { id: result.transactionId } });
+      expect(transaction).toMatchObject({ type: 'MESSAGE', amount: -2, balanceAfter: 8, messageId: message.messageId });
+      const { creditsCharged } = await prisma.message.findUniqueOrThrow({ where: { id: message.messageId } });
+      expect(creditsCharged).toBe(2);
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('takes a higher cost from the balance, never below zero', async () => {
+      const user = await createUser(4);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 1);
+
+      const result = await creditService.commit(reservation.id, { ...message, credits: 10 });
+
+      expect(result).toMatchObject({ balance: 0, charged: 4 });
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('returns held credits the response did not use', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 5);
+
+      const result = await creditService.commit(reservation.id, { ...message, credits: 2 });
+
+      expect(result).toMatchObject({ balance: 8, charged: 2 });
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('records regenerations as such', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 1);
+
+      const { transactionId } = await creditService.commit(reservation.id, { ...message, credits: 1, regeneration: true });
+
+      const transaction = await prisma.creditTransaction.findUniqueOrThrow({ where: { id: transactionId } });
+      expect(transaction.type).toBe('REGENERATION');
+    });
+
+    it('commits a reservation only once', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 1);
+      await creditService.commit(reservation.id, { ...message, credits: 1 });
+
+      await expectCreditError(creditService.commit(reservation.id, { ...message, credits: 1 }), 'conflict');
+      expect(await balance(user.id)).toBe(9);
+    });
+  });
+
+  describe('release', () => {
+    it('gives held credits back', async () => {
+      const user = await createUser(10);
+      const reservation = await creditService.reserve(user.id, 3);
+
+      expect(await creditService.release(reservation.id)).toBe(true);
+
+      expect(await balance(user.id)).toBe(10);
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('does nothing once the reservation is settled', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 3);
+      await creditService.commit(reservation.id, { ...message, credits: 3 });
+
+      expect(await creditService.release(reservation.id)).toBe(false);
+      expect(await creditService.release('missing')).toBe(false);
+
+      expect(await balance(user.id)).toBe(7);
+      await expectLedgerMatchesBalance(user.id);
+    });
+  });
+
+  describe('apply', () => {
+    it('records the change with the resulting balance', async () => {
+      const user = await createUser(10);
+
+      const result = await creditService.apply(user.id, { type: 'ADJUSTMENT', amount: 5, actorId: 'admin' });
+
+      expect(result.balance).toBe(15);
+      const transaction = await prisma.creditTransaction.findUniqueOrThrow({ where: { id: result.transactionId } });
+      expect(transaction).toMatchObject({ type: 'ADJUSTMENT', amount: 5, balanceAfter: 15, actorId: 'admin' });
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('rejects amounts that are zero or fractional', async () => {
+      const user = await createUser(10);
+
+      await expectCreditError(creditService.apply(user.id, { type: 'ADJUSTMENT', amount: 0 }), 'invalid');
+      await expectCreditError(creditService.apply(user.id, { type: 'ADJUSTMENT', amount: 1.5 }), 'invalid');
+    });
+
+    it('refuses to overdraw when asked to', async () => {
+      const user = await createUser(3);
+
+      await expectCreditError(
+        creditService.apply(user.id, { type: 'ADJUSTMENT', amount: -4, requireSufficientBalance: true }),
+        'insufficient'
+      );
+      expect(await balance(user.id)).toBe(3);
+    });
+  });
+
+  describe('refund', () => {
+    it('reverses a message charge and marks it refunded', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 2);
+      const { transactionId } = await creditService.commit(reservation.id, { ...message, credits: 2 });
+
+      const result = await creditService.refund(user.id, transactionId, { reason: 'Broken answer' });
+
+      expect(result.balance).toBe(10);
+      const { transactions } = await creditService.history(user.id, { skip: 0, take: 10 });
+      expect(transactions.find(transaction => transaction.id === transactionId)?.refunded).toBe(true);
+      expect(transactions.find(transaction => transaction.id === result.transactionId)).toMatchObject({
+        type: 'REFUND',
+        amount: 2,
+        description: 'Broken answer',
+      });
+      await expectLedgerMatchesBalance(user.id);
+    });
+
+    it('refunds only message charges', async () => {
+      const user = await createUser(10);
+      const grant = await prisma.creditTransaction.findFirstOrThrow({ where: { userId: user.id } });
+
+      await expectCreditError(creditService.refund(user.id, grant.id), 'invalid');
+    });
+
+    it("does not refund another user's charges", async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 1);
+      const { transactionId } = await creditService.commit(reservation.id, { ...message, credits: 1 });
+
+      await expectCreditError(creditService.refund('someone-else', transactionId), 'not_found');
+    });
+  });
+
+  describe('summary', () => {
+    it('totals the last 30 days per type', async () => {
+      const user = await createUser(10);
+      const message = await createMessage(user.id);
+      const reservation = await creditService.reserve(user.id, 3);
+      await creditService.commit(reservation.id, { ...message, credits: 3 });
+
+      const summary = await creditService.summary(user.id);
+
+      expect(summary).toMatchObject({ balance: 7, last30Days: { spent: 3, added: 10 } });
+      expect(summary?.last30Days.byType).toMatchObject({ GRANT: 10, MESSAGE: -3, REFUND: 0 });
+    });
+  });
+
+  describe('reconcile', () => {
+    it('records an opening balance for balances without a ledger', async () => {
+      const user = await createAnyUser({ username: 'old', credits: 7 });
+      await createUser(10);
+
+      expect(await creditService.reconcile()).toBe(1);
+
+      const transactions = await prisma.creditTransaction.findMany({ where: { userId: user.id } });
+      expect(transactions).toMatchObject([{ type: 'ADJUSTMENT', amount: 7, balanceAfter: 7 }]);
+      expect(await creditService.reconcile()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import { Prisma } from '@prisma/client';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+
+const logger = createLogger();
+
+// Mirrors the CreditTransactionType enum in schema.prisma
+export type CreditTransactionType = 'GRANT' | 'MESSAGE' | 'REGENERATION' | 'REFUND' | 'ADJUSTMENT';
+
+export const CREDIT_TRANSACTION_TYPES: CreditTransactionType[] = ['GRANT', 'MESSAGE', 'REGENERATION', 'REFUND', 'ADJUSTMENT'];
+
+// Charges that can be refunded
+const REFUNDABLE_TYPES: CreditTransactionType[] = ['MESSAGE', 'REGENERATION'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longer than any generation, including builds, so only abandoned holds expire
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+export type CreditErrorCode = 'not_found' | 'insufficient' | 'conflict' | 'invalid';
+
+export class CreditError extends Error {
+  constructor(public readonly code: CreditErrorCode, message: string) {
+    super(message);
+    this.name = 'CreditError';
+  }
+}
+
+export interface CreditChange {
+  type: CreditTransactionType;
+  amount: number; // Signed
+  description?: string | null;
+  conversationId?: string | null;
+  messageId?: string | null;
+  refundOfId?: string | null;
+  actorId?: string | null;
+  // Reject a negative amount that would take the balance below zero
+  requireSufficientBalance?: boolean;
+}
+
+export interface CreditReservation {
+  id: string;
+  amount: number;
+}
+
+export interface CreditTransactionSummary {
+  id: string;
+  type: CreditTransactionType;
+  amount: number;
+  balanceAfter: number;
+  description: string | null;
+  conversationId: string | null;
+  conversationTitle: string | null;
+  messageId: string | null;
+  refunded: boolean;
+  createdAt: Date;
+}
+
+export interface CreditUsageSummary {
+  balance: number;
+  last30Days: {
+    spent: number;
+    added: number;
+    byType: Record<CreditTransactionType, number>; // Net amount per type
+  };
+}
+
+/**
+ * Nested create for a new user: the sign-up grant is both the starting balance
+ * and the first ledger entry, so the two can never disagree.
+ */
+export function signupCreditsData(amount: number = config.SIGNUP_CREDITS) {
+  return {
+    credits: amount,
+    creditTransactions: {
+      create: {
+        type: 'GRANT' as const,
+        amount,
+        balanceAfter: amount,
+        description: 'Sign-up credits',
+      },
+    },
+  };
+}
+
+/**
+ * Credit balances and their ledger. users.credits is the spendable balance: it
+ * only changes together with a CreditTransaction row or a CreditReservation, in
+ * one database transaction, so it always equals the ledger sum minus open holds.
+ */
+export class CreditService {
+  /**
+   * Apply a signed change to a user's balance and record it in the ledger
+   */
+  async apply(userId: string, change: CreditChange): Promise<{ transactionId: string; balance: number }> {
+    if (!Number.isInteger(change.amount) || change.amount === 0) {
+      throw new CreditError('invalid', 'Amount must be a non-zero whole number');
+    }
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.user.updateMany({
+        where: {
+          id: userId,
+          ...(change.requireSufficientBalance && change.amount < 0 && { credits: { gte: -change.amount } }),
+        },
+        data: { credits: { increment: change.amount } },
+      });
+
+      if (count === 0) {
+        const exists = await tx.user.findUnique({ where: { id: userId }, select: { id: true } });
+        throw exists
+          ? new CreditError('insufficient', 'Adjustment would make the balance negative')
+          : new CreditError('not_found', 'User does not exist');
+      }
+
+      const { credits } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { credits: true } });
+
+      const transaction = await tx.creditTransaction.create({
+        data: {
+          userId,
+          type: change.type,
+          amount: change.amount,
+          balanceAfter: credits,
+          description: change.description ?? null,
+          conversationId: change.conversationId ?? null,
+          messageId: change.messageId ?? null,
+          refundOfId: change.refundOfId ?? null,
+          actorId: change.actorId ?? null,
+        },
+      });
+
+      return { transactionId: transaction.id, balance: credits };
+    });
+  }
+
+  /**
+   * Hold credits for a generation before it starts. The conditional decrement
+   * means concurrent requests can never spend more than the balance.
+   */
+  async reserve(userId: string, amount: number = 1): Promise<CreditReservation> {
+    await this.releaseExpired(userId);
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, credits: { gte: amount } },
+        data: { credits: { decrement: amount } },
+      });
+
+      if (count === 0) {
+        const exists = await tx.user.findUnique({ where: { id: userId }, select: { id: true } });
+        throw exists
+          ? new CreditError('insufficient', 'Not enough credits')
+          : new CreditError('not_found', 'User does not exist');
+      }
+
+      return tx.creditReservation.create({
+        data: { userId, amount, expiresAt: new Date(Date.now() + RESERVATION_TTL_MS) },
+        select: { id: true, amount: true },
+      });
+    });
+  }
+
+  /**
+   * Turn a hold into the charge for the response it paid for. The actual cost
+   * can differ from the hold: extra credits are taken from the balance as far as
+   * it goes (it never goes negative), and unused held credits are returned.
+   */
+  async commit(
+    reservationId: string,
+    message: { conversationId: string; messageId: string; credits: number; regeneration?: boolean }
+  ): Promise<{ transactionId: string; balance: number; charged: number }> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const reservation = await tx.creditReservation.findUnique({ where: { id: reservationId } });
+      if (!reservation) {
+        throw new CreditError('not_found', 'Reservation not found');
+      }
+
+      const { count } = await tx.creditReservation.updateMany({
+        where: { id: reservationId, status: 'HELD' },
+        data: { status: 'COMMITTED', settledAt: new Date() },
+      });
+
+      if (count === 0 && reservation.status === 'COMMITTED') {
+        throw new CreditError('conflict', 'Reservation has already been committed');
+      }
+
+      // An expired hold already went back to the balance, so nothing is held any more
+      const held = count === 1 ? reservation.amount : 0;
+      const user = await tx.user.findUniqueOrThrow({ where: { id: reservation.userId }, select: { credits: true } });
+      const extra = Math.min(message.credits - held, user.credits);
+      const charged = held + extra;
+
+      const { credits } = await tx.user.update({
+        where: { id: reservation.userId },
+        data: { credits: { decrement: extra } },
+        select: { credits: true },
+      });
+
+      const transaction = await tx.creditTransaction.create({
+        data: {
+          userId: reservation.userId,
+          type: message.regeneration ? 'REGENERATION' : 'MESSAGE',
+          amount: -charged,
+          balanceAfter: credits,
+          description: message.regeneration ? 'Regenerated response' : 'Chat response',
+          conversationId: message.conversationId,
+          messageId: message.messageId,
+        },
+      });
+
+      await tx.creditReservation.update({
+        where: { id: reservationId },
+        data: { transactionId: transaction.id },
+      });
+
+      await tx.message.update({
+        where: { id: message.messageId },
+        data: { creditsCharged: charged },
+      });
+
+      return { transactionId: transaction.id, balance: credits, charged };
+    });
+  }
+
+  /**
+   * Give held credits back. Does nothing once the reservation is settled, so it
+   * is safe to call unconditionally when a request ends. Never throws.
+   */
+  async release(reservationId: string): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.creditReservation.updateMany({
+          where: { id: reservationId, status: 'HELD' },
+          data: { status: 'RELEASED', settledAt: new Date() },
+        });
+        if (count === 0) return false;
+
+        const reservation = await tx.creditReservation.findUniqueOrThrow({ where: { id: reservationId } });
+        await tx.user.update({
+          where: { id: reservation.userId },
+          data: { credits: { increment: reservation.amount } },
+        });
+        return true;
+      });
+    } catch (error) {
+      logger.error('Failed to release credit reservation', { reservationId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Release holds left open past their expiry, for one user or everyone
+   */
+  async releaseExpired(userId?: string): Promise<number> {
+    const expired = await prisma.creditReservation.findMany({
+      where: { status: 'HELD', expiresAt: { lt: new Date() }, ...(userId && { userId }) },
+      select: { id: true },
+    });
+
+    let released = 0;
+    for (const reservation of expired) {
+      if (await this.release(reservation.id)) released++;
+    }
+
+    if (released > 0) {
+      logger.warn('Released expired credit reservations', { released, userId });
+    }
+
+    return released;
+  }
+
+  /**
+   * Reverse a message or regeneration charge. Each charge can be refunded once.
+   */
+  async refund(
+    userId: string,
+    transactionId: string,
+    options: { actorId?: string; reason?: string } = {}
+  ): Promise<{ transactionId: string; balance: number }> {
+    const original = await prisma.creditTransaction.findFirst({
+      where: { id: transactionId, userId },
+      select: { id: true, type: true, amount: true, conversationId: true, messageId: true },
+    });
+
+    if (!original) {
+      throw new CreditError('not_found', 'Transaction not found');
+    }
+
+    if (!REFUNDABLE_TYPES.includes(original.type)) {
+      throw new CreditError('invalid', 'Only message charges can be refunded');
+    }
+
+    try {
+      return await this.apply(userId, {
+        type: 'REFUND',
+        amount: -original.amount,
+        description: options.reason || 'Refund',
+        conversationId: original.conversationId,
+        messageId: original.messageId,
+        refundOfId: original.id,
+        actorId: options.actorId,
+      });
+    } catch (error) {
+      // refundOfId is unique
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new CreditError('conflict', 'This charge has already been refunded');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * A page of the user's ledger, newest first
+   */
+  async history(
+    userId: string,
+    options: { skip: number; take: number; type?: CreditTransactionType }
+  ): Promise<{ transactions: CreditTransactionSummary[]; totalCount: number }> {
+    const where = { userId, ...(options.type && { type: options.type }) };
+
+    const [records, totalCount] = await Promise.all([
+      prisma.creditTransaction.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: options.skip,
+        take: options.take,
+        include: { conversation: { select: { title: true } } },
+      }),
+      prisma.creditTransaction.count({ where }),
+    ]);
+
+    const refunded = await prisma.creditTransaction.findMany({
+      where: { refundOfId: { in: records.map(record => record.id) } },
+      select: { refundOfId: true },
+    });
+    const refundedIds = new Set(
+      refunded.map(record => record.refundOfId).filter((id): id is string => id !== null)
+    );
+
+    return {
+      transactions: records.map(record => ({
+        id: record.id,
+        type: record.type,
+        amount: record.amount,
+        balanceAfter: record.balanceAfter,
+        description: record.description,
+        conversationId: record.conversationId,
+        conversationTitle: record.conversation?.title ?? null,
+        messageId: record.messageId,
+        refunded: refundedIds.has(record.id),
+        createdAt: record.createdAt,
+      })),
+      totalCount,
+    };
+  }
+
+  /**
+   * Current balance and what moved it over the last 30 days
+   */
+  async summary(userId: string): Promise<CreditUsageSummary | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { credits: true } });
+    if (!user) {
+      return null;
+    }
+
+    const totals = await prisma.creditTransaction.groupBy({
+      by: ['type'],
+      where: { userId, createdAt: { gte: new Date(Date.now() - 30 * DAY_MS) } },
+      _sum: { amount: true },
+    });
+
+    const byType = Object.fromEntries(CREDIT_TRANSACTION_TYPES.map(type => [type, 0])) as Record<CreditTransactionType, number>;
+    for (const total of totals) {
+      byType[total.type] = total._sum.amount ?? 0;
+    }
+
+    const values = Object.values(byType);
+    return {
+      balance: user.credits,
+      last30Days: {
+        spent: -values.filter(amount => amount < 0).reduce((sum, amount) => sum + amount, 0),
+        added: values.filter(amount => amount > 0).reduce((sum, amount) => sum + amount, 0),
+        byType,
+      },
+    };
+  }
+
+  /**
+   * Record an opening balance for users whose balance predates the ledger, or
+   * drifted from it. Returns the number of users corrected.
+   */
+  async reconcile(): Promise<number> {
+    await this.releaseExpired();
+
+    const [users, sums, holds] = await Promise.all([
+      prisma.user.findMany({ select: { id: true, credits: true } }),
+      prisma.creditTransaction.groupBy({ by: ['userId'], _sum: { amount: true } }),
+      prisma.creditReservation.groupBy({ by: ['userId'], where: { status: 'HELD' }, _sum: { amount: true } }),
+    ]);
+
+    const toMap = (rows: Array<{ userId: string; _sum: { amount: number | null } }>) =>
+      new Map<string, number>(rows.map(row => [row.userId, row._sum.amount ?? 0]));
+    const ledgerBalances = toMap(sums);
+    const heldCredits = toMap(holds);
+
+    let corrected = 0;
+    for (const user of users) {
+      const difference = user.credits + (heldCredits.get(user.id) ?? 0) - (ledgerBalances.get(user.id) ?? 0);
+      if (difference === 0) continue;
+
+      // Written directly: the cached balance is already right, only the ledger is missing rows
+      await prisma.creditTransaction.create({
+        data: {
+          userId: user.id,
+          type: 'ADJUSTMENT',
+          amount: difference,
+          balanceAfter: user.credits,
+          description: 'Opening balance',
+        },
+      });
+      corrected++;
+    }
+
+    if (corrected > 0) {
+      logger.info('Credit ledger reconciled', { corrected });
+    }
+
+    return corrected;
+  }
+}
+
+export const creditService = new CreditService();
@@ -0,0 +1,46 @@
+import { prisma } from '../utils/database';
+import type { CustomInstructions } from './prompt-manager';
+
+export type { CustomInstructions } from './prompt-manager';
+
+// Per level; long instructions crowd out the conversation in the prompt
+export const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+/**
+ * Custom instructions live on the user, the team and the conversation. All
+ * three apply to a response, in that order of increasing precedence.
+ */
+export class InstructionsService {
+  /**
+   * Instructions for a response in `conversation` requested by `userId`.
+   * The workspace level comes from the conversation's team, not the active one.
+   */
+  async forConversation(
+    userId: string,
+    conversation: { teamId: string | null; customInstructions: string | null }
+  ): Promise<CustomInstructions> {
+    const [user, team] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { customInstructions: true } }),
+      conversation.teamId
+        ? prisma.team.findUnique({ where: { id: conversation.teamId }, select: { customInstructions: true } })
+        : null,
+    ]);
+
+    return {
+      user: user?.customInstructions ?? null,
+      workspace: team?.customInstructions ?? null,
+      conversation: conversation.customInstructions,
+    };
+  }
+
+  async getForUser(userId: string): Promise<string | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { customInstructions: true } });
+    return user?.customInstructions ?? null;
+  }
+
+  async setForUser(userId: string, instructions: string | null): Promise<void> {
+    await prisma.user.update({ where: { id: userId }, data: { customInstructions: instructions } });
+  }
+}
+
+export const instructionsService = new InstructionsService();
@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LlmResilience, CircuitBreaker, LlmError, classifyLlmError, ResilienceConfig } from './llm-resilience';
+import type { LlmProvider, LlmMessage, GenerationOptions, StreamChunk, ModelResponse } from './llm';
+
+type Outcome = 'ok' | Error;
+
+/**
+ * Answers or fails per model according to a script. Each call takes the next
+ * outcome for its model; the last one repeats.
+ */
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly modelName = 'primary';
+  readonly calls: string[] = [];
+
+  constructor(private readonly script: Record<string, Outcome[]>, private readonly failAfterFirstChunk = false) {}
+
+  async *stream(_messages: LlmMessage[], options: GenerationOptions = {}): AsyncGenerator<StreamChunk, void, unknown> {
+    const outcome = this.next(options.model!);
+    if (this.failAfterFirstChunk) {
+      yield { text: 'Partial', isComplete: false };
+    }
+    if (outcome !== 'ok') throw outcome;
+    yield { text: `Hello from ${options.model}`, isComplete: false };
+    yield { text: '', isComplete: true, usage: null };
+  }
+
+  async complete(_messages: LlmMessage[], options: GenerationOptions = {}): Promise<ModelResponse> {
+    const outcome = this.next(options.model!);
+    if (outcome !== 'ok') throw outcome;
+    return { text: `Hello from ${options.model}`, usage: null };
+  }
+
+  async countTokens(): Promise<number> {
+    return 0;
+  }
+
+  private next(model: string): Outcome {
+    this.calls.push(model);
+    const outcomes = this.script[model] ?? ['ok'];
+    return outcomes.length > 1 ? outcomes.shift()! : outcomes[0];
+  }
+}
+
+const messages: LlmMessage[] = [{ role: 'USER', content: 'Hi' }];
+
+function resilience(overrides: Partial<ResilienceConfig> = {}) {
+  return new LlmResilience({
+    maxRetries: 2,
+    retryBaseDelayMs: 1,
+    fallbackModels: [],
+    circuitThreshold: 100,
+    circuitCooldownMs: 1000,
+    ...overrides,
+  });
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+async function collect(stream: AsyncGenerator<StreamChunk, void, unknown>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('classifyLlmError', () => {
+  it.each([
+    [httpError(429), 'rate_limit'],
+    [httpError(503), 'overloaded'],
+    [httpError(400), 'bad_request'],
+    [httpError(401), 'unknown'],
+    [new Error('Candidate was blocked due to SAFETY'), 'safety'],
+    [new Error('fetch failed'), 'unavailable'],
+    [Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }), 'unavailable'],
+    [new Error('Something else'), 'unknown'],
+  ])('classifies %s as %s', (error, reason) => {
+    expect(classifyLlmError(error).reason).toBe(reason);
+  });
+
+  it('keeps errors that are already classified', () => {
+    const error = new LlmError('safety');
+    expect(classifyLlmError(error)).toBe(error);
+  });
+});
+
+describe('LlmResilience', () => {
+  it('retries transient failures on the same model', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503), httpError(429), 'ok'] });
+
+    const response = await resilience().complete(provider, messages);
+
+    expect(response).toMatchObject({ text: 'Hello from primary', model: 'primary' });
+    expect(provider.calls).toEqual(['primary', 'primary', 'primary']);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(400)] });
+
+    await expect(resilience({ fallbackModels: ['fallback'] }).complete(provider, messages))
+      .rejects.toMatchObject({ reason: 'bad_request' });
+    expect(provider.calls).toEqual(['primary']);
+  });
+
+  it('falls back to the next model once retries run out', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)] });
+
+    const response = await resilience({ maxRetries: 1, fallbackModels: ['fallback'] }).complete(provider, messages);
+
+    expect(response).toMatchObject({ text: 'Hello from fallback', model: 'fallback' });
+    expect(provider.calls).toEqual(['primary', 'primary', 'fallback']);
+  });
+
+  it('throws the last failure when every model gives up', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)], fallback: [httpError(429)] });
+
+    await expect(resilience({ maxRetries: 0, fallbackModels: ['fallback'] }).complete(provider, messages))
+      .rejects.toMatchObject({ reason: 'rate_limit' });
+  });
+
+  it('names the answering model on the final chunk of a stream', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)] });
+
+    const chunks = await collect(resilience({ maxRetries: 0, fallbackModels: ['fallback'] }).stream(provider, messages));
+
+    expect(chunks.map(chunk => chunk.text).join('')).toBe('Hello from fallback');
+    expect(chunks[chunks.length - 1]).toMatchObject({ isComplete: true, model: 'fallback' });
+  });
+
+  it('does not retry a stream that already sent tokens', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)] }, true);
+
+    await expect(collect(resilience({ fallbackModels: ['fallback'] }).stream(provider, messages)))
+      .rejects.toMatchObject({ reason: 'overloaded' });
+    expect(provider.calls).toEqual(['primary']);
+  });
+
+  it('skips a model whose circuit is open', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)] });
+    const service = resilience({ maxRetries: 1, circuitThreshold: 2, fallbackModels: ['fallback'] });
+
+    await service.complete(provider, messages);
+    provider.calls.length = 0;
+    const response = await service.complete(provider, messages);
+
+    expect(response.model).toBe('fallback');
+    expect(provider.calls).toEqual(['fallback']);
+  });
+
+  it('stops waiting to retry when the generation is cancelled', async () => {
+    const provider = new ScriptedProvider({ primary: [httpError(503)] });
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const response = resilience({ retryBaseDelayMs: 60_000 }).complete(provider, messages, { signal: controller.signal });
+    setTimeout(() => controller.abort('client_disconnected'), 10);
+
+    await expect(response).rejects.toBe('client_disconnected');
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(provider.calls).toEqual(['primary']);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures and lets one trial through after the cooldown', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.recordFailure('model');
+    expect(breaker.isOpen('model')).toBe(false);
+    breaker.recordFailure('model');
+    expect(breaker.isOpen('model')).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.isOpen('model')).toBe(false); // The trial request
+    expect(breaker.isOpen('model')).toBe(true);  // Everyone else waits for it
+
+    breaker.recordSuccess('model');
+    expect(breaker.isOpen('model')).toBe(false);
+  });
+
+  it('counts failures per model', () => {
+    const breaker = new CircuitBreaker(1, 1000);
+
+    breaker.recordFailure('a');
+
+    expect(breaker.isOpen('a')).toBe(true);
+    expect(breaker.isOpen('b')).toBe(false);
+  });
+});
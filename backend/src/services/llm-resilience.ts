@@ -0,0 +1,229 @@
+import { createLogger } from '../utils/logger';
+import type { LlmProvider, LlmMessage, GenerationOptions, StreamChunk, ModelResponse } from './llm';
+
+const logger = createLogger();
+
+export type LlmErrorReason = 'rate_limit' | 'overloaded' | 'unavailable' | 'safety' | 'bad_request' | 'unknown';
+
+// Shown to users; the provider's own message is only logged
+const REASON_MESSAGES: Record<LlmErrorReason, string> = {
+  rate_limit: 'The model is receiving too many requests. Please try again in a moment.',
+  overloaded: 'The model is overloaded right now. Please try again shortly.',
+  unavailable: 'The model is temporarily unavailable. Please try again later.',
+  safety: 'The response was blocked by the model\'s safety filters. Try rephrasing your message.',
+  bad_request: 'The model could not process this request.',
+  unknown: 'Failed to get AI response',
+};
+
+export class LlmError extends Error {
+  constructor(public readonly reason: LlmErrorReason, message: string = REASON_MESSAGES[reason]) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  // Worth another attempt, on the same model or a fallback
+  get transient(): boolean {
+    return this.reason === 'rate_limit' || this.reason === 'overloaded' || this.reason === 'unavailable';
+  }
+}
+
+function llmErrorFromStatus(status: number): LlmError {
+  if (status === 429) return new LlmError('rate_limit');
+  if (status >= 500) return new LlmError('overloaded');
+  if ([400, 404, 413, 422].includes(status)) return new LlmError('bad_request');
+  return new LlmError('unknown');
+}
+
+// Gemini reports blocked prompts and candidates with "... was blocked due to SAFETY" and similar
+const BLOCKED_PATTERN = /\bwas blocked\b/i;
+// Failures to reach the model at all
+const NETWORK_PATTERN = /fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/i;
+
+/**
+ * Map a provider failure to a reason. Errors with an HTTP `status` (the
+ * Gemini SDK's fetch errors) are classified by it.
+ */
+export function classifyLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) return error;
+
+  const { status, message = '', code } = (error ?? {}) as { status?: unknown; message?: string; code?: string };
+  if (typeof status === 'number') return llmErrorFromStatus(status);
+  if (BLOCKED_PATTERN.test(message)) return new LlmError('safety');
+  if (NETWORK_PATTERN.test(message) || (code && NETWORK_PATTERN.test(code))) return new LlmError('unavailable');
+  return new LlmError('unknown');
+}
+
+export interface ResilienceConfig {
+  maxRetries: number;       // Per model, for transient failures
+  retryBaseDelayMs: number; // Doubled on every retry, with jitter
+  fallbackModels: string[]; // Tried in order once the requested model gives up
+  circuitThreshold: number; // Consecutive transient failures that open a model's circuit
+  circuitCooldownMs: number;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Stops calling a model that keeps failing. After the cooldown one request is
+ * let through; its success closes the circuit, its failure opens it again.
+ */
+export class CircuitBreaker {
+  private readonly circuits = new Map<string, CircuitState>();
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  isOpen(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.failures < this.threshold) return false;
+
+    if (Date.now() >= circuit.openUntil) {
+      // Hold everyone else back while the trial request runs
+      circuit.openUntil = Date.now() + this.cooldownMs;
+      return false;
+    }
+    return true;
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) ?? { failures: 0, openUntil: 0 };
+    circuit.failures++;
+    if (circuit.failures >= this.threshold) {
+      circuit.openUntil = Date.now() + this.cooldownMs;
+      logger.warn('Model circuit opened', { key, failures: circuit.failures, cooldownMs: this.cooldownMs });
+    }
+    this.circuits.set(key, circuit);
+  }
+}
+
+/**
+ * Calls a provider with retries, circuit breaking and fallback models.
+ * Transient failures are retried with jittered exponential backoff, then the
+ * next fallback model is tried. Streams are only retried before their first
+ * token; after that the client already has part of the answer.
+ */
+export class LlmResilience {
+  private readonly breaker: CircuitBreaker;
+
+  constructor(private readonly options: ResilienceConfig) {
+    this.breaker = new CircuitBreaker(options.circuitThreshold, options.circuitCooldownMs);
+  }
+
+  /**
+   * Stream from the first model that answers. The final chunk names it in `model`.
+   */
+  async *stream(provider: LlmProvider, messages: LlmMessage[], options: GenerationOptions = {}): AsyncGenerator<StreamChunk, void, unknown> {
+    let lastError = new LlmError('unavailable');
+
+    for (const model of this.candidateModels(provider, options.model)) {
+      const key = `${provider.name}:${model}`;
+      if (this.breaker.isOpen(key)) {
+        logger.warn('Skipping model with open circuit', { provider: provider.name, model });
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          for await (const chunk of provider.stream(messages, { ...options, model })) {
+            started = true;
+            yield chunk.isComplete ? { ...chunk, model } : chunk;
+          }
+          this.breaker.recordSuccess(key);
+          return;
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+
+          lastError = this.recordFailure(key, model, attempt, error);
+          if (started || !lastError.transient) throw lastError;
+          if (attempt >= this.options.maxRetries) break;
+          await this.backoff(attempt, options.signal);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Get a complete response from the first model that answers
+   */
+  async complete(provider: LlmProvider, messages: LlmMessage[], options: GenerationOptions = {}): Promise<ModelResponse> {
+    let lastError = new LlmError('unavailable');
+
+    for (const model of this.candidateModels(provider, options.model)) {
+      const key = `${provider.name}:${model}`;
+      if (this.breaker.isOpen(key)) {
+        logger.warn('Skipping model with open circuit', { provider: provider.name, model });
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await provider.complete(messages, { ...options, model });
+          this.breaker.recordSuccess(key);
+          return { ...response, model };
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+
+          lastError = this.recordFailure(key, model, attempt, error);
+          if (!lastError.transient) throw lastError;
+          if (attempt >= this.options.maxRetries) break;
+          await this.backoff(attempt, options.signal);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private candidateModels(provider: LlmProvider, model?: string): string[] {
+    return [...new Set([model ?? provider.modelName, ...this.options.fallbackModels])];
+  }
+
+  private recordFailure(key: string, model: string, attempt: number, error: unknown): LlmError {
+    const llmError = classifyLlmError(error);
+    logger.warn('Model call failed', {
+      key,
+      model,
+      attempt,
+      reason: llmError.reason,
+      error: error instanceof Error ? error.message : error,
+    });
+
+    // Safety blocks and bad requests say nothing about the model's health
+    if (llmError.transient) {
+      this.breaker.recordFailure(key);
+    }
+    return llmError;
+  }
+
+  // Between half and all of the exponential delay, so parallel retries spread out.
+  // A cancelled generation stops waiting straight away.
+  private backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+    const delay = this.options.retryBaseDelayMs * 2 ** attempt;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay / 2 + Math.random() * delay / 2);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
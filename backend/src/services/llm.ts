@@ -0,0 +1,261 @@
+import { createLogger } from '../utils/logger';
+import { config, getGeminiConfig, getOpenAIConfig, getReplayConfig, getResilienceConfig } from '../config';
+import { promptManager, CustomInstructions } from './prompt-manager';
+import { codeIntentDetector } from './code-intent-detector';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider, ReplayProvider, RecordingProvider } from './replay-provider';
+import { LlmResilience, classifyLlmError } from './llm-resilience';
+
+const logger = createLogger();
+
+export interface LlmMessage {
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+}
+
+// Per-request overrides of the provider's configured settings
+export interface GenerationOptions {
+  model?: string;           // Defaults to the provider's model
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number; // Lowers the provider's configured limit, never raises it
+  signal?: AbortSignal;     // Stops the request, e.g. when the client cancels
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface StreamChunk {
+  text: string;
+  isComplete: boolean;
+  usage?: TokenUsage | null; // Set on the final chunk; null when the model did not report usage
+  model?: string;            // Set on the final chunk: the model that answered, possibly a fallback
+}
+
+export interface ModelResponse {
+  text: string;
+  usage: TokenUsage | null;
+  model?: string;            // The model that answered, possibly a fallback
+}
+
+/**
+ * A provider generates replies to a conversation. The last message is the one
+ * to answer. Register new providers with `registerLlmProvider` and select them
+ * via LLM_PROVIDER.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly modelName: string; // Stored on messages and used to look up prices
+  stream(messages: LlmMessage[], options?: GenerationOptions): AsyncGenerator<StreamChunk, void, unknown>;
+  complete(messages: LlmMessage[], options?: GenerationOptions): Promise<ModelResponse>;
+  countTokens(messages: LlmMessage[]): Promise<number>;
+}
+
+export interface ChatOptions extends GenerationOptions {
+  enableSecurity?: boolean;
+  enableBuilding?: boolean;
+  customInstructions?: CustomInstructions;
+}
+
+type LlmProviderFactory = () => LlmProvider;
+
+const providerFactories = new Map<string, LlmProviderFactory>([
+  ['gemini', () => new GeminiProvider(getGeminiConfig())],
+  ['openai', () => new OpenAICompatibleProvider(getOpenAIConfig())],
+  // Offline providers for development and tests
+  ['mock', () => new MockProvider(getReplayConfig().delayMs)],
+  ['replay', () => new ReplayProvider(getReplayConfig().fixturesDir, getReplayConfig().delayMs)],
+  ['record', () => new RecordingProvider(createLlmProvider(getReplayConfig().recordProvider), getReplayConfig().fixturesDir)],
+]);
+
+export function registerLlmProvider(name: string, factory: LlmProviderFactory): void {
+  providerFactories.set(name, factory);
+}
+
+export function createLlmProvider(name: string): LlmProvider {
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return factory();
+}
+
+/**
+ * Entry point for the chat routes. Wraps code-related prompts in the coding
+ * templates and hands the conversation to the configured provider, with
+ * retries and fallback models. Failures are thrown as `LlmError`.
+ */
+export class LlmService {
+  private provider: LlmProvider | null = null;
+  private readonly resilience = new LlmResilience(getResilienceConfig());
+
+  constructor(private readonly driver: string) {}
+
+  get modelName(): string {
+    return this.getProvider().modelName;
+  }
+
+  /**
+   * Models users may choose for a conversation: the provider's default plus LLM_MODELS
+   */
+  get models(): string[] {
+    return [...new Set([this.modelName, ...config.LLM_MODELS])];
+  }
+
+  /**
+   * The model to use for a conversation's setting. Models that are no longer
+   * allowed fall back to the default.
+   */
+  resolveModel(model?: string | null): string {
+    return model && this.models.includes(model) ? model : this.modelName;
+  }
+
+  /**
+   * Stream a reply to `message`, given the earlier turns of the conversation
+   */
+  async *stream(
+    history: LlmMessage[],
+    message: string,
+    options: ChatOptions = {}
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    const provider = this.getProvider();
+    const { enableSecurity, enableBuilding, customInstructions, ...generation } = options;
+    const messages = [...history, { role: 'USER' as const, content: this.preparePrompt(message, history, options) }];
+
+    try {
+      let usage: TokenUsage | null | undefined;
+      let model = generation.model ?? provider.modelName;
+      for await (const chunk of this.resilience.stream(provider, messages, generation)) {
+        if (chunk.isComplete) {
+          usage = chunk.usage;
+          model = chunk.model ?? model;
+        }
+        yield chunk;
+      }
+
+      if (generation.signal?.aborted) {
+        logger.info('Model response cancelled', { provider: provider.name, model: generation.model ?? provider.modelName });
+        return;
+      }
+
+      logger.info('Model response completed', { provider: provider.name, model, usage });
+    } catch (error) {
+      // Providers fail with an abort error when cancelled; the stream just ends early
+      if (generation.signal?.aborted) {
+        logger.info('Model response cancelled', { provider: provider.name, model: generation.model ?? provider.modelName });
+        return;
+      }
+      const llmError = classifyLlmError(error);
+      logger.error('Model streaming error:', { provider: provider.name, reason: llmError.reason, error });
+      throw llmError;
+    }
+  }
+
+  /**
+   * Get a complete reply to `message` (non-streaming)
+   */
+  async complete(history: LlmMessage[], message: string, options: ChatOptions = {}): Promise<ModelResponse> {
+    const provider = this.getProvider();
+    const { enableSecurity, enableBuilding, customInstructions, ...generation } = options;
+    const messages = [...history, { role: 'USER' as const, content: this.preparePrompt(message, history, options) }];
+
+    try {
+      const response = await this.resilience.complete(provider, messages, generation);
+
+      logger.info('Model response received', {
+        provider: provider.name,
+        model: response.model,
+        inputLength: message.length,
+        outputLength: response.text.length,
+        usage: response.usage,
+      });
+
+      return response;
+    } catch (error) {
+      const llmError = classifyLlmError(error);
+      logger.error('Model message error:', { provider: provider.name, reason: llmError.reason, error });
+      throw llmError;
+    }
+  }
+
+  /**
+   * Fold `messages` into a conversation's running summary. The prompt goes to
+   * the model as is, without the coding templates or custom instructions.
+   */
+  async summarize(previousSummary: string | null, messages: LlmMessage[], model?: string): Promise<ModelResponse> {
+    const provider = this.getProvider();
+    const prompt = promptManager.generateSummaryPrompt(previousSummary, messages);
+
+    try {
+      const response = await this.resilience.complete(provider, [{ role: 'USER', content: prompt }], { model });
+
+      logger.info('Conversation summary generated', {
+        provider: provider.name,
+        model: response.model,
+        messageCount: messages.length,
+        outputLength: response.text.length,
+        usage: response.usage,
+      });
+
+      return response;
+    } catch (error) {
+      const llmError = classifyLlmError(error);
+      logger.error('Conversation summary error:', { provider: provider.name, reason: llmError.reason, error });
+      throw llmError;
+    }
+  }
+
+  /**
+   * Count the tokens a conversation takes up for the configured model
+   */
+  countTokens(messages: LlmMessage[]): Promise<number> {
+    return this.getProvider().countTokens(messages);
+  }
+
+  // Only code-related requests get the enhanced coding prompt; both get the custom instructions
+  private preparePrompt(message: string, history: LlmMessage[], options: ChatOptions): string {
+    const userIntent = codeIntentDetector.analyzeUserIntent(message);
+
+    if (!userIntent.isCodeRelated) {
+      logger.info('Sending conversational message', {
+        messageLength: message.length,
+        userIntent: userIntent.reasoning,
+        confidence: userIntent.confidence,
+      });
+      return promptManager.generateConversationalPrompt(message, options.customInstructions);
+    }
+
+    const promptContext = {
+      userMessage: message,
+      conversationHistory: history,
+      enableSecurity: options.enableSecurity ?? true,
+      enableBuilding: options.enableBuilding ?? true,
+      customInstructions: options.customInstructions,
+      ...promptManager.analyzeMessage(message),
+    };
+    const prompt = promptManager.generatePrompt(promptContext);
+
+    logger.info('Sending enhanced coding message', {
+      messageLength: message.length,
+      enhancedLength: prompt.length,
+      detectedLanguage: promptContext.codeLanguage,
+      complexity: promptContext.complexity,
+      userIntent: userIntent.reasoning,
+    });
+
+    return prompt;
+  }
+
+  private getProvider(): LlmProvider {
+    if (!this.provider) {
+      this.provider = createLlmProvider(this.driver);
+    }
+    return this.provider;
+  }
+}
+
+export const llmService = new LlmService(config.LLM_PROVIDER);
@@ -3,6 +3,7 @@ import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { createLogger } from '../utils/logger';
+import { metrics } from '../middleware/metrics';
 
 const logger = createLogger();
 
@@ -78,10 +79,12 @@ export class LocalBundlingService {
         bundleSize: bundleResult.bundleSize,
       };
 
+      metrics.trackBuild(result.success, result.buildTime);
       return result;
 
     } catch (error) {
       logger.error('Local bundling failed:', error);
+      metrics.trackBuild(false, Date.now() - startTime);
       return {
         success: false,
         dependencies: [],
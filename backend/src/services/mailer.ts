@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../utils/logger';
+import { config } from '../config';
+
+const logger = createLogger();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  id: string;
+  from: string;
+  createdAt: string;
+}
+
+/**
+ * A mail transport delivers a fully addressed message. Register new drivers
+ * (SMTP, SES, ...) with `registerMailTransport` and select them via MAIL_DRIVER.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+/**
+ * Writes every message to a local outbox directory so mail flows can be
+ * exercised offline. Each message is stored as JSON plus a readable .eml file.
+ */
+export class OutboxMailTransport implements MailTransport {
+  readonly name = 'outbox';
+  private readonly outboxDir: string;
+
+  constructor(outboxDir: string) {
+    this.outboxDir = path.resolve(process.cwd(), outboxDir);
+  }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const baseName = `${mail.createdAt.replace(/[:.]/g, '-')}_${mail.id}`;
+    const eml = [
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      `Date: ${new Date(mail.createdAt).toUTCString()}`,
+      `Message-ID: <${mail.id}@outbox.local>`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      mail.text,
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(this.outboxDir, `${baseName}.json`), JSON.stringify(mail, null, 2), 'utf8');
+    await fs.writeFile(path.join(this.outboxDir, `${baseName}.eml`), eml, 'utf8');
+
+    logger.info(`Mail written to outbox: ${baseName}`, { to: mail.to, subject: mail.subject });
+  }
+}
+
+/**
+ * Logs messages instead of delivering them. Useful in containers without a writable disk.
+ */
+export class LogMailTransport implements MailTransport {
+  readonly name = 'log';
+
+  async send(mail: OutgoingMail): Promise<void> {
+    logger.info('Outgoing mail', { to: mail.to, subject: mail.subject, text: mail.text });
+  }
+}
+
+type MailTransportFactory = () => MailTransport;
+
+const transportFactories = new Map<string, MailTransportFactory>([
+  ['outbox', () => new OutboxMailTransport(config.MAIL_OUTBOX_DIR)],
+  ['log', () => new LogMailTransport()],
+]);
+
+export function registerMailTransport(name: string, factory: MailTransportFactory): void {
+  transportFactories.set(name, factory);
+}
+
+export class Mailer {
+  private transport: MailTransport | null = null;
+
+  constructor(
+    private readonly driver: string,
+    private readonly from: string
+  ) {}
+
+  /**
+   * Send a message through the configured transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    const mail: OutgoingMail = {
+      ...message,
+      id: uuidv4(),
+      from: this.from,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.getTransport().send(mail);
+    } catch (error) {
+      logger.error('Failed to send mail:', { to: message.to, subject: message.subject, error });
+      throw new Error('Failed to send mail');
+    }
+  }
+
+  private getTransport(): MailTransport {
+    if (!this.transport) {
+      const factory = transportFactories.get(this.driver);
+      if (!factory) {
+        throw new Error(`Unknown mail driver: ${this.driver}`);
+      }
+      this.transport = factory();
+    }
+    return this.transport;
+  }
+}
+
+export const mailer = new Mailer(config.MAIL_DRIVER, config.MAIL_FROM);
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConversationMemory } from './memory';
+import { prisma } from '../utils/database';
+import { createUser } from '../test/factories';
+
+// About 1,000 estimated tokens each, so a few turns exceed the default budget of 4,000
+const LONG_TEXT = 'x'.repeat(4000);
+
+async function createConversation(turns: number, content = LONG_TEXT) {
+  const user = await createUser();
+  const conversation = await prisma.conversation.create({ data: { userId: user.id, title: 'Test' } });
+
+  const start = Date.now() - 60 * 60 * 1000;
+  for (let index = 0; index < turns * 2; index++) {
+    await prisma.message.create({
+      data: {
+        conversationId: conversation.id,
+        role: index % 2 === 0 ? 'USER' : 'ASSISTANT',
+        content: `${index}: ${content}`,
+        createdAt: new Date(start + index * 1000),
+      },
+    });
+  }
+  return conversation;
+}
+
+describe('ConversationMemory', () => {
+  it('sends short conversations in full', async () => {
+    const conversation = await createConversation(2, 'Short');
+
+    const history = await new ConversationMemory(conversation.id).getHistory();
+
+    expect(history.map(message => message.content)).toEqual(['0: Short', '1: Short', '2: Short', '3: Short']);
+  });
+
+  it('leaves out SYSTEM messages', async () => {
+    const conversation = await createConversation(1, 'Short');
+    await prisma.message.create({
+      data: { conversationId: conversation.id, role: 'SYSTEM', content: 'Notice' },
+    });
+
+    const history = await new ConversationMemory(conversation.id).getHistory();
+
+    expect(history.map(message => message.role)).toEqual(['USER', 'ASSISTANT']);
+  });
+
+  it('sends only the newest turns that fit the budget, opening with a user turn', async () => {
+    const conversation = await createConversation(4);
+
+    const history = await new ConversationMemory(conversation.id).getHistory();
+
+    expect(history.length).toBeLessThan(8);
+    expect(history[0].role).toBe('USER');
+    expect(history[history.length - 1].content).toMatch(/^7: /);
+  });
+
+  it('leaves out the message being answered and everything after it', async () => {
+    const conversation = await createConversation(2, 'Short');
+    const answered = await prisma.message.findFirstOrThrow({ where: { content: '2: Short' } });
+
+    const history = await new ConversationMemory(conversation.id).getHistory(answered.createdAt);
+
+    expect(history.map(message => message.content)).toEqual(['0: Short', '1: Short']);
+  });
+
+  it('folds older turns into a summary once they exceed the budget', async () => {
+    const conversation = await createConversation(4);
+    const memory = new ConversationMemory(conversation.id);
+
+    await memory.saveContext({}, {});
+
+    const summarized = await vi.waitFor(async () => {
+      const current = await prisma.conversation.findUniqueOrThrow({ where: { id: conversation.id } });
+      expect(current.memorySummary).not.toBeNull();
+      return current;
+    });
+    // Half of the turns, ending on an assistant message
+    const lastFolded = await prisma.message.findFirstOrThrow({ where: { content: { startsWith: '3: ' } } });
+    expect(summarized.memorySummaryThrough).toEqual(lastFolded.createdAt);
+
+    const history = await memory.getHistory();
+    expect(history[0]).toMatchObject({ role: 'USER', content: expect.stringContaining(summarized.memorySummary!) });
+    expect(history[1].role).toBe('ASSISTANT');
+    expect(history.slice(2).map(message => message.content.slice(0, 2))).not.toContain('3:');
+
+    // The messages themselves are kept
+    expect(await prisma.message.count({ where: { conversationId: conversation.id } })).toBe(8);
+  });
+
+  it('does not summarize conversations within the budget', async () => {
+    const conversation = await createConversation(2, 'Short');
+    const memory = new ConversationMemory(conversation.id);
+
+    await memory.saveContext({}, {});
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const current = await prisma.conversation.findUniqueOrThrow({ where: { id: conversation.id } });
+    expect(current.memorySummary).toBeNull();
+  });
+
+  it('ignores a summary that covers turns after the message being answered', async () => {
+    const conversation = await createConversation(2, 'Short');
+    const last = await prisma.message.findFirstOrThrow({ where: { content: '3: Short' } });
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { memorySummary: 'Everything so far', memorySummaryThrough: last.createdAt },
+    });
+    const answered = await prisma.message.findFirstOrThrow({ where: { content: '2: Short' } });
+
+    const history = await new ConversationMemory(conversation.id).getHistory(answered.createdAt);
+
+    expect(history.map(message => message.content)).toEqual(['0: Short', '1: Short']);
+  });
+});
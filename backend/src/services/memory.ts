@@ -3,6 +3,8 @@ import { BaseChatMessageHistory } from '@langchain/core/chat_history';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
 import { createLogger } from '../utils/logger';
 import { prisma } from '../utils/database';
+import { config } from '../config';
+import { llmService, LlmMessage } from './llm';
 
 const logger = createLogger();
 
@@ -12,8 +14,6 @@ const logger = createLogger();
  */
 export class DatabaseChatMessageHistory extends BaseChatMessageHistory {
   private conversationId: string;
-  private messages: BaseMessage[] = [];
-  private loaded = false;
 
   // Required by BaseChatMessageHistory, but not used in this implementation
   get lc_namespace(): string[] {
@@ -33,18 +33,12 @@ export class DatabaseChatMessageHistory extends BaseChatMessageHistory {
     this.conversationId = conversationId;
   }
 
+  // Read from the database every time; the chat routes store messages without going through here
   async getMessages(): Promise<BaseMessage[]> {
-    if (!this.loaded) {
-      await this.loadMessages();
-    }
-    return this.messages;
+    return this.loadMessages();
   }
 
   async addMessage(message: BaseMessage): Promise<void> {
-    // Add to in-memory cache
-    this.messages.push(message);
-
-    // Save to database
     try {
       await prisma.message.create({
         data: {
@@ -65,8 +59,6 @@ export class DatabaseChatMessageHistory extends BaseChatMessageHistory {
   }
 
   async clear(): Promise<void> {
-    this.messages = [];
-    
     try {
       await prisma.message.deleteMany({
         where: { conversationId: this.conversationId },
@@ -79,27 +71,27 @@ export class DatabaseChatMessageHistory extends BaseChatMessageHistory {
     }
   }
 
-  private async loadMessages(): Promise<void> {
+  private async loadMessages(): Promise<BaseMessage[]> {
     try {
       const dbMessages = await prisma.message.findMany({
         where: { conversationId: this.conversationId },
         orderBy: { createdAt: 'asc' },
       });
 
-      this.messages = dbMessages.map(msg => {
+      const messages = dbMessages.map((msg: { role: string; content: string }) => {
         if (msg.role === 'USER') {
           return new HumanMessage(msg.content);
         } else {
           return new AIMessage(msg.content);
         }
       });
-
-      this.loaded = true;
       
       logger.debug('Messages loaded from database', { 
         conversationId: this.conversationId,
-        messageCount: this.messages.length
+        messageCount: messages.length
       });
+
+      return messages;
     } catch (error) {
       logger.error('Failed to load messages from database:', error);
       throw error;
@@ -107,22 +99,58 @@ export class DatabaseChatMessageHistory extends BaseChatMessageHistory {
   }
 }
 
+// Used for models without an entry in MEMORY_TOKEN_BUDGETS
+const DEFAULT_TOKEN_BUDGET = 4000;
+// Always sent verbatim, never folded into the summary
+const KEEP_RECENT_MESSAGES = 4;
+const TOKENS_PER_MESSAGE = 4; // Rough overhead per message
+
+const SUMMARY_PREFIX = 'Summary of our conversation so far:';
+const SUMMARY_ACKNOWLEDGEMENT = 'Understood, I will keep that in mind.';
+
+interface StoredMessage {
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  createdAt: Date;
+}
+
+interface MemoryState {
+  model: string;
+  summary: string | null;
+  summaryThrough: Date | null;
+}
+
+function tokenBudget(model: string): number {
+  return config.MEMORY_TOKEN_BUDGETS[model] ?? config.MEMORY_TOKEN_BUDGETS.default ?? DEFAULT_TOKEN_BUDGET;
+}
+
+// Simple token estimation (rough approximation)
+function estimateTokens(messages: Array<{ content: string }>): number {
+  return messages.reduce((total, msg) => total + Math.ceil(msg.content.length / 4) + TOKENS_PER_MESSAGE, 0);
+}
+
+function toLlmMessage(msg: StoredMessage): LlmMessage {
+  return { role: msg.role, content: msg.content };
+}
+
 /**
- * Custom memory implementation for conversation management
+ * Conversation memory backed by the messages in the database. Once the turns
+ * since the last summary exceed the model's token budget, the older ones are
+ * condensed into a summary stored on the conversation. The messages
+ * themselves are never deleted; only the summary and the recent turns are
+ * sent to the model.
  */
 export class ConversationMemory extends BaseMemory {
   private chatHistory: DatabaseChatMessageHistory;
-  private maxTokenLimit: number;
   private returnMessages: boolean;
+  private summarizing: Promise<void> | null = null;
 
   constructor(
-    conversationId: string, 
-    maxTokenLimit: number = 4000,
+    private readonly conversationId: string,
     returnMessages: boolean = true
   ) {
     super();
     this.chatHistory = new DatabaseChatMessageHistory(conversationId);
-    this.maxTokenLimit = maxTokenLimit;
     this.returnMessages = returnMessages;
   }
 
@@ -145,19 +173,29 @@ export class ConversationMemory extends BaseMemory {
     };
   }
 
-  async saveContext(inputValues: Record<string, any>, outputValues: Record<string, any>): Promise<void> {
-    const inputMessage = new HumanMessage(inputValues.input || inputValues.question || '');
-    const outputMessage = new AIMessage(outputValues.output || outputValues.response || '');
-
-    await this.chatHistory.addMessage(inputMessage);
-    await this.chatHistory.addMessage(outputMessage);
+  /**
+   * The chat routes store both messages themselves, so this only starts
+   * folding older turns into the summary. That runs in the background and
+   * does not hold up the response.
+   */
+  async saveContext(_inputValues: Record<string, any>, _outputValues: Record<string, any>): Promise<void> {
+    if (this.summarizing) return;
 
-    // Trim messages if they exceed token limit
-    await this.trimMessages();
+    this.summarizing = this.summarize()
+      .catch(error => {
+        logger.error('Failed to summarize conversation memory:', error);
+      })
+      .finally(() => {
+        this.summarizing = null;
+      });
   }
 
   async clear(): Promise<void> {
     await this.chatHistory.clear();
+    await prisma.conversation.updateMany({
+      where: { id: this.conversationId },
+      data: { memorySummary: null, memorySummaryThrough: null },
+    });
   }
 
   /**
@@ -178,20 +216,52 @@ export class ConversationMemory extends BaseMemory {
    * Get message count
    */
   async getMessageCount(): Promise<number> {
-    const messages = await this.chatHistory.getMessages();
-    return messages.length;
+    return prisma.message.count({ where: { conversationId: this.conversationId } });
   }
 
   /**
-   * Get messages in format suitable for Gemini API
+   * Get messages in the format the LLM providers take: the stored summary, if
+   * any, then the most recent turns that fit the model's token budget.
+   * `before` leaves out the message being answered and everything after it.
    */
-  async getGeminiHistory(): Promise<any[]> {
-    const messages = await this.chatHistory.getMessages();
-    
-    return messages.map(msg => ({
-      role: msg._getType() === 'human' ? 'USER' : 'ASSISTANT',
-      content: msg.content as string,
-    }));
+  async getHistory(before?: Date): Promise<LlmMessage[]> {
+    const state = await this.loadState();
+    // A summary reaching past `before` covers turns the model should not see
+    const summary = state.summary && state.summaryThrough && (!before || state.summaryThrough < before)
+      ? state.summary
+      : null;
+    const messages = await this.loadMessages(summary ? state.summaryThrough : null, before);
+
+    const context: LlmMessage[] = summary
+      ? [
+          { role: 'USER', content: `${SUMMARY_PREFIX}\n${summary}` },
+          { role: 'ASSISTANT', content: SUMMARY_ACKNOWLEDGEMENT },
+        ]
+      : [];
+
+    // Newest turns first, until the budget is used up. Anything older is left
+    // out until the next summary catches up with it.
+    const budget = tokenBudget(state.model);
+    let tokens = estimateTokens(context);
+    let start = messages.length;
+    while (start > 0 && tokens + estimateTokens([messages[start - 1]]) <= budget) {
+      start--;
+      tokens += estimateTokens([messages[start]]);
+    }
+    // Providers expect the history to open with a user turn
+    while (start < messages.length && messages[start].role !== 'USER') {
+      start++;
+    }
+
+    if (start > 0) {
+      logger.debug('Conversation history exceeds token budget', {
+        conversationId: this.conversationId,
+        budget,
+        omittedMessages: start,
+      });
+    }
+
+    return [...context, ...messages.slice(start).map(toLlmMessage)];
   }
 
   private getBufferString(messages: BaseMessage[]): string {
@@ -203,53 +273,73 @@ export class ConversationMemory extends BaseMemory {
       .join('\n');
   }
 
-  private async trimMessages(): Promise<void> {
-    const messages = await this.chatHistory.getMessages();
-    
-    // Simple token estimation (rough approximation)
-    let totalTokens = 0;
-    const tokensPerMessage = 4; // Rough overhead per message
-    
-    for (const message of messages) {
-      totalTokens += Math.ceil((message.content as string).length / 4) + tokensPerMessage;
-    }
+  /**
+   * Fold the older half of the unsummarized turns into the summary when they
+   * exceed the model's token budget. Longer backlogs are worked off one fold
+   * per response.
+   */
+  private async summarize(): Promise<void> {
+    const state = await this.loadState();
+    const messages = await this.loadMessages(state.summaryThrough);
+    const estimatedTokens = estimateTokens(messages) + (state.summary ? estimateTokens([{ content: state.summary }]) : 0);
 
-    // If we exceed the limit, remove oldest messages (but keep at least the last 4)
-    if (totalTokens > this.maxTokenLimit && messages.length > 4) {
-      const messagesToRemove = Math.floor(messages.length / 4); // Remove 25% of messages
-      const messagesToKeep = messages.slice(-messagesToRemove);
-      
-      logger.info('Trimming conversation memory', {
-        totalMessages: messages.length,
-        estimatedTokens: totalTokens,
-        messagesToRemove,
-        messagesKept: messagesToKeep.length,
-      });
+    if (estimatedTokens <= tokenBudget(state.model) || messages.length <= KEEP_RECENT_MESSAGES) {
+      return;
+    }
 
-      // Actually remove old messages from database
-      const oldestMessages = messages.slice(0, messagesToRemove);
-      const messageIdsToDelete = oldestMessages.map(msg => msg.id);
-
-      try {
-        // Get conversation ID and delete old messages
-        const conversationId = this.chatHistory['conversationId'];
-        await prisma.message.deleteMany({
-          where: {
-            conversationId,
-            createdAt: {
-              lt: oldestMessages[oldestMessages.length - 1].createdAt || new Date(0)
-            }
-          },
-          take: messagesToRemove
-        });
-
-        // Update in-memory cache
-        this.chatHistory['messages'] = messagesToKeep;
-        
-      } catch (error) {
-        logger.error('Failed to trim messages from database:', error);
-      }
+    // End on an assistant message so no turn is split between summary and history
+    let foldCount = Math.min(Math.ceil(messages.length / 2), messages.length - KEEP_RECENT_MESSAGES);
+    while (foldCount > 0 && messages[foldCount - 1].role !== 'ASSISTANT') {
+      foldCount--;
     }
+    if (foldCount === 0) return;
+
+    const folded = messages.slice(0, foldCount);
+    // Deliberately not charged: a summary is upkeep rather than a response the
+    // user asked for, it shrinks the prompts of the charged messages that follow,
+    // and at most one runs per charged response
+    const { text } = await llmService.summarize(state.summary, folded.map(toLlmMessage), state.model);
+    const summaryThrough = folded[folded.length - 1].createdAt;
+
+    await prisma.conversation.update({
+      where: { id: this.conversationId },
+      data: { memorySummary: text.trim(), memorySummaryThrough: summaryThrough },
+    });
+
+    logger.info('Conversation memory summarized', {
+      conversationId: this.conversationId,
+      estimatedTokens,
+      foldedMessages: folded.length,
+      remainingMessages: messages.length - folded.length,
+    });
+  }
+
+  private async loadState(): Promise<MemoryState> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: this.conversationId },
+      select: { model: true, memorySummary: true, memorySummaryThrough: true },
+    });
+
+    return {
+      model: llmService.resolveModel(conversation?.model),
+      summary: conversation?.memorySummary ?? null,
+      summaryThrough: conversation?.memorySummaryThrough ?? null,
+    };
+  }
+
+  // Messages after `after` and before `before`, oldest first
+  private async loadMessages(after: Date | null, before?: Date): Promise<StoredMessage[]> {
+    const messages = await prisma.message.findMany({
+      where: {
+        conversationId: this.conversationId,
+        createdAt: { ...(after && { gt: after }), ...(before && { lt: before }) },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { role: true, content: true, createdAt: true },
+    });
+
+    // SYSTEM messages are not turns of the conversation
+    return messages.filter((msg): msg is StoredMessage => msg.role !== 'SYSTEM');
   }
 }
 
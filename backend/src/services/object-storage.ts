@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { config, getS3Config, getApiBaseUrl } from '../config';
+
+export interface PutObjectOptions {
+  contentType?: string;
+  contentEncoding?: string;
+  metadata?: Record<string, string>;
+  cacheControl?: string;
+  encrypt?: boolean;                // Server-side encryption, where the driver supports it
+  tags?: Record<string, string>;
+}
+
+export interface StoredObject {
+  content: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Where code artifacts and projects are kept. Register new drivers with
+ * `registerObjectStorage` and select them via STORAGE_DRIVER.
+ */
+export interface ObjectStorage {
+  readonly name: string;
+  put(key: string, body: string | Buffer, options?: PutObjectOptions): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string, expiresIn: number): Promise<string>; // A URL the browser can open directly
+}
+
+export class S3ObjectStorage implements ObjectStorage {
+  readonly name = 's3';
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucketName: string
+  ) {}
+
+  async put(key: string, body: string | Buffer, options: PutObjectOptions = {}): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType || 'text/plain',
+      ContentEncoding: options.contentEncoding,
+      Metadata: options.metadata || {},
+      CacheControl: options.cacheControl,
+      ServerSideEncryption: options.encrypt ? 'AES256' : undefined,
+      Tagging: options.tags ? new URLSearchParams(options.tags).toString() : undefined,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error('No content found in S3 object');
+    }
+
+    return {
+      content: await response.Body.transformToString('utf-8'),
+      metadata: response.Metadata ?? {},
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    }));
+  }
+
+  getUrl(key: string, expiresIn: number): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucketName, Key: key }), { expiresIn });
+  }
+}
+
+/**
+ * Keeps objects in a local directory so code replies can be stored without
+ * AWS, e.g. with the offline LLM providers. Metadata goes into a
+ * `<key>.meta.json` file next to each object. URLs point at the server's
+ * /storage route, which serves the directory without authentication and
+ * never expires them, so this driver is for local development only.
+ */
+export class LocalObjectStorage implements ObjectStorage {
+  readonly name = 'local';
+  private readonly rootDir: string;
+
+  constructor(rootDir: string, private readonly baseUrl: string) {
+    this.rootDir = path.resolve(process.cwd(), rootDir);
+  }
+
+  async put(key: string, body: string | Buffer, options: PutObjectOptions = {}): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify(options.metadata ?? {}, null, 2), 'utf8');
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    const content = await fs.readFile(filePath, 'utf8');
+    const metadata = await fs.readFile(`${filePath}.meta.json`, 'utf8')
+      .then(json => JSON.parse(json) as Record<string, string>)
+      .catch(() => ({}));
+
+    return { content, metadata };
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    this.resolve(key);
+    return `${this.baseUrl}/storage/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  // Keys are generated by the storage services, but never let one escape the directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+type ObjectStorageFactory = () => ObjectStorage;
+
+const storageFactories = new Map<string, ObjectStorageFactory>([
+  ['s3', () => new S3ObjectStorage(new S3Client(getS3Config()), config.S3_BUCKET_NAME)],
+  ['local', () => new LocalObjectStorage(config.STORAGE_LOCAL_DIR, getApiBaseUrl())],
+]);
+
+export function registerObjectStorage(name: string, factory: ObjectStorageFactory): void {
+  storageFactories.set(name, factory);
+}
+
+export function createObjectStorage(name: string): ObjectStorage {
+  const factory = storageFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown storage driver: ${name}`);
+  }
+  return factory();
+}
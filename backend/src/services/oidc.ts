@@ -0,0 +1,384 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { generateOpaqueToken, hashPassword } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { getApiBaseUrl, OidcProviderConfig } from '../config';
+import { signupCreditsData } from './credits';
+
+const logger = createLogger();
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+const LOGIN_CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'];
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+interface PendingAuthorization {
+  providerId: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectPath: string;
+  expiresAt: number;
+}
+
+interface PendingLogin {
+  userId: string;
+  redirectPath: string;
+  expiresAt: number;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  preferredUsername?: string;
+}
+
+/**
+ * Failure during an OIDC login. `code` is safe to pass to the frontend.
+ */
+export class OidcError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+function base64UrlSha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+// Only same-site paths, so the login flow cannot be turned into an open redirect
+export function sanitizeRedirectPath(path: unknown): string {
+  if (typeof path !== 'string' || !path.startsWith('/') || path.startsWith('//') || path.includes('\\')) {
+    return '/';
+  }
+  return path;
+}
+
+function pruneExpired<T extends { expiresAt: number }>(entries: Map<string, T>): void {
+  const now = Date.now();
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt < now) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * OpenID Connect authorization-code flow with PKCE.
+ *
+ * Pending authorizations and one-time login codes are kept in memory, so a
+ * login must start and finish on the same backend instance.
+ */
+export class OidcService {
+  private discoveryCache = new Map<string, { document: DiscoveryDocument; expiresAt: number }>();
+  private jwksCache = new Map<string, { keys: JsonWebKeyWithId[]; expiresAt: number }>();
+  private pendingAuthorizations = new Map<string, PendingAuthorization>();
+  private pendingLogins = new Map<string, PendingLogin>();
+
+  getRedirectUri(provider: OidcProviderConfig): string {
+    return `${getApiBaseUrl()}/api/auth/oidc/${provider.id}/callback`;
+  }
+
+  /**
+   * Build the IdP authorization URL and remember the PKCE verifier for the callback
+   */
+  async createAuthorizationUrl(provider: OidcProviderConfig, redirectPath: string): Promise<string> {
+    const discovery = await this.getDiscovery(provider);
+
+    const state = generateOpaqueToken();
+    const nonce = generateOpaqueToken();
+    const codeVerifier = generateOpaqueToken(48);
+
+    pruneExpired(this.pendingAuthorizations);
+    this.pendingAuthorizations.set(state, {
+      providerId: provider.id,
+      codeVerifier,
+      nonce,
+      redirectPath: sanitizeRedirectPath(redirectPath),
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.getRedirectUri(provider));
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', base64UrlSha256(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Validate the callback state, redeem the authorization code and verify the ID token
+   */
+  async handleCallback(
+    provider: OidcProviderConfig,
+    params: { code?: string; state?: string }
+  ): Promise<{ identity: OidcIdentity; redirectPath: string }> {
+    const pending = params.state ? this.pendingAuthorizations.get(params.state) : undefined;
+    if (params.state) {
+      this.pendingAuthorizations.delete(params.state);
+    }
+
+    if (!pending || pending.providerId !== provider.id || pending.expiresAt < Date.now()) {
+      throw new OidcError('invalid_state', 'Login session expired or is invalid');
+    }
+
+    if (!params.code) {
+      throw new OidcError('missing_code', 'Authorization code missing from callback');
+    }
+
+    const discovery = await this.getDiscovery(provider);
+    const idToken = await this.exchangeCode(provider, discovery, params.code, pending.codeVerifier);
+    const identity = await this.verifyIdToken(provider, discovery, idToken, pending.nonce);
+
+    return { identity, redirectPath: pending.redirectPath };
+  }
+
+  /**
+   * Find the user linked to an identity, linking by verified email or creating
+   * a new account when there is none yet
+   */
+  async resolveUser(provider: OidcProviderConfig, identity: OidcIdentity) {
+    const linked = await prisma.oAuthAccount.findUnique({
+      where: { provider_subject: { provider: provider.id, subject: identity.subject } },
+      include: { user: true },
+    });
+
+    if (linked) {
+      await prisma.oAuthAccount.update({
+        where: { id: linked.id },
+        data: { lastLoginAt: new Date(), email: identity.email },
+      });
+      return linked.user;
+    }
+
+    // Linking or creating by email is only safe when the IdP vouches for the address
+    if (!identity.emailVerified) {
+      throw new OidcError('email_not_verified', 'Your identity provider did not confirm your email address');
+    }
+
+    const email = identity.email.toLowerCase();
+    let user = await prisma.user.findUnique({ where: { email } });
+
+    if (user) {
+      if (!user.emailVerifiedAt) {
+        user = await prisma.user.update({
+          where: { id: user.id },
+          data: { emailVerifiedAt: new Date() },
+        });
+      }
+      logger.info('Linked OIDC identity to existing account', { userId: user.id, provider: provider.id });
+    } else {
+      user = await prisma.user.create({
+        data: {
+          email,
+          username: await this.generateUsername(identity),
+          // No usable password; the user can set one through the reset flow
+          passwordHash: await hashPassword(generateOpaqueToken()),
+          emailVerifiedAt: new Date(),
+          ...signupCreditsData(),
+        },
+      });
+      logger.info('Created account from OIDC identity', { userId: user.id, provider: provider.id });
+    }
+
+    await prisma.oAuthAccount.create({
+      data: {
+        userId: user.id,
+        provider: provider.id,
+        subject: identity.subject,
+        email,
+        lastLoginAt: new Date(),
+      },
+    });
+
+    return user;
+  }
+
+  /**
+   * One-time code handed to the frontend via redirect, so tokens never appear in URLs
+   */
+  issueLoginCode(userId: string, redirectPath: string): string {
+    pruneExpired(this.pendingLogins);
+
+    const code = generateOpaqueToken();
+    this.pendingLogins.set(code, {
+      userId,
+      redirectPath,
+      expiresAt: Date.now() + LOGIN_CODE_TTL_MS,
+    });
+    return code;
+  }
+
+  consumeLoginCode(code: string): { userId: string; redirectPath: string } | null {
+    const pending = this.pendingLogins.get(code);
+    this.pendingLogins.delete(code);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      return null;
+    }
+    return { userId: pending.userId, redirectPath: pending.redirectPath };
+  }
+
+  private async getDiscovery(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+    const cached = this.discoveryCache.get(provider.issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+
+    const url = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new OidcError('provider_unavailable', `Discovery request failed with status ${response.status}`);
+    }
+
+    const document = await response.json() as DiscoveryDocument;
+    if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+      throw new OidcError('provider_unavailable', 'Discovery document is missing required endpoints');
+    }
+
+    this.discoveryCache.set(provider.issuer, { document, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+    return document;
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    discovery: DiscoveryDocument,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider),
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body,
+    });
+
+    const result = await response.json().catch(() => ({})) as { id_token?: string; error?: string };
+    if (!response.ok || !result.id_token) {
+      logger.warn('OIDC token exchange failed', { provider: provider.id, status: response.status, error: result.error });
+      throw new OidcError('token_exchange_failed', 'Could not complete sign-in with the identity provider');
+    }
+
+    return result.id_token;
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    discovery: DiscoveryDocument,
+    idToken: string,
+    expectedNonce: string
+  ): Promise<OidcIdentity> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('invalid_id_token', 'ID token is malformed');
+    }
+
+    const key = await this.getSigningKey(discovery.jwks_uri, decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: provider.clientId,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      logger.warn('OIDC ID token verification failed', { provider: provider.id, error: error instanceof Error ? error.message : error });
+      throw new OidcError('invalid_id_token', 'ID token could not be verified');
+    }
+
+    if (claims.nonce !== expectedNonce) {
+      throw new OidcError('invalid_id_token', 'ID token nonce mismatch');
+    }
+
+    if (!claims.sub || typeof claims.email !== 'string') {
+      throw new OidcError('missing_email', 'Your identity provider did not share an email address');
+    }
+
+    return {
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+      preferredUsername: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined,
+    };
+  }
+
+  private async getSigningKey(jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+    const findKey = (keys: JsonWebKeyWithId[]) =>
+      keys.find(key => (key.use === undefined || key.use === 'sig') && (!kid || key.kid === kid));
+
+    const cached = this.jwksCache.get(jwksUri);
+    let jwk = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+    // Unknown kid usually means the IdP rotated its keys, so refetch once
+    if (!jwk) {
+      const response = await fetch(jwksUri);
+      if (!response.ok) {
+        throw new OidcError('provider_unavailable', `JWKS request failed with status ${response.status}`);
+      }
+      const { keys = [] } = await response.json() as { keys?: JsonWebKeyWithId[] };
+      this.jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+      jwk = findKey(keys);
+    }
+
+    if (!jwk) {
+      throw new OidcError('invalid_id_token', 'No matching signing key');
+    }
+
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  private async generateUsername(identity: OidcIdentity): Promise<string> {
+    const source = identity.preferredUsername || identity.email.split('@')[0];
+    let base = source.replace(/[^a-zA-Z0-9_.-]/g, '').slice(0, 24);
+    if (base.length < 3) {
+      base = `user${base}`;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = attempt === 0 ? base : `${base}${crypto.randomInt(1000, 10000)}`;
+      const existing = await prisma.user.findUnique({ where: { username: candidate }, select: { id: true } });
+      if (!existing) {
+        return candidate;
+      }
+    }
+
+    return `${base}${crypto.randomBytes(4).toString('hex')}`;
+  }
+}
+
+export const oidcService = new OidcService();
@@ -0,0 +1,151 @@
+import type { LlmProvider, LlmMessage, GenerationOptions, StreamChunk, ModelResponse, TokenUsage } from './llm';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;  // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;  // Local servers usually do not need one
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+// Classified by its status like the Gemini SDK's fetch errors
+export class ModelServerError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ModelServerError';
+  }
+}
+
+// Servers without a tokenizer endpoint get the same rough estimate the memory uses
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+
+function toTokenUsage(usage?: ChatCompletionUsage | null): TokenUsage | null {
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself,
+ * Ollama, llama.cpp, vLLM, LM Studio and similar self-hosted runtimes.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly modelName: string;
+  private readonly endpoint: string;
+
+  constructor(private readonly options: OpenAICompatibleConfig) {
+    this.modelName = options.model;
+    this.endpoint = `${options.baseUrl.replace(/\/$/, '')}/chat/completions`;
+  }
+
+  async *stream(messages: LlmMessage[], options: GenerationOptions = {}): AsyncGenerator<StreamChunk, void, unknown> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new Error('Model server returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: TokenUsage | null = null;
+
+    // Server-sent events: one "data: {...}" line per chunk, ended by "data: [DONE]"
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') continue;
+
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        // Usage arrives on its own final chunk when the server supports include_usage
+        usage = toTokenUsage(chunk.usage) ?? usage;
+
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          yield { text, isComplete: false };
+        }
+      }
+    }
+
+    yield { text: '', isComplete: true, usage };
+  }
+
+  async complete(messages: LlmMessage[], options: GenerationOptions = {}): Promise<ModelResponse> {
+    const response = await this.request(messages, options, false);
+    const completion = await response.json() as ChatCompletion;
+
+    return {
+      text: completion.choices?.[0]?.message?.content ?? '',
+      usage: toTokenUsage(completion.usage),
+    };
+  }
+
+  async countTokens(messages: LlmMessage[]): Promise<number> {
+    return messages.reduce(
+      (sum, message) => sum + Math.ceil(message.content.length / CHARS_PER_TOKEN) + TOKENS_PER_MESSAGE,
+      0
+    );
+  }
+
+  private async request(messages: LlmMessage[], options: GenerationOptions, stream: boolean): Promise<Response> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: options.model ?? this.modelName,
+        messages: messages.map(message => ({
+          role: message.role === 'USER' ? 'user' : 'assistant',
+          content: message.content,
+        })),
+        temperature: options.temperature ?? this.options.temperature,
+        top_p: options.topP,
+        max_tokens: Math.min(options.maxOutputTokens ?? Infinity, this.options.maxOutputTokens),
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ModelServerError(response.status, `Model server responded with ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    return response;
+  }
+}
@@ -1,10 +1,9 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { LRUCache } from 'lru-cache';
 import { createHash } from 'crypto';
 import { createLogger } from '../utils/logger';
 import { metrics } from '../middleware/metrics';
-import { config, getS3Config } from '../config';
+import { config, getStorageDriver } from '../config';
+import { ObjectStorage, PutObjectOptions, createObjectStorage } from './object-storage';
 
 const logger = createLogger();
 
@@ -35,8 +34,7 @@ interface CacheEntry {
 }
 
 export class OptimizedStorageManager {
-  private s3Client: S3Client;
-  private bucketName: string;
+  private storage: ObjectStorage | null = null;
   private codePrefix: string;
   
   // Multi-level caching with better performance
@@ -59,10 +57,7 @@ export class OptimizedStorageManager {
   private readonly batchDelay = 100; // ms
 
   constructor() {
-    this.bucketName = config.S3_BUCKET_NAME;
     this.codePrefix = config.S3_CODE_PREFIX;
-    
-    this.s3Client = new S3Client(getS3Config());
 
          // Initialize optimized LRU cache
      this.memoryCache = new LRUCache<string, CacheEntry>({
@@ -160,6 +155,26 @@ export class OptimizedStorageManager {
     }
   }
 
+  /**
+   * Forget an object that was deleted from S3, so identical code stored later
+   * is uploaded again instead of being deduplicated against the missing key
+   */
+  evict(s3Key: string): void {
+    for (const [hash, key] of this.hashIndex) {
+      if (key === s3Key) {
+        this.hashIndex.delete(hash);
+      }
+    }
+
+    for (const [cacheKey, entry] of this.memoryCache.entries()) {
+      if (entry.data?.s3Key === s3Key) {
+        this.memoryCache.delete(cacheKey);
+      }
+    }
+
+    this.memoryCache.delete(`retrieve:${s3Key}`);
+  }
+
   /**
    * Batch code storage for better performance
    */
@@ -228,16 +243,10 @@ export class OptimizedStorageManager {
     metrics.trackCacheHit(false, this.memoryCache.size);
 
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-      });
-
-      const response = await this.s3Client.send(command);
-      const content = await response.Body!.transformToString('utf-8');
+      const { content, metadata } = await this.getStorage().get(s3Key);
 
              // Decompress if needed
-       const decompressed = this.decompressCode(content, response.Metadata);
+       const decompressed = this.decompressCode(content, metadata);
 
       // Cache the result
       if (useCache) {
@@ -450,38 +459,19 @@ export class OptimizedStorageManager {
       .replace(/<script[^>]*>.*?<\/script>/gis, '<!-- REMOVED: script tag -->');
   }
 
-  private async uploadToS3(
-    key: string, 
-    content: string, 
-    options: {
-      contentType?: string;
-      metadata?: Record<string, string>;
-      tags?: Record<string, string>;
-      encrypt?: boolean;
-      cacheControl?: string;
-    } = {}
-  ): Promise<void> {
-    const command = new PutObjectCommand({
-      Bucket: this.bucketName,
-      Key: key,
-      Body: content,
-      ContentType: options.contentType || 'text/plain',
-      Metadata: options.metadata || {},
-      CacheControl: options.cacheControl,
-      ServerSideEncryption: options.encrypt ? 'AES256' : undefined,
-      Tagging: options.tags ? new URLSearchParams(options.tags).toString() : undefined,
-    });
-
-    await this.s3Client.send(command);
+  private async uploadToS3(key: string, content: string, options: PutObjectOptions = {}): Promise<void> {
+    await this.getStorage().put(key, content, options);
   }
 
   private async getPresignedUrl(s3Key: string, ttl: number = config.S3_PRESIGNED_URL_EXPIRES): Promise<string> {
-    const command = new GetObjectCommand({
-      Bucket: this.bucketName,
-      Key: s3Key,
-    });
+    return this.getStorage().getUrl(s3Key, ttl);
+  }
 
-    return getSignedUrl(this.s3Client, command, { expiresIn: ttl });
+  private getStorage(): ObjectStorage {
+    if (!this.storage) {
+      this.storage = createObjectStorage(getStorageDriver());
+    }
+    return this.storage;
   }
 
   private async refreshUrlIfNeeded(s3Key: string, currentUrl: string): Promise<string> {
@@ -0,0 +1,190 @@
+import { generateOpaqueToken, hashToken, UserRole } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+
+const logger = createLogger();
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'zpat_';
+
+export const TOKEN_SCOPES = [
+  'chat:write',
+  'conversations:read',
+  'conversations:write',
+  'artifacts:read',
+  'artifacts:write',
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// Characters of the token kept in clear text so users can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+// Avoid a write on every request; last-used is informational only
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface PersonalAccessTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+export interface AuthenticatedPersonalAccessToken {
+  tokenId: string;
+  scopes: TokenScope[];
+  user: {
+    id: string;
+    email: string;
+    username: string;
+    role: UserRole;
+    tokenVersion: number;
+  };
+}
+
+interface PersonalAccessTokenRecord {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+function parseScopes(scopes: string): TokenScope[] {
+  return scopes
+    .split(',')
+    .filter((scope): scope is TokenScope => (TOKEN_SCOPES as readonly string[]).includes(scope));
+}
+
+function toSummary(record: PersonalAccessTokenRecord): PersonalAccessTokenSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    tokenPrefix: record.tokenPrefix,
+    scopes: parseScopes(record.scopes),
+    lastUsedAt: record.lastUsedAt,
+    expiresAt: record.expiresAt,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Long-lived, scoped tokens for scripts and CI. Like other credentials only
+ * the hash is stored; the raw token is shown to the user once at creation.
+ */
+export class PersonalAccessTokenService {
+  isPersonalAccessToken(token: string): boolean {
+    return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+  }
+
+  /**
+   * Create a token and return it together with its stored summary
+   */
+  async create(
+    userId: string,
+    options: { name: string; scopes: TokenScope[]; expiresAt: Date | null }
+  ): Promise<{ token: string; summary: PersonalAccessTokenSummary }> {
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateOpaqueToken()}`;
+
+    const record = await prisma.personalAccessToken.create({
+      data: {
+        userId,
+        name: options.name,
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        tokenHash: hashToken(token),
+        scopes: Array.from(new Set(options.scopes)).join(','),
+        expiresAt: options.expiresAt,
+      },
+    });
+
+    logger.info('Personal access token created', { userId, tokenId: record.id, scopes: record.scopes });
+    return { token, summary: toSummary(record) };
+  }
+
+  /**
+   * List a user's tokens that have not been revoked
+   */
+  async list(userId: string): Promise<PersonalAccessTokenSummary[]> {
+    const records = await prisma.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return records.map((record: PersonalAccessTokenRecord) => toSummary(record));
+  }
+
+  /**
+   * Count tokens that can still be used
+   */
+  async countActive(userId: string): Promise<number> {
+    return prisma.personalAccessToken.count({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+  }
+
+  /**
+   * Revoke one of the user's tokens. Returns false if it does not exist.
+   */
+  async revoke(userId: string, tokenId: string): Promise<boolean> {
+    const { count } = await prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count > 0) {
+      logger.info('Personal access token revoked', { userId, tokenId });
+    }
+    return count > 0;
+  }
+
+  /**
+   * Resolve a presented token to its owner and scopes, or null if it is
+   * unknown, revoked or expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedPersonalAccessToken | null> {
+    const record = await prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: {
+        user: {
+          select: { id: true, email: true, username: true, role: true, tokenVersion: true, disabledAt: true },
+        },
+      },
+    });
+
+    if (!record || record.revokedAt || (record.expiresAt && record.expiresAt < new Date())) {
+      return null;
+    }
+
+    if (record.user.disabledAt) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!record.lastUsedAt || now - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      prisma.personalAccessToken
+        .update({ where: { id: record.id }, data: { lastUsedAt: new Date(now) } })
+        .catch((error: unknown) => logger.warn('Failed to update token last-used time', { tokenId: record.id, error }));
+    }
+
+    return {
+      tokenId: record.id,
+      scopes: parseScopes(record.scopes),
+      user: {
+        id: record.user.id,
+        email: record.user.email,
+        username: record.user.username,
+        role: record.user.role,
+        tokenVersion: record.user.tokenVersion,
+      },
+    };
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
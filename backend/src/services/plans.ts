@@ -0,0 +1,195 @@
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { creditService } from './credits';
+
+const logger = createLogger();
+
+export type PlanId = 'free' | 'pro' | 'team';
+
+export type PlanFeature =
+  | 'codeBuilds'   // Bundle generated code for previews
+  | 'teamCreation' // Create team workspaces
+  | 'apiAccess';   // Create personal access tokens
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  monthlyCredits: number;      // Balance is topped up to this at every refill
+  chatRequestsPerHour: number; // Sends and regenerations
+  maxOutputTokens: number;
+  features: Record<PlanFeature, boolean>;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    monthlyCredits: 20,
+    chatRequestsPerHour: 20,
+    maxOutputTokens: 4096,
+    features: { codeBuilds: true, teamCreation: true, apiAccess: false },
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    monthlyCredits: 500,
+    chatRequestsPerHour: 120,
+    maxOutputTokens: 8192,
+    features: { codeBuilds: true, teamCreation: true, apiAccess: true },
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    monthlyCredits: 1000,
+    chatRequestsPerHour: 240,
+    maxOutputTokens: 8192,
+    features: { codeBuilds: true, teamCreation: true, apiAccess: true },
+  },
+};
+
+export const PLAN_IDS = Object.keys(PLANS) as PlanId[];
+
+export interface EffectivePlan {
+  plan: Plan;
+  source: 'user' | 'team';
+  team: { id: string; name: string } | null; // The team the plan comes from
+}
+
+const REFILL_BATCH_SIZE = 100;
+
+export function getPlan(id: string | null | undefined): Plan {
+  return PLANS[id as PlanId] ?? PLANS.free;
+}
+
+// One calendar month later, clamped to the end of shorter months (Jan 31 -> Feb 28)
+function addMonth(date: Date): Date {
+  const next = new Date(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return next;
+}
+
+/**
+ * Plans decide a user's monthly credit allowance, chat rate limit, response
+ * length and features. Plans are assigned to users and to teams; members get
+ * the more generous of their own plan and their teams' plans.
+ */
+export class PlanService {
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * The plan that applies to a user
+   */
+  async effectivePlan(userId: string): Promise<EffectivePlan> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        planId: true,
+        memberships: { select: { team: { select: { id: true, name: true, planId: true } } } },
+      },
+    });
+
+    let effective: EffectivePlan = { plan: getPlan(user?.planId), source: 'user', team: null };
+
+    for (const { team } of (user?.memberships ?? []) as Array<{ team: { id: string; name: string; planId: string | null } }>) {
+      const teamPlan = team.planId ? getPlan(team.planId) : null;
+      if (teamPlan && teamPlan.monthlyCredits > effective.plan.monthlyCredits) {
+        effective = { plan: teamPlan, source: 'team', team: { id: team.id, name: team.name } };
+      }
+    }
+
+    return effective;
+  }
+
+  /**
+   * Top up every user whose refill is due to their plan's monthly allowance.
+   * Returns the number of users refilled.
+   */
+  async refillDue(now: Date = new Date()): Promise<number> {
+    let refilled = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const due = await prisma.user.findMany({
+        where: {
+          disabledAt: null,
+          OR: [{ nextRefillAt: null }, { nextRefillAt: { lte: now } }],
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        select: { id: true, nextRefillAt: true },
+        orderBy: { id: 'asc' },
+        take: REFILL_BATCH_SIZE,
+      });
+
+      for (const user of due as Array<{ id: string; nextRefillAt: Date | null }>) {
+        if (await this.refill(user, now)) refilled++;
+      }
+
+      if (due.length < REFILL_BATCH_SIZE) break;
+      cursor = due[due.length - 1].id;
+    }
+
+    if (refilled > 0) {
+      logger.info('Plan credits refilled', { refilled });
+    }
+
+    return refilled;
+  }
+
+  /**
+   * Run the refill job every PLAN_REFILL_INTERVAL_MINUTES, starting now
+   */
+  startRefillSchedule(): void {
+    const intervalMinutes = config.PLAN_REFILL_INTERVAL_MINUTES;
+    if (!intervalMinutes || this.refillTimer) return;
+
+    const run = () => {
+      this.refillDue().catch(error => logger.error('Plan refill job failed:', error));
+    };
+
+    run();
+    this.refillTimer = setInterval(run, intervalMinutes * 60 * 1000);
+    // Never keep the process alive just for the schedule
+    this.refillTimer.unref();
+  }
+
+  private async refill(user: { id: string; nextRefillAt: Date | null }, now: Date): Promise<boolean> {
+    // Periods missed while the job was not running are skipped, not granted
+    let nextRefillAt = addMonth(user.nextRefillAt ?? now);
+    while (nextRefillAt <= now) {
+      nextRefillAt = addMonth(nextRefillAt);
+    }
+
+    // Claim the refill, so concurrent runs (e.g. several instances) grant it once
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, nextRefillAt: user.nextRefillAt },
+      data: { nextRefillAt },
+    });
+    if (count === 0) return false;
+
+    const [{ plan }, current] = await Promise.all([
+      this.effectivePlan(user.id),
+      prisma.user.findUnique({ where: { id: user.id }, select: { credits: true } }),
+    ]);
+
+    const topUp = plan.monthlyCredits - (current?.credits ?? 0);
+    if (topUp <= 0) return false;
+
+    try {
+      await creditService.apply(user.id, {
+        type: 'GRANT',
+        amount: topUp,
+        description: `Monthly refill (${plan.name} plan)`,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to refill credits', { userId: user.id, error });
+      return false;
+    }
+  }
+}
+
+export const planService = new PlanService();
@@ -0,0 +1,48 @@
+import { config, ModelPricing } from '../config';
+import type { TokenUsage } from './llm';
+
+// Built-in prices; CREDIT_PRICING entries override or extend them
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  default: { promptCreditsPer1k: 0.1, completionCreditsPer1k: 0.4, minimumCredits: 1 },
+  'gemini-2.0-flash-exp': { promptCreditsPer1k: 0.1, completionCreditsPer1k: 0.4, minimumCredits: 1 },
+};
+
+/**
+ * Turns token usage into credits. A response costs its prompt and completion
+ * tokens at the model's per-1,000 rates, rounded up, and never less than the
+ * model's minimum.
+ */
+export class PricingService {
+  private readonly table: Record<string, ModelPricing> = { ...DEFAULT_PRICING, ...config.CREDIT_PRICING };
+
+  /**
+   * Prices for a model, falling back to the default entry
+   */
+  priceFor(model: string): ModelPricing {
+    return this.table[model] ?? this.table.default;
+  }
+
+  /**
+   * Credits to reserve before a response, when its size is not known yet
+   */
+  minimumCredits(model: string): number {
+    return this.priceFor(model).minimumCredits;
+  }
+
+  /**
+   * What a response costs. Responses without reported usage cost the minimum.
+   */
+  creditsFor(model: string, usage: TokenUsage | null): number {
+    const pricing = this.priceFor(model);
+    if (!usage) {
+      return pricing.minimumCredits;
+    }
+
+    const cost = (usage.promptTokens / 1000) * pricing.promptCreditsPer1k
+      + (usage.completionTokens / 1000) * pricing.completionCreditsPer1k;
+
+    return Math.max(pricing.minimumCredits, Math.ceil(cost));
+  }
+}
+
+export const pricingService = new PricingService();
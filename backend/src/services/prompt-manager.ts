@@ -11,6 +11,17 @@ export interface PromptContext {
   complexity?: 'simple' | 'medium' | 'complex';
   enableSecurity?: boolean;
   enableBuilding?: boolean;
+  customInstructions?: CustomInstructions;
+}
+
+/**
+ * Instructions written by users, from the broadest level to the most specific.
+ * Where they conflict, the more specific level wins.
+ */
+export interface CustomInstructions {
+  user: string | null;
+  workspace: string | null;     // The conversation's team; null in the personal workspace
+  conversation: string | null;
 }
 
 export interface PromptTemplate {
@@ -42,6 +53,7 @@ export class PromptManager {
     const languageRules = this.getLanguageRules(context.codeLanguage);
     const securityRules = context.enableSecurity ? this.securityRules : '';
     const buildingRules = context.enableBuilding ? this.buildingRules : '';
+    const customInstructions = this.formatCustomInstructions(context.customInstructions);
     
     const enhancedPrompt = this.buildEnhancedPrompt({
       userMessage: context.userMessage,
@@ -50,6 +62,7 @@ export class PromptManager {
       securityRules,
       buildingRules,
       complexity: context.complexity || 'medium',
+      customInstructions,
     });
 
     logger.info('Generated enhanced prompt', {
@@ -58,11 +71,27 @@ export class PromptManager {
       language: context.codeLanguage,
       enableSecurity: context.enableSecurity,
       enableBuilding: context.enableBuilding,
+      customInstructions: customInstructions.length > 0,
     });
 
     return enhancedPrompt;
   }
 
+  /**
+   * Prompt for a conversational (non-coding) message: the message itself,
+   * preceded by the user's custom instructions when there are any
+   */
+  generateConversationalPrompt(userMessage: string, customInstructions?: CustomInstructions): string {
+    const instructions = this.formatCustomInstructions(customInstructions);
+    if (!instructions) {
+      return userMessage;
+    }
+
+    return `${instructions}
+
+USER MESSAGE: ${userMessage}`;
+  }
+
   /**
    * Initialize base prompt templates
    */
@@ -433,6 +462,7 @@ BUILD OPTIMIZATION:
     securityRules,
     buildingRules,
     complexity,
+    customInstructions,
   }: {
     userMessage: string;
     template: PromptTemplate;
@@ -440,6 +470,7 @@ BUILD OPTIMIZATION:
     securityRules: string;
     buildingRules: string;
     complexity: string;
+    customInstructions: string;
   }): string {
     const complexityGuidance = this.getComplexityGuidance(complexity);
     
@@ -459,11 +490,36 @@ ${complexityGuidance}
 
 ${template.format}
 
+${customInstructions}
+
 USER REQUEST: ${userMessage}
 
 REMEMBER: Create ONE complete, production-ready file. NO separate files, NO project structures, NO multi-file solutions. Everything must be in a SINGLE code block.`;
   }
 
+  /**
+   * Format custom instructions, broadest level first so later ones take precedence
+   */
+  private formatCustomInstructions(instructions?: CustomInstructions): string {
+    if (!instructions) {
+      return '';
+    }
+
+    const sections = [
+      { heading: 'From the user', text: instructions.user },
+      { heading: 'From the workspace', text: instructions.workspace },
+      { heading: 'For this conversation', text: instructions.conversation },
+    ].filter(section => section.text);
+
+    if (sections.length === 0) {
+      return '';
+    }
+
+    return `CUSTOM INSTRUCTIONS:
+Follow these unless the request says otherwise. Where they conflict, later sections take precedence.
+${sections.map(section => `\n${section.heading}:\n${section.text}`).join('\n')}`;
+  }
+
   /**
    * Get complexity-specific guidance
    */
@@ -539,6 +595,22 @@ COMPLEXITY: MEDIUM
     
     return this.generatePrompt(context as PromptContext);
   }
+
+  /**
+   * Prompt for folding earlier turns of a conversation into its running summary
+   */
+  generateSummaryPrompt(previousSummary: string | null, messages: Array<{ role: string; content: string }>): string {
+    const transcript = messages
+      .map(msg => `${msg.role === 'USER' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    return `Summarize the conversation below so it can stand in for the original messages as context for later replies.
+
+Keep the user's goals, decisions, constraints and preferences, the names of files, functions and technologies discussed, and any open questions. Leave out pleasantries and code that is not needed to follow the conversation. Write in plain prose, in the third person, in no more than 300 words.
+${previousSummary ? `\nSUMMARY OF THE CONVERSATION SO FAR:\n${previousSummary}\n` : ''}
+MESSAGES TO ADD TO THE SUMMARY:
+${transcript}`;
+  }
 }
 
 export const promptManager = new PromptManager();
\ No newline at end of file
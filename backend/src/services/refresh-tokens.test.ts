@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { refreshTokenService } from './refresh-tokens';
+import { prisma } from '../utils/database';
+import { hashToken } from '../utils/auth';
+import { createUser } from '../test/factories';
+
+// A signed-in session and the first refresh token of its family
+async function signIn(userId: string) {
+  const session = await prisma.session.create({
+    data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+  });
+  return refreshTokenService.issue(userId, session.id);
+}
+
+async function findToken(token: string) {
+  return prisma.refreshToken.findUniqueOrThrow({ where: { tokenHash: hashToken(token) } });
+}
+
+describe('RefreshTokenService', () => {
+  it('stores only the hash of issued tokens', async () => {
+    const user = await createUser();
+
+    const issued = await refreshTokenService.issue(user.id);
+
+    const record = await findToken(issued.token);
+    expect(record.tokenHash).not.toBe(issued.token);
+    expect(record).toMatchObject({ userId: user.id, familyId: issued.familyId, revokedAt: null });
+  });
+
+  it('rotates a token into a successor in the same family', async () => {
+    const user = await createUser();
+    const first = await signIn(user.id);
+
+    const second = await refreshTokenService.rotate(first.token);
+
+    expect(second).toMatchObject({ userId: user.id, familyId: first.familyId });
+    expect(second!.token).not.toBe(first.token);
+    const rotated = await findToken(first.token);
+    expect(rotated.revokedAt).not.toBeNull();
+    expect(rotated.replacedById).toBe(second!.id);
+    expect((await findToken(second!.token)).revokedAt).toBeNull();
+  });
+
+  it('revokes the whole family and its session when a rotated token is reused', async () => {
+    const user = await createUser();
+    const first = await signIn(user.id);
+    const second = await refreshTokenService.rotate(first.token);
+
+    expect(await refreshTokenService.rotate(first.token)).toBeNull();
+
+    expect((await findToken(second!.token)).revokedAt).not.toBeNull();
+    expect(await refreshTokenService.rotate(second!.token)).toBeNull();
+    const session = await prisma.session.findUniqueOrThrow({ where: { id: first.familyId } });
+    expect(session.revokedAt).not.toBeNull();
+    expect(await prisma.auditEvent.count({ where: { action: 'auth.refresh_token_reused' } })).toBe(1);
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    const user = await createUser();
+    const issued = await signIn(user.id);
+    await prisma.refreshToken.update({
+      where: { id: issued.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await refreshTokenService.rotate('unknown')).toBeNull();
+    expect(await refreshTokenService.rotate(issued.token)).toBeNull();
+    expect(await prisma.refreshToken.count()).toBe(1);
+  });
+
+  it('treats a logged-out token as revoked, not reused', async () => {
+    const user = await createUser();
+    const issued = await signIn(user.id);
+
+    expect(await refreshTokenService.revoke(issued.token)).toEqual({ userId: user.id, familyId: issued.familyId });
+
+    expect(await refreshTokenService.rotate(issued.token)).toBeNull();
+    expect(await prisma.auditEvent.count()).toBe(0);
+    expect(await refreshTokenService.revoke('unknown')).toBeNull();
+  });
+
+  it("revokes all of a user's families except the caller's", async () => {
+    const user = await createUser();
+    const current = await signIn(user.id);
+    const other = await signIn(user.id);
+
+    expect(await refreshTokenService.revokeAllForUser(user.id, current.familyId)).toBe(1);
+
+    expect((await findToken(current.token)).revokedAt).toBeNull();
+    expect((await findToken(other.token)).revokedAt).not.toBeNull();
+    const sessions = await prisma.session.findMany({ where: { revokedAt: null } });
+    expect(sessions.map(session => session.id)).toEqual([current.familyId]);
+  });
+});
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { auditService } from './audit';
+
+const logger = createLogger();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IssuedRefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Opaque, rotating refresh tokens. Every login starts a token family; each
+ * refresh revokes the presented token and issues its successor in the same
+ * family. Presenting a token that was already rotated means it leaked, so the
+ * whole family is revoked and the user has to sign in again.
+ *
+ * A family is the refresh side of a session (see services/sessions), so
+ * revoking a family also ends that session.
+ */
+export class RefreshTokenService {
+  /**
+   * Issue a refresh token, starting a new family unless one is given
+   */
+  async issue(userId: string, familyId: string = uuidv4()): Promise<IssuedRefreshToken> {
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + config.REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+
+    const record = await prisma.refreshToken.create({
+      data: {
+        userId,
+        familyId,
+        tokenHash: hashToken(token),
+        expiresAt,
+      },
+    });
+
+    return { id: record.id, userId, familyId, token, expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for its successor. Returns null if the token is
+   * unknown, expired, revoked or being reused.
+   */
+  async rotate(token: string): Promise<IssuedRefreshToken | null> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    if (record.revokedAt) {
+      if (record.replacedById) {
+        await this.handleReuse(record.userId, record.familyId);
+      }
+      return null;
+    }
+
+    if (record.expiresAt < new Date()) {
+      return null;
+    }
+
+    // Only one request may rotate a given token; losing the race counts as reuse
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: record.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count !== 1) {
+      await this.handleReuse(record.userId, record.familyId);
+      return null;
+    }
+
+    const next = await this.issue(record.userId, record.familyId);
+    await prisma.refreshToken.update({
+      where: { id: record.id },
+      data: { replacedById: next.id },
+    });
+
+    logger.debug('Refresh token rotated', { userId: record.userId, familyId: record.familyId });
+    return next;
+  }
+
+  /**
+   * Revoke the family a token belongs to (logout). Unknown tokens are ignored
+   * and return null.
+   */
+  async revoke(token: string): Promise<{ userId: string; familyId: string } | null> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { userId: true, familyId: true },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    await this.revokeFamily(record.familyId);
+    return { userId: record.userId, familyId: record.familyId };
+  }
+
+  /**
+   * Revoke every active refresh token in a family and end its session
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    const revokedAt = new Date();
+    const [tokens] = await prisma.$transaction([
+      prisma.refreshToken.updateMany({
+        where: { familyId, revokedAt: null },
+        data: { revokedAt },
+      }),
+      prisma.session.updateMany({
+        where: { id: familyId, revokedAt: null },
+        data: { revokedAt },
+      }),
+    ]);
+    return tokens.count;
+  }
+
+  /**
+   * Revoke every active refresh token a user holds and end their sessions,
+   * optionally keeping one family (the caller's own session)
+   */
+  async revokeAllForUser(userId: string, exceptFamilyId?: string): Promise<number> {
+    const revokedAt = new Date();
+    const [tokens] = await prisma.$transaction([
+      prisma.refreshToken.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptFamilyId && { familyId: { not: exceptFamilyId } }),
+        },
+        data: { revokedAt },
+      }),
+      prisma.session.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptFamilyId && { id: { not: exceptFamilyId } }),
+        },
+        data: { revokedAt },
+      }),
+    ]);
+    return tokens.count;
+  }
+
+  private async handleReuse(userId: string, familyId: string): Promise<void> {
+    const revoked = await this.revokeFamily(familyId);
+    logger.warn('Refresh token reuse detected, token family revoked', { userId, familyId, revoked });
+    await auditService.record(null, {
+      action: 'auth.refresh_token_reused',
+      actor: { userId },
+      targetType: 'session',
+      targetId: familyId,
+      metadata: { revokedTokens: revoked },
+    });
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
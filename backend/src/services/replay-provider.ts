@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createLogger } from '../utils/logger';
+import { codeIntentDetector } from './code-intent-detector';
+import type { LlmProvider, LlmMessage, GenerationOptions, StreamChunk, ModelResponse, TokenUsage } from './llm';
+
+const logger = createLogger();
+
+// Same rough token estimate as the OpenAI-compatible provider
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+const MOCK_CHUNK_SIZE = 24;
+
+/**
+ * A recorded response. `messages` is kept so fixtures can be reviewed; only
+ * `key` is used to find them.
+ */
+export interface LlmFixture {
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  messages: LlmMessage[];
+  chunks: string[]; // Text exactly as the provider streamed it
+  usage: TokenUsage | null;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public key: string, public fixturePath: string) {
+    super(`No recorded response for this conversation (${fixturePath}). Record one with LLM_PROVIDER=record.`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Identifies a conversation: the hash of every message, prompt included
+ */
+export function transcriptKey(messages: LlmMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(({ role, content }) => [role, content])))
+    .digest('hex');
+}
+
+function estimateTokens(messages: LlmMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + Math.ceil(message.content.length / CHARS_PER_TOKEN) + TOKENS_PER_MESSAGE,
+    0
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Stops without a completion chunk once `signal` is aborted, like a cancelled model stream
+async function* replayChunks(
+  chunks: string[],
+  usage: TokenUsage | null,
+  delayMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk, void, unknown> {
+  for (const text of chunks) {
+    if (delayMs > 0) await sleep(delayMs);
+    if (signal?.aborted) return;
+    yield { text, isComplete: false };
+  }
+  yield { text: '', isComplete: true, usage };
+}
+
+const MOCK_COMPONENT = `import React, { useState } from 'react';
+
+export default function Counter() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <div style={{ fontFamily: 'sans-serif', padding: 24 }}>
+      <h1>Count: {count}</h1>
+      <button onClick={() => setCount(count + 1)}>Increment</button>
+      <button onClick={() => setCount(0)}>Reset</button>
+    </div>
+  );
+}`;
+
+/**
+ * Answers without a model. Code requests get a small React component, so
+ * extraction, bundling and the security scan all run; anything else gets a
+ * short text reply. The same conversation always gets the same response.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly modelName = 'mock';
+
+  constructor(private readonly delayMs: number = 0) {}
+
+  stream(messages: LlmMessage[], options: GenerationOptions = {}): AsyncGenerator<StreamChunk, void, unknown> {
+    const { chunks, usage } = this.respond(messages);
+    return replayChunks(chunks, usage, this.delayMs, options.signal);
+  }
+
+  async complete(messages: LlmMessage[]): Promise<ModelResponse> {
+    const { chunks, usage } = this.respond(messages);
+    return { text: chunks.join(''), usage };
+  }
+
+  async countTokens(messages: LlmMessage[]): Promise<number> {
+    return estimateTokens(messages);
+  }
+
+  private respond(messages: LlmMessage[]): { chunks: string[]; usage: TokenUsage } {
+    const prompt = messages[messages.length - 1]?.content ?? '';
+    const reference = transcriptKey(messages).slice(0, 8);
+
+    const text = codeIntentDetector.analyzeUserIntent(prompt).isCodeRelated
+      ? `Here is a counter component (mock response ${reference}).\n\n\`\`\`jsx\n${MOCK_COMPONENT}\n\`\`\`\n\nClick the buttons to change the count.`
+      : `This is a mock response (${reference}). The conversation has ${messages.length} message(s); the last one was ${prompt.length} characters long.`;
+
+    const chunks: string[] = [];
+    for (let index = 0; index < text.length; index += MOCK_CHUNK_SIZE) {
+      chunks.push(text.slice(index, index + MOCK_CHUNK_SIZE));
+    }
+
+    const promptTokens = estimateTokens(messages);
+    const completionTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+    return { chunks, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+  }
+}
+
+/**
+ * Serves responses recorded by `RecordingProvider`, chunk for chunk.
+ * Conversations without a fixture fail with `FixtureNotFoundError`.
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly name = 'replay';
+  readonly modelName = 'replay';
+  private readonly fixturesDir: string;
+
+  constructor(fixturesDir: string, private readonly delayMs: number = 0) {
+    this.fixturesDir = path.resolve(process.cwd(), fixturesDir);
+  }
+
+  async *stream(messages: LlmMessage[], options: GenerationOptions = {}): AsyncGenerator<StreamChunk, void, unknown> {
+    const fixture = await this.load(messages);
+    yield* replayChunks(fixture.chunks, fixture.usage, this.delayMs, options.signal);
+  }
+
+  async complete(messages: LlmMessage[]): Promise<ModelResponse> {
+    const fixture = await this.load(messages);
+    return { text: fixture.chunks.join(''), usage: fixture.usage };
+  }
+
+  async countTokens(messages: LlmMessage[]): Promise<number> {
+    return estimateTokens(messages);
+  }
+
+  private async load(messages: LlmMessage[]): Promise<LlmFixture> {
+    const key = transcriptKey(messages);
+    const fixturePath = path.join(this.fixturesDir, `${key}.json`);
+
+    try {
+      return JSON.parse(await fs.readFile(fixturePath, 'utf8')) as LlmFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn('No LLM fixture for conversation', { key, fixturePath });
+        throw new FixtureNotFoundError(key, fixturePath);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Passes requests to a real provider and writes each response to a fixture
+ * file that `ReplayProvider` can serve later. Existing fixtures are overwritten.
+ */
+export class RecordingProvider implements LlmProvider {
+  readonly name = 'record';
+  private readonly fixturesDir: string;
+
+  constructor(private readonly inner: LlmProvider, fixturesDir: string) {
+    this.fixturesDir = path.resolve(process.cwd(), fixturesDir);
+  }
+
+  get modelName(): string {
+    return this.inner.modelName;
+  }
+
+  async *stream(messages: LlmMessage[], options?: GenerationOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    const chunks: string[] = [];
+
+    for await (const chunk of this.inner.stream(messages, options)) {
+      if (chunk.isComplete) {
+        await this.save(messages, chunks, chunk.usage ?? null);
+      } else {
+        chunks.push(chunk.text);
+      }
+      yield chunk;
+    }
+  }
+
+  async complete(messages: LlmMessage[], options?: GenerationOptions): Promise<ModelResponse> {
+    const response = await this.inner.complete(messages, options);
+    await this.save(messages, [response.text], response.usage);
+    return response;
+  }
+
+  countTokens(messages: LlmMessage[]): Promise<number> {
+    return this.inner.countTokens(messages);
+  }
+
+  private async save(messages: LlmMessage[], chunks: string[], usage: TokenUsage | null): Promise<void> {
+    const fixture: LlmFixture = {
+      key: transcriptKey(messages),
+      provider: this.inner.name,
+      model: this.inner.modelName,
+      recordedAt: new Date().toISOString(),
+      messages,
+      chunks,
+      usage,
+    };
+
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(path.join(this.fixturesDir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2), 'utf8');
+
+    logger.info('LLM response recorded', { key: fixture.key, chunks: chunks.length });
+  }
+}
@@ -1,26 +1,16 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../utils/logger';
+import { getStorageDriver } from '../config';
+import { ObjectStorage, createObjectStorage } from './object-storage';
 
 const logger = createLogger();
 
 export class S3Service {
-  private s3Client: S3Client;
-  private bucketName: string;
+  private storage: ObjectStorage | null = null;
   private codePrefix: string;
 
   constructor() {
-    this.bucketName = process.env.S3_BUCKET_NAME!;
     this.codePrefix = process.env.S3_CODE_PREFIX || 'code-artifacts/';
-    
-    this.s3Client = new S3Client({
-      region: process.env.AWS_REGION || 'us-east-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
   }
 
   /**
@@ -37,19 +27,14 @@ export class S3Service {
       
       const buffer = Buffer.from(code, 'utf-8');
       
-      const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-        Body: buffer,
-        ContentType: this.getContentType(language),
-        ContentEncoding: 'utf-8',
-        Metadata: {
+      await this.getStorage().put(s3Key, buffer, {
+        contentType: this.getContentType(language),
+        contentEncoding: 'utf-8',
+        metadata: {
           language: language,
           uploadedAt: new Date().toISOString(),
         },
       });
-
-      await this.s3Client.send(command);
       
       // Generate presigned URL for access (valid for 1 hour)
       const s3Url = await this.getPresignedUrl(s3Key, 3600);
@@ -72,18 +57,7 @@ export class S3Service {
    */
   async getCode(s3Key: string): Promise<string> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-      });
-
-      const response = await this.s3Client.send(command);
-      
-      if (!response.Body) {
-        throw new Error('No content found in S3 object');
-      }
-
-      const content = await response.Body.transformToString('utf-8');
+      const { content } = await this.getStorage().get(s3Key);
       return content;
     } catch (error) {
       logger.error(`Error getting code from S3 (${s3Key}):`, error);
@@ -96,12 +70,7 @@ export class S3Service {
    */
   async getPresignedUrl(s3Key: string, expiresIn: number = 3600): Promise<string> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-      });
-
-      const url = await getSignedUrl(this.s3Client, command, { expiresIn });
+      const url = await this.getStorage().getUrl(s3Key, expiresIn);
       return url;
     } catch (error) {
       logger.error(`Error generating presigned URL for ${s3Key}:`, error);
@@ -114,12 +83,7 @@ export class S3Service {
    */
   async deleteCode(s3Key: string): Promise<void> {
     try {
-      const command = new DeleteObjectCommand({
-        Bucket: this.bucketName,
-        Key: s3Key,
-      });
-
-      await this.s3Client.send(command);
+      await this.getStorage().delete(s3Key);
       logger.info(`Code deleted from S3: ${s3Key}`);
     } catch (error) {
       logger.error(`Error deleting code from S3 (${s3Key}):`, error);
@@ -151,19 +115,14 @@ export class S3Service {
       
       const manifestBuffer = Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8');
       
-      const manifestCommand = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: `${projectS3Key}/project.json`,
-        Body: manifestBuffer,
-        ContentType: 'application/json',
-        Metadata: {
+      await this.getStorage().put(`${projectS3Key}/project.json`, manifestBuffer, {
+        contentType: 'application/json',
+        metadata: {
           projectId,
           projectName,
           fileCount: files.length.toString(),
         },
       });
-
-      await this.s3Client.send(manifestCommand);
       
       // Upload individual files
       const uploadedFiles = [];
@@ -172,20 +131,15 @@ export class S3Service {
         const fileS3Key = `${projectS3Key}/${file.fileName}`;
         const buffer = Buffer.from(file.content, 'utf-8');
         
-        const command = new PutObjectCommand({
-          Bucket: this.bucketName,
-          Key: fileS3Key,
-          Body: buffer,
-          ContentType: this.getContentType(file.language),
-          ContentEncoding: 'utf-8',
-          Metadata: {
+        await this.getStorage().put(fileS3Key, buffer, {
+          contentType: this.getContentType(file.language),
+          contentEncoding: 'utf-8',
+          metadata: {
             projectId,
             fileName: file.fileName,
             language: file.language,
           },
         });
-
-        await this.s3Client.send(command);
         
         const fileS3Url = await this.getPresignedUrl(fileS3Key, 3600);
         
@@ -218,25 +172,14 @@ export class S3Service {
   async getProject(projectS3Key: string): Promise<{ manifest: any; files: Array<{ fileName: string; content: string }> }> {
     try {
       // Get manifest
-      const manifestCommand = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: `${projectS3Key}/project.json`,
-      });
-
-      const manifestResponse = await this.s3Client.send(manifestCommand);
-      const manifest = JSON.parse(await manifestResponse.Body!.transformToString('utf-8'));
+      const manifestObject = await this.getStorage().get(`${projectS3Key}/project.json`);
+      const manifest = JSON.parse(manifestObject.content);
       
       // Get all files
       const files = [];
       
       for (const fileInfo of manifest.files) {
-        const fileCommand = new GetObjectCommand({
-          Bucket: this.bucketName,
-          Key: `${projectS3Key}/${fileInfo.fileName}`,
-        });
-
-        const fileResponse = await this.s3Client.send(fileCommand);
-        const content = await fileResponse.Body!.transformToString('utf-8');
+        const { content } = await this.getStorage().get(`${projectS3Key}/${fileInfo.fileName}`);
         
         files.push({
           fileName: fileInfo.fileName,
@@ -267,20 +210,15 @@ export class S3Service {
       
       const buffer = Buffer.from(builtCode, 'utf-8');
       
-      const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: buildS3Key,
-        Body: buffer,
-        ContentType: 'application/javascript',
-        ContentEncoding: 'utf-8',
-        Metadata: {
+      await this.getStorage().put(buildS3Key, buffer, {
+        contentType: 'application/javascript',
+        contentEncoding: 'utf-8',
+        metadata: {
           buildType: buildType,
           originalKey: originalS3Key,
           builtAt: new Date().toISOString(),
         },
       });
-
-      await this.s3Client.send(command);
       
       const s3Url = await this.getPresignedUrl(buildS3Key, 3600);
       
@@ -365,6 +303,13 @@ export class S3Service {
   async refreshPresignedUrl(s3Key: string, expiresIn: number = 3600): Promise<string> {
     return this.getPresignedUrl(s3Key, expiresIn);
   }
+
+  private getStorage(): ObjectStorage {
+    if (!this.storage) {
+      this.storage = createObjectStorage(getStorageDriver());
+    }
+    return this.storage;
+  }
 }
 
 export const s3Service = new S3Service();
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { createLogger } from '../utils/logger';
+import { metrics } from '../middleware/metrics';
 
 const logger = createLogger();
 
@@ -100,6 +101,7 @@ export class SecurityValidator {
       };
 
       logger.info(`Security scan completed: ${issues.length} issues found, score: ${score}`);
+      metrics.trackSecurityScan(score);
       return result;
 
     } catch (error) {
@@ -0,0 +1,139 @@
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { refreshTokenService } from './refresh-tokens';
+
+const logger = createLogger();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Avoid a write on every request; last-seen is informational only
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+const USER_AGENT_MAX_LENGTH = 512;
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+interface SessionRecord {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+
+function clientData(client: SessionClient) {
+  return {
+    userAgent: client.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+    ipAddress: client.ipAddress ?? null,
+  };
+}
+
+/**
+ * Signed-in browser sessions. Each login creates a session whose id doubles as
+ * the refresh token family id and is embedded in the access tokens it issues,
+ * so revoking a session cuts off both refreshes and existing access tokens.
+ */
+export class SessionService {
+  async create(userId: string, client: SessionClient): Promise<{ id: string; expiresAt: Date }> {
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        ...clientData(client),
+        expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL_DAYS * DAY_MS),
+      },
+    });
+
+    return { id: session.id, expiresAt: session.expiresAt };
+  }
+
+  /**
+   * Whether access tokens for this session are still accepted. Also records activity.
+   */
+  async validate(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true, lastSeenAt: true },
+    });
+
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt < new Date()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a token refresh. Families started before session tracking get a session here.
+   */
+  async recordRefresh(sessionId: string, userId: string, client: SessionClient, expiresAt: Date): Promise<void> {
+    const data = { ...clientData(client), lastSeenAt: new Date(), expiresAt };
+
+    await prisma.session.upsert({
+      where: { id: sessionId },
+      update: data,
+      create: { id: sessionId, userId, ...data },
+    });
+  }
+
+  /**
+   * Active sessions, most recently used first
+   */
+  async list(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: 'desc' },
+      select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true },
+    });
+
+    return sessions.map((session: SessionRecord) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Sign out one session. Returns false if the user has no such active session.
+   */
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return false;
+    }
+
+    await refreshTokenService.revokeFamily(session.id);
+    logger.info('Session revoked', { userId, sessionId });
+    return true;
+  }
+
+  /**
+   * Sign out every session of a user, optionally keeping the caller's own
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<void> {
+    await refreshTokenService.revokeAllForUser(userId, exceptSessionId);
+    logger.info('Sessions revoked', { userId, keptSessionId: exceptSessionId });
+  }
+}
+
+export const sessionService = new SessionService();
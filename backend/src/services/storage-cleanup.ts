@@ -0,0 +1,57 @@
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { s3Service } from './s3';
+import { optimizedStorageManager } from './optimized-storage-manager';
+
+const logger = createLogger();
+
+export interface StorageCleanupResult {
+  deleted: number;
+  retained: number; // Still referenced by another artifact
+  failed: number;
+}
+
+/**
+ * Collect the stored code and bundled HTML keys of a set of artifacts
+ */
+export function collectStorageKeys(artifacts: Array<{ s3Key: string; bundledHtmlKey?: string | null }>): Set<string> {
+  const keys = new Set<string>();
+  for (const artifact of artifacts) {
+    keys.add(artifact.s3Key);
+    if (artifact.bundledHtmlKey) {
+      keys.add(artifact.bundledHtmlKey);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Delete S3 objects whose artifacts are gone. Call after the database rows are
+ * deleted: storage is content-addressed, so an object is kept while any other
+ * artifact still points at it.
+ */
+export async function deleteUnreferencedObjects(keys: Iterable<string>): Promise<StorageCleanupResult> {
+  const result: StorageCleanupResult = { deleted: 0, retained: 0, failed: 0 };
+
+  for (const s3Key of keys) {
+    const stillReferenced = await prisma.codeArtifact.count({
+      where: { OR: [{ s3Key }, { bundledHtmlKey: s3Key }] },
+    });
+
+    if (stillReferenced > 0) {
+      result.retained++;
+      continue;
+    }
+
+    try {
+      await s3Service.deleteCode(s3Key);
+      optimizedStorageManager.evict(s3Key);
+      result.deleted++;
+    } catch (error) {
+      result.failed++;
+      logger.error('Failed to delete S3 object', { s3Key, error });
+    }
+  }
+
+  return result;
+}
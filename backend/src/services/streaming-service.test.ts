@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StreamingService, StreamSessionError, StreamEvent } from './streaming-service';
+
+/**
+ * Stands in for an SSE response. `drop()` is the client going away; `end()`
+ * is the server finishing the response.
+ */
+class FakeResponse extends EventEmitter {
+  statusCode = 0;
+  writableFinished = false;
+  private readonly written: string[] = [];
+
+  writeHead(statusCode: number) {
+    this.statusCode = statusCode;
+    return this;
+  }
+
+  write(chunk: string) {
+    this.written.push(chunk);
+    return true;
+  }
+
+  end() {
+    this.writableFinished = true;
+    this.emit('close');
+  }
+
+  drop() {
+    this.emit('close');
+  }
+
+  get events(): StreamEvent[] {
+    return this.written
+      .flatMap(chunk => chunk.split('\n'))
+      .filter(line => line.startsWith('data: '))
+      .map(line => JSON.parse(line.slice('data: '.length)));
+  }
+
+  get texts(): string[] {
+    return this.events.map(event => event.data.text).filter(Boolean);
+  }
+}
+
+const OWNER = 'user-1';
+
+describe('StreamingService', () => {
+  let service: StreamingService;
+  let response: FakeResponse;
+
+  function start(sessionId = 'session-1') {
+    response = new FakeResponse();
+    return service.createStreamSession(sessionId, response as unknown as Response, { ownerId: OWNER });
+  }
+
+  function send(sessionId: string, text: string) {
+    service['sendEvent'](sessionId, { type: 'chunk', data: { text } });
+  }
+
+  function resume(sessionId: string, lastEventId?: string, userId = OWNER) {
+    const next = new FakeResponse();
+    service.resumeSession(sessionId, userId, next as unknown as Response, lastEventId);
+    return next;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    service = new StreamingService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the events a dropped client missed, then continues live', () => {
+    start();
+    send('session-1', 'one');
+    const lastSeen = response.events[response.events.length - 1].id;
+    response.drop();
+    send('session-1', 'two');
+
+    const resumed = resume('session-1', lastSeen);
+    send('session-1', 'three');
+
+    expect(response.texts).toEqual(['one']);
+    expect(resumed.statusCode).toBe(200);
+    expect(resumed.texts).toEqual(['two', 'three']);
+  });
+
+  it('replays everything without a Last-Event-ID', () => {
+    start();
+    send('session-1', 'one');
+    response.drop();
+
+    const resumed = resume('session-1');
+
+    expect(resumed.events.map(event => event.data.type ?? event.data.text)).toEqual(['connection', 'one']);
+  });
+
+  it('refuses to resume past events it no longer has', () => {
+    start();
+
+    expect(() => resume('session-1', 'unknown-event')).toThrow(StreamSessionError);
+    expect(() => resume('session-1', 'unknown-event')).toThrow(/no longer available/);
+  });
+
+  it("does not resume other users' or unknown sessions", () => {
+    start();
+
+    expect(() => resume('session-1', undefined, 'user-2')).toThrow(/not found/);
+    expect(() => resume('session-2')).toThrow(/not found/);
+  });
+
+  it('aborts the generation when a dropped client does not come back in time', () => {
+    const session = start();
+    response.drop();
+
+    vi.advanceTimersByTime(29_000);
+    expect(session.abortController.signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(session.abortController.signal.aborted).toBe(true);
+    expect(session.abortController.signal.reason).toBe('client_disconnected');
+  });
+
+  it('keeps generating for a client that resumes in time', () => {
+    const session = start();
+    response.drop();
+    vi.advanceTimersByTime(10_000);
+
+    resume('session-1');
+    vi.advanceTimersByTime(60_000);
+
+    expect(session.abortController.signal.aborted).toBe(false);
+  });
+
+  it('delivers the final event to a client that dropped just before the end', () => {
+    start();
+    response.drop();
+    service.closeSession('session-1', 'completed', { messageId: 'message-1' });
+
+    const resumed = resume('session-1');
+
+    expect(resumed.events[resumed.events.length - 1]).toMatchObject({
+      type: 'complete',
+      data: { reason: 'completed', messageId: 'message-1' },
+    });
+    expect(resumed.writableFinished).toBe(true);
+  });
+
+  it('forgets finished sessions once the reconnect window has passed', () => {
+    start();
+    service.closeSession('session-1', 'completed');
+
+    vi.advanceTimersByTime(30_000);
+
+    expect(() => resume('session-1')).toThrow(/not found/);
+  });
+
+  it('lets only the owner cancel a running session', () => {
+    const session = start();
+
+    expect(service.cancelSession('session-1', 'user-2')).toBe(false);
+    expect(service.cancelSession('session-1', OWNER)).toBe(true);
+
+    expect(session.abortController.signal.reason).toBe('cancelled');
+    // The route still sends its final event on the open stream
+    expect(response.writableFinished).toBe(false);
+  });
+});
@@ -17,6 +17,15 @@ export interface StreamEvent {
   retryCount?: number;
 }
 
+export type StreamSessionErrorCode = 'not_found' | 'history_lost';
+
+export class StreamSessionError extends Error {
+  constructor(public readonly code: StreamSessionErrorCode, message: string) {
+    super(message);
+    this.name = 'StreamSessionError';
+  }
+}
+
 export interface StreamOptions {
   enableArtifactProcessing?: boolean;
   enableBuilding?: boolean;
@@ -24,6 +33,7 @@ export interface StreamOptions {
   maxRetries?: number;
   timeout?: number;
   compression?: boolean;
+  ownerId?: string; // User allowed to cancel the session
 }
 
 export interface StreamSession {
@@ -33,16 +43,22 @@ export interface StreamSession {
   eventHistory: StreamEvent[];
   startTime: number;
   lastActivity: number;
-  isActive: boolean;
+  isActive: boolean;   // False once the session is closed
+  connected: boolean;  // Whether `response` is still open; events are recorded either way
   artifactsProcessed: number;
   projectsProcessed: number;
   totalChunks: number;
+  // Aborted when the client cancels or disconnects; the reason says which
+  abortController: AbortController;
+  reconnectTimer?: NodeJS.Timeout;
 }
 
 export class StreamingService extends EventEmitter {
   private sessions = new Map<string, StreamSession>();
   private readonly maxSessions = 100;
   private readonly sessionTimeout = 300000; // 5 minutes
+  private readonly reconnectTimeout = 30000; // How long a dropped client has to resume
+  private readonly maxEventHistory = 1000;
   private cleanupInterval?: NodeJS.Timeout;
 
   constructor() {
@@ -58,17 +74,7 @@ export class StreamingService extends EventEmitter {
     response: Response,
     options: StreamOptions = {}
   ): StreamSession {
-    // Set SSE headers with enhanced configuration
-    response.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache, no-store, must-revalidate',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control, Content-Type',
-      'Access-Control-Expose-Headers': 'X-Stream-Session-Id',
-      'X-Stream-Session-Id': sessionId,
-      'X-Accel-Buffering': 'no', // Nginx optimization
-    });
+    this.writeHeaders(sessionId, response);
 
     const session: StreamSession = {
       id: sessionId,
@@ -86,9 +92,11 @@ export class StreamingService extends EventEmitter {
       startTime: Date.now(),
       lastActivity: Date.now(),
       isActive: true,
+      connected: true,
       artifactsProcessed: 0,
       projectsProcessed: 0,
       totalChunks: 0,
+      abortController: new AbortController(),
     };
 
     // Cleanup old sessions if needed
@@ -97,6 +105,7 @@ export class StreamingService extends EventEmitter {
     }
 
     this.sessions.set(sessionId, session);
+    this.trackConnection(session, response);
 
     // Send initial connection event
     this.sendEvent(sessionId, {
@@ -623,14 +632,16 @@ export class StreamingService extends EventEmitter {
     } as StreamEvent;
 
     try {
-      const eventString = `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
-      session.response.write(eventString);
+      // Recorded while the client is away too, so it can catch up when it resumes
       session.eventHistory.push(event);
       session.lastActivity = Date.now();
+      if (session.connected) {
+        session.response.write(this.formatEvent(event));
+      }
 
-      // Keep only last 100 events in history
-      if (session.eventHistory.length > 100) {
-        session.eventHistory = session.eventHistory.slice(-100);
+      // Keep only the most recent events in history
+      if (session.eventHistory.length > this.maxEventHistory) {
+        session.eventHistory = session.eventHistory.slice(-this.maxEventHistory);
       }
 
     } catch (error) {
@@ -640,24 +651,91 @@ export class StreamingService extends EventEmitter {
   }
 
   /**
-   * Close streaming session
+   * Reattach a client that lost its connection. Events after `lastEventId`
+   * (all of them without one) are replayed, then live delivery continues on
+   * `response`. Finished sessions are replayed and ended.
    */
-  closeSession(sessionId: string, reason: string = 'client_request'): void {
+  resumeSession(sessionId: string, userId: string, response: Response, lastEventId?: string): void {
     const session = this.sessions.get(sessionId);
-    if (!session) return;
+    if (!session || session.options.ownerId !== userId) {
+      throw new StreamSessionError('not_found', 'Stream session not found');
+    }
+
+    const resumeIndex = lastEventId
+      ? session.eventHistory.findIndex(event => event.id === lastEventId) + 1
+      : 0;
+    if (resumeIndex === 0 && lastEventId) {
+      throw new StreamSessionError('history_lost', 'The events after Last-Event-ID are no longer available');
+    }
+
+    if (session.connected) {
+      session.response.end();
+    }
+    if (session.reconnectTimer) {
+      clearTimeout(session.reconnectTimer);
+      session.reconnectTimer = undefined;
+    }
+
+    this.writeHeaders(sessionId, response);
+    session.response = response;
+    session.connected = true;
+    this.trackConnection(session, response);
+
+    for (const event of session.eventHistory.slice(resumeIndex)) {
+      response.write(this.formatEvent(event));
+    }
+
+    if (!session.isActive) {
+      response.end();
+      session.connected = false;
+    }
+
+    logger.info(`Stream session resumed: ${sessionId}`, { replayedEvents: session.eventHistory.length - resumeIndex });
+  }
+
+  /**
+   * Cancel a session on behalf of its owner. The stream stays open so the
+   * route can send its final event. Returns false for unknown or closed sessions.
+   */
+  cancelSession(sessionId: string, userId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || !session.isActive || session.options.ownerId !== userId) return false;
+
+    this.abortSession(sessionId, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Close streaming session. `data` is added to the final complete event.
+   * The session is kept for a while afterwards so a client that dropped
+   * just before the end can still resume and get that event.
+   */
+  closeSession(sessionId: string, reason: string = 'client_request', data: Record<string, unknown> = {}): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || !session.isActive) return;
 
     try {
       // Send final event
-      if (session.isActive) {
-        session.response.write(`data: ${JSON.stringify({
-          type: 'complete',
-          data: { reason, sessionId },
-        })}\n\n`);
-      }
+      this.sendEvent(sessionId, {
+        type: 'complete',
+        data: { ...data, reason, sessionId },
+      });
 
-      session.response.end();
+      if (session.connected) {
+        session.response.end();
+        session.connected = false;
+      }
+      if (session.reconnectTimer) {
+        clearTimeout(session.reconnectTimer);
+      }
       session.isActive = false;
-      this.sessions.delete(sessionId);
+      session.abortController.abort(reason);
+
+      setTimeout(() => {
+        if (this.sessions.get(sessionId) === session) {
+          this.sessions.delete(sessionId);
+        }
+      }, this.reconnectTimeout);
 
       logger.info(`Stream session closed: ${sessionId} (${reason})`);
 
@@ -703,6 +781,48 @@ export class StreamingService extends EventEmitter {
 
   // Private helper methods
 
+  private abortSession(sessionId: string, reason: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.abortController.signal.aborted) return;
+
+    session.abortController.abort(reason);
+    logger.info(`Stream session aborted: ${sessionId} (${reason})`);
+  }
+
+  private writeHeaders(sessionId: string, response: Response): void {
+    // Set SSE headers with enhanced configuration
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Cache-Control, Content-Type, Last-Event-ID',
+      'Access-Control-Expose-Headers': 'X-Stream-Session-Id',
+      'X-Stream-Session-Id': sessionId,
+      'X-Accel-Buffering': 'no', // Nginx optimization
+    });
+  }
+
+  private formatEvent(event: StreamEvent): string {
+    return `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+  }
+
+  // A dropped connection gets `reconnectTimeout` to resume before the generation is aborted
+  private trackConnection(session: StreamSession, response: Response): void {
+    response.on('close', () => {
+      if (response.writableFinished || session.response !== response || !session.isActive) return;
+
+      session.connected = false;
+      session.reconnectTimer = setTimeout(() => {
+        session.reconnectTimer = undefined;
+        if (!session.connected) {
+          this.abortSession(session.id, 'client_disconnected');
+        }
+      }, this.reconnectTimeout);
+      logger.info(`Stream session disconnected: ${session.id}`);
+    });
+  }
+
   private isBuildable(artifact: CodeArtifactEnhanced): boolean {
     const buildableTypes = ['REACT', 'JAVASCRIPT', 'HTML'];
     const buildableLanguages = ['javascript', 'typescript', 'jsx', 'tsx', 'react'];
@@ -739,6 +859,7 @@ export class StreamingService extends EventEmitter {
 
     sessionsToClose.forEach(sessionId => {
       this.closeSession(sessionId, 'timeout');
+      this.sessions.delete(sessionId);
     });
 
     if (sessionsToClose.length > 0) {
@@ -759,6 +880,7 @@ export class StreamingService extends EventEmitter {
 
     if (oldestSessionId) {
       this.closeSession(oldestSessionId, 'capacity_limit');
+      this.sessions.delete(oldestSessionId);
     }
   }
 
@@ -0,0 +1,475 @@
+import type { Prisma } from '@prisma/client';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+import { collectStorageKeys, deleteUnreferencedObjects, StorageCleanupResult } from './storage-cleanup';
+
+const logger = createLogger();
+
+// Mirrors the TeamRole enum in schema.prisma
+export type TeamRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+// Roles that may rename the team, manage members and invitations
+export const TEAM_MANAGER_ROLES: TeamRole[] = ['OWNER', 'ADMIN'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TeamErrorCode = 'not_found' | 'forbidden' | 'conflict' | 'invalid';
+
+export class TeamError extends Error {
+  constructor(public readonly code: TeamErrorCode, message: string) {
+    super(message);
+    this.name = 'TeamError';
+  }
+}
+
+/**
+ * The workspace a request operates in: a team, or the user's personal workspace
+ */
+export interface Workspace {
+  teamId: string | null;
+  role: TeamRole | null; // The user's role in the team; null for the personal workspace
+}
+
+export const PERSONAL_WORKSPACE: Workspace = { teamId: null, role: null };
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  role: TeamRole;
+  memberCount: number;
+  createdAt: Date;
+}
+
+export interface TeamMember {
+  userId: string;
+  username: string;
+  email: string;
+  role: TeamRole;
+  joinedAt: Date;
+}
+
+export interface TeamInvitationSummary {
+  id: string;
+  role: TeamRole;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: Date;
+  createdAt: Date;
+  invitedBy: string | null;
+}
+
+export interface CreateInvitationInput {
+  role: Exclude<TeamRole, 'OWNER'>;
+  expiresInDays: number;
+  maxUses: number | null;
+}
+
+const invitationInclude = {
+  team: { select: { id: true, name: true } },
+  invitedBy: { select: { username: true } },
+} satisfies Prisma.TeamInvitationInclude;
+
+type InvitationRecord = Prisma.TeamInvitationGetPayload<{ include: typeof invitationInclude }>;
+
+/**
+ * Conversations a user may read and continue: their personal conversations and
+ * every conversation of a team they belong to, whatever the active workspace
+ */
+export function accessibleConversationsWhere(userId: string) {
+  return {
+    OR: [
+      { userId, teamId: null },
+      { team: { memberships: { some: { userId } } } },
+    ],
+  };
+}
+
+/**
+ * Conversations a user may rename or delete: their own, plus every conversation
+ * of a team they manage
+ */
+export function manageableConversationsWhere(userId: string) {
+  return {
+    OR: [
+      { userId, teamId: null },
+      { userId, team: { memberships: { some: { userId } } } },
+      { team: { memberships: { some: { userId, role: { in: TEAM_MANAGER_ROLES } } } } },
+    ],
+  };
+}
+
+/**
+ * Conversations listed in a workspace
+ */
+export function workspaceConversationsWhere(userId: string, workspace: Workspace) {
+  return workspace.teamId ? { teamId: workspace.teamId } : { userId, teamId: null };
+}
+
+export function isTeamManager(role: TeamRole | null): boolean {
+  return !!role && TEAM_MANAGER_ROLES.includes(role);
+}
+
+function buildInvitationUrl(token: string): string {
+  const url = new URL('/invite', config.APP_URL);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+function toInvitationSummary(invitation: InvitationRecord): TeamInvitationSummary {
+  return {
+    id: invitation.id,
+    role: invitation.role,
+    maxUses: invitation.maxUses,
+    useCount: invitation.useCount,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+    invitedBy: invitation.invitedBy?.username ?? null,
+  };
+}
+
+function isInvitationUsable(invitation: InvitationRecord): boolean {
+  return !invitation.revokedAt &&
+    invitation.expiresAt > new Date() &&
+    (invitation.maxUses === null || invitation.useCount < invitation.maxUses);
+}
+
+/**
+ * Teams are shared workspaces. Conversations (and through them artifacts)
+ * belong either to a team or to their creator's personal workspace.
+ */
+export class TeamService {
+  /**
+   * Resolve the workspace a user asked for. Returns null when they are not a member.
+   */
+  async getWorkspace(userId: string, teamId: string): Promise<Workspace | null> {
+    const membership = await prisma.membership.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+      select: { role: true },
+    });
+
+    return membership ? { teamId, role: membership.role } : null;
+  }
+
+  /**
+   * Teams the user belongs to, with their role in each
+   */
+  async listForUser(userId: string): Promise<TeamSummary[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        team: {
+          include: { _count: { select: { memberships: true } } },
+        },
+      },
+    });
+
+    return memberships.map(membership => ({
+      id: membership.team.id,
+      name: membership.team.name,
+      role: membership.role,
+      memberCount: membership.team._count.memberships,
+      createdAt: membership.team.createdAt,
+    }));
+  }
+
+  /**
+   * Create a team with the user as its owner
+   */
+  async create(userId: string, name: string): Promise<TeamSummary> {
+    const team = await prisma.team.create({
+      data: {
+        name,
+        memberships: { create: { userId, role: 'OWNER' } },
+      },
+    });
+
+    logger.info('Team created', { teamId: team.id, userId });
+
+    return { id: team.id, name: team.name, role: 'OWNER', memberCount: 1, createdAt: team.createdAt };
+  }
+
+  /**
+   * Team details and members
+   */
+  async get(teamId: string): Promise<{ id: string; name: string; customInstructions: string | null; createdAt: Date; members: TeamMember[] } | null> {
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      include: {
+        memberships: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            role: true,
+            createdAt: true,
+            user: { select: { id: true, username: true, email: true } },
+          },
+        },
+      },
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    return {
+      id: team.id,
+      name: team.name,
+      customInstructions: team.customInstructions,
+      createdAt: team.createdAt,
+      members: team.memberships.map(membership => ({
+        userId: membership.user.id,
+        username: membership.user.username,
+        email: membership.user.email,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+    };
+  }
+
+  async rename(teamId: string, name: string): Promise<void> {
+    await prisma.team.update({ where: { id: teamId }, data: { name } });
+  }
+
+  async setInstructions(teamId: string, instructions: string | null): Promise<void> {
+    await prisma.team.update({ where: { id: teamId }, data: { customInstructions: instructions } });
+  }
+
+  /**
+   * Delete a team with its conversations and their stored code.
+   * Returns the deleted conversation ids so callers can drop cached state.
+   */
+  async delete(teamId: string): Promise<{ conversationIds: string[]; storage: StorageCleanupResult }> {
+    const [conversations, artifacts] = await Promise.all([
+      prisma.conversation.findMany({ where: { teamId }, select: { id: true } }),
+      prisma.codeArtifact.findMany({
+        where: { message: { conversation: { teamId } } },
+        select: { s3Key: true, bundledHtmlKey: true },
+      }),
+    ]);
+
+    await prisma.team.delete({ where: { id: teamId } });
+
+    const storage = await deleteUnreferencedObjects(collectStorageKeys(artifacts));
+    logger.info('Team deleted', { teamId, conversations: conversations.length, ...storage });
+
+    return { conversationIds: conversations.map(conversation => conversation.id), storage };
+  }
+
+  /**
+   * Change a member's role. Admins manage members and admins; only owners can
+   * grant or take away ownership. A team always keeps at least one owner.
+   */
+  async updateMemberRole(teamId: string, actorRole: TeamRole, targetUserId: string, role: TeamRole): Promise<void> {
+    const target = await prisma.membership.findUnique({
+      where: { teamId_userId: { teamId, userId: targetUserId } },
+      select: { role: true },
+    });
+
+    if (!target) {
+      throw new TeamError('not_found', 'That user is not a member of this team');
+    }
+
+    if (actorRole !== 'OWNER' && (target.role === 'OWNER' || role === 'OWNER')) {
+      throw new TeamError('forbidden', 'Only owners can change ownership');
+    }
+
+    if (target.role === 'OWNER' && role !== 'OWNER') {
+      await this.assertAnotherOwner(teamId, targetUserId);
+    }
+
+    await prisma.membership.update({
+      where: { teamId_userId: { teamId, userId: targetUserId } },
+      data: { role },
+    });
+
+    logger.info('Team member role changed', { teamId, userId: targetUserId, role });
+  }
+
+  /**
+   * Remove a member, or leave the team when actor and target are the same user
+   */
+  async removeMember(teamId: string, actor: { userId: string; role: TeamRole }, targetUserId: string): Promise<void> {
+    const target = await prisma.membership.findUnique({
+      where: { teamId_userId: { teamId, userId: targetUserId } },
+      select: { role: true },
+    });
+
+    if (!target) {
+      throw new TeamError('not_found', 'That user is not a member of this team');
+    }
+
+    const leaving = actor.userId === targetUserId;
+
+    if (!leaving) {
+      if (!isTeamManager(actor.role)) {
+        throw new TeamError('forbidden', 'Only team owners and admins can remove members');
+      }
+
+      if (target.role === 'OWNER' && actor.role !== 'OWNER') {
+        throw new TeamError('forbidden', 'Only owners can remove an owner');
+      }
+    }
+
+    if (target.role === 'OWNER') {
+      await this.assertAnotherOwner(teamId, targetUserId);
+    }
+
+    await prisma.membership.delete({ where: { teamId_userId: { teamId, userId: targetUserId } } });
+
+    logger.info(leaving ? 'Member left team' : 'Member removed from team', { teamId, userId: targetUserId });
+  }
+
+  /**
+   * Create a shareable invitation link. The raw token is only returned here.
+   */
+  async createInvitation(
+    teamId: string,
+    invitedById: string,
+    input: CreateInvitationInput
+  ): Promise<{ invitation: TeamInvitationSummary; url: string }> {
+    const token = generateOpaqueToken();
+
+    const invitation = await prisma.teamInvitation.create({
+      data: {
+        teamId,
+        invitedById,
+        role: input.role,
+        tokenHash: hashToken(token),
+        maxUses: input.maxUses,
+        expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+      },
+      include: invitationInclude,
+    });
+
+    logger.info('Team invitation created', { teamId, invitationId: invitation.id, role: input.role });
+
+    return { invitation: toInvitationSummary(invitation), url: buildInvitationUrl(token) };
+  }
+
+  /**
+   * Invitations that can still be accepted
+   */
+  async listInvitations(teamId: string): Promise<TeamInvitationSummary[]> {
+    const invitations = await prisma.teamInvitation.findMany({
+      where: { teamId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+      include: invitationInclude,
+    });
+
+    return invitations
+      .filter(isInvitationUsable)
+      .map(toInvitationSummary);
+  }
+
+  /**
+   * Returns false when the invitation does not exist or was already revoked
+   */
+  async revokeInvitation(teamId: string, invitationId: string): Promise<boolean> {
+    const result = await prisma.teamInvitation.updateMany({
+      where: { id: invitationId, teamId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Look up an invitation link for the accept page. Returns null for unknown,
+   * expired, revoked and used-up links alike.
+   */
+  async findInvitation(token: string): Promise<{ team: { id: string; name: string }; role: TeamRole; invitedBy: string | null } | null> {
+    const invitation = await this.findInvitationRecord(token);
+    if (!invitation || !isInvitationUsable(invitation)) {
+      return null;
+    }
+
+    return { team: invitation.team, role: invitation.role, invitedBy: invitation.invitedBy?.username ?? null };
+  }
+
+  /**
+   * Join the team behind an invitation link. Existing members keep their role.
+   */
+  async acceptInvitation(token: string, userId: string): Promise<TeamSummary> {
+    const invitation = await this.findInvitationRecord(token);
+    if (!invitation || !isInvitationUsable(invitation)) {
+      throw new TeamError('invalid', 'This invitation link is invalid or has expired');
+    }
+
+    const existing = await this.getWorkspace(userId, invitation.teamId);
+    if (!existing) {
+      // Compare-and-swap on useCount so concurrent accepts cannot exceed maxUses
+      const claimed = await prisma.teamInvitation.updateMany({
+        where: { id: invitation.id, useCount: invitation.useCount, revokedAt: null },
+        data: { useCount: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        throw new TeamError('invalid', 'This invitation link is invalid or has expired');
+      }
+
+      await prisma.membership.create({
+        data: { teamId: invitation.teamId, userId, role: invitation.role },
+      });
+
+      logger.info('Team invitation accepted', { teamId: invitation.teamId, invitationId: invitation.id, userId });
+    }
+
+    const team = (await this.listForUser(userId)).find(summary => summary.id === invitation.teamId);
+    if (!team) {
+      throw new TeamError('not_found', 'Team not found');
+    }
+
+    return team;
+  }
+
+  /**
+   * Prepare for a user's account deletion: teams they are the only member of are
+   * deleted, and teams they solely own pass to an admin, or else the longest-standing member
+   */
+  async releaseUserTeams(userId: string): Promise<void> {
+    const ownedTeams = await prisma.membership.findMany({
+      where: { userId, role: 'OWNER' },
+      select: { teamId: true },
+    });
+
+    for (const { teamId } of ownedTeams) {
+      const others = await prisma.membership.findMany({
+        where: { teamId, userId: { not: userId } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, role: true },
+      });
+
+      if (others.length === 0) {
+        await this.delete(teamId);
+        continue;
+      }
+
+      if (!others.some(membership => membership.role === 'OWNER')) {
+        const successor = others.find(membership => membership.role === 'ADMIN') ?? others[0];
+        await prisma.membership.update({ where: { id: successor.id }, data: { role: 'OWNER' } });
+        logger.info('Team ownership transferred', { teamId, fromUserId: userId, membershipId: successor.id });
+      }
+    }
+  }
+
+  private async findInvitationRecord(token: string): Promise<InvitationRecord | null> {
+    return prisma.teamInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: invitationInclude,
+    });
+  }
+
+  private async assertAnotherOwner(teamId: string, userId: string): Promise<void> {
+    const otherOwners = await prisma.membership.count({
+      where: { teamId, role: 'OWNER', userId: { not: userId } },
+    });
+
+    if (otherOwners === 0) {
+      throw new TeamError('conflict', 'A team needs at least one owner. Transfer ownership or delete the team instead.');
+    }
+  }
+}
+
+export const teamService = new TeamService();
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { twoFactorService } from './two-factor';
+import { prisma } from '../utils/database';
+import { generateTotp, getTimeStep } from '../utils/totp';
+import { createUser } from '../test/factories';
+
+// A well-formed code that no time step in the accepted window produces
+function wrongCode(secret: string) {
+  const valid = [-1, 0, 1].map(offset => generateTotp(secret, getTimeStep() + offset));
+  return ['000000', '111111', '222222', '333333'].find(code => !valid.includes(code))!;
+}
+
+// A user who finished enrollment, with their secret and recovery codes
+async function enroll() {
+  const user = await createUser();
+  const { secret } = await twoFactorService.beginSetup(user);
+  // The code for the previous step, so the current one is still unused
+  const recoveryCodes = await twoFactorService.enable(user.id, generateTotp(secret, getTimeStep() - 1));
+  return { user, secret, recoveryCodes: recoveryCodes! };
+}
+
+describe('TwoFactorService', () => {
+  it('only enables 2FA once a valid code confirms the secret', async () => {
+    const user = await createUser();
+    const { secret, otpauthUrl } = await twoFactorService.beginSetup(user);
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(await twoFactorService.enable(user.id, wrongCode(secret))).toBeNull();
+    expect((await twoFactorService.getStatus(user.id)).enabled).toBe(false);
+
+    const recoveryCodes = await twoFactorService.enable(user.id, generateTotp(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await twoFactorService.getStatus(user.id)).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+    // Enrollment cannot be finished twice
+    expect(await twoFactorService.enable(user.id, generateTotp(secret))).toBeNull();
+  });
+
+  it('stores only hashes of the recovery codes', async () => {
+    const { user, recoveryCodes } = await enroll();
+
+    const stored = await prisma.recoveryCode.findMany({ where: { userId: user.id } });
+
+    expect(stored.map(code => code.codeHash)).not.toContain(recoveryCodes[0]);
+  });
+
+  it('accepts each TOTP time step once', async () => {
+    const { user, secret } = await enroll();
+    const code = generateTotp(secret);
+
+    expect(await twoFactorService.verify(user.id, wrongCode(secret))).toBeNull();
+    expect(await twoFactorService.verify(user.id, code)).toBe('totp');
+    expect(await twoFactorService.verify(user.id, code)).toBeNull();
+  });
+
+  it('rejects codes from steps before the last one used', async () => {
+    const { user, secret } = await enroll();
+    await twoFactorService.verify(user.id, generateTotp(secret));
+
+    expect(await twoFactorService.verify(user.id, generateTotp(secret, getTimeStep() - 1))).toBeNull();
+  });
+
+  it('accepts each recovery code once, ignoring case, spaces and dashes', async () => {
+    const { user, recoveryCodes } = await enroll();
+    const [code] = recoveryCodes;
+
+    expect(await twoFactorService.verify(user.id, ` ${code.replace('-', ' ').toUpperCase()} `)).toBe('recovery_code');
+    expect(await twoFactorService.verify(user.id, code)).toBeNull();
+    expect((await twoFactorService.getStatus(user.id)).recoveryCodesRemaining).toBe(9);
+  });
+
+  it('invalidates old recovery codes when new ones are generated', async () => {
+    const { user, recoveryCodes } = await enroll();
+
+    const fresh = await twoFactorService.regenerateRecoveryCodes(user.id);
+
+    expect(await twoFactorService.verify(user.id, recoveryCodes[0])).toBeNull();
+    expect(await twoFactorService.verify(user.id, fresh[0])).toBe('recovery_code');
+  });
+
+  it('forgets the secret and recovery codes when disabled', async () => {
+    const { user, secret, recoveryCodes } = await enroll();
+
+    await twoFactorService.disable(user.id);
+
+    expect(await twoFactorService.getStatus(user.id)).toMatchObject({ enabled: false, recoveryCodesRemaining: 0 });
+    expect(await twoFactorService.verify(user.id, generateTotp(secret))).toBeNull();
+    expect(await twoFactorService.verify(user.id, recoveryCodes[0])).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { hashToken } from '../utils/auth';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { createLogger } from '../utils/logger';
+import { prisma } from '../utils/database';
+import { config } from '../config';
+
+const logger = createLogger();
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+// No 0/o or 1/l so codes survive being written down
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+function generateRecoveryCode(): string {
+  let code = '';
+  for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+    code += RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * TOTP-based two-factor authentication. Enrollment stores the secret first and
+ * only switches 2FA on once the user proves their authenticator produces valid codes.
+ */
+export class TwoFactorService {
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [user, recoveryCodesRemaining] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { totpEnabledAt: true } }),
+      prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+
+    return {
+      enabled: !!user?.totpEnabledAt,
+      enabledAt: user?.totpEnabledAt ?? null,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret, replacing any unfinished one
+   */
+  async beginSetup(user: { id: string; email: string }): Promise<{ secret: string; otpauthUrl: string }> {
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email, config.TOTP_ISSUER) };
+  }
+
+  /**
+   * Finish enrollment. Returns the recovery codes, or null if the code is wrong.
+   */
+  async enable(userId: string, code: string): Promise<string[] | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret || user.totpEnabledAt) {
+      return null;
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      return null;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    });
+
+    logger.info('Two-factor authentication enabled', { userId });
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      }),
+    ]);
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with 2FA enabled. Each TOTP time
+   * step and each recovery code is accepted at most once.
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret || !user.totpEnabledAt) {
+      return null;
+    }
+
+    const trimmed = code.trim();
+
+    if (/^\d+$/.test(trimmed)) {
+      const step = verifyTotp(user.totpSecret, trimmed);
+      if (step === null) {
+        return null;
+      }
+
+      // Conditional update so a code cannot be replayed, even concurrently
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+        },
+        data: { totpLastUsedStep: step },
+      });
+
+      return count === 1 ? 'totp' : null;
+    }
+
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalizeRecoveryCode(trimmed)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 1) {
+      logger.info('Recovery code used', { userId });
+      return 'recovery_code';
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all recovery codes. The plain codes are only returned here.
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.recoveryCode.createMany({
+        data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+      }),
+    ]);
+
+    return codes;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,24 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { generateToken } from '../utils/auth';
+
+// A user with a password account; the email follows the username unless given
+export function createUser(data: Partial<Prisma.UserCreateInput> = {}) {
+  const username = data.username ?? 'ada';
+  return prisma.user.create({
+    data: { email: `${username}@example.com`, username, passwordHash: 'not-used', ...data },
+  });
+}
+
+// A user and an access token to send as their bearer token
+export async function createSignedInUser(data: Partial<Prisma.UserCreateInput> = {}) {
+  const user = await createUser(data);
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    username: user.username,
+    role: user.role,
+    tokenVersion: user.tokenVersion,
+  });
+  return { user, token };
+}
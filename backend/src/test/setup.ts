@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, vi } from 'vitest';
+import { getDMMF } from '@prisma/internals';
+import { createPrismock } from 'prismock';
+import { prisma } from '../utils/database';
+
+// Objects of the local storage driver; one directory per worker, as test files run in parallel
+const storageDir = path.join(os.tmpdir(), `zocket-test-storage-${process.env.VITEST_POOL_ID}`);
+process.env.STORAGE_LOCAL_DIR = storageDir;
+
+// prismock skips increments and decrements of 0 and stores the operation
+// object as the field's value instead. Prisma leaves the field unchanged.
+function dropZeroSteps(data: Record<string, unknown> | undefined): void {
+  for (const [field, value] of Object.entries(data ?? {})) {
+    if (value && typeof value === 'object' && ('increment' in value || 'decrement' in value)) {
+      const step = value as { increment?: number; decrement?: number };
+      if ((step.increment ?? step.decrement) === 0) delete data![field];
+    }
+  }
+}
+
+// Every test runs against an in-memory database built from the Prisma schema.
+// It has no transactions that roll back and does not enforce unique
+// constraints, so tests must not rely on either.
+vi.mock('../utils/database', async () => {
+  const datamodel = fs.readFileSync(path.join(__dirname, '../../prisma/schema.prisma'), 'utf8');
+  const dmmf = await getDMMF({ datamodel });
+  const Prismock = createPrismock({ dmmf } as Parameters<typeof createPrismock>[0]);
+  const client = new Prismock() as any;
+
+  // reset() replaces the delegates' methods, so patch them again afterwards
+  const patchDelegates = () => {
+    for (const model of dmmf.datamodel.models) {
+      const delegate = client[model.name.charAt(0).toLowerCase() + model.name.slice(1)];
+      for (const operation of ['update', 'updateMany', 'upsert']) {
+        const original = delegate[operation].bind(delegate);
+        delegate[operation] = (args: { data?: Record<string, unknown>; update?: Record<string, unknown> }) => {
+          dropZeroSteps(args.data);
+          dropZeroSteps(args.update);
+          return original(args);
+        };
+      }
+    }
+  };
+  const reset = client.reset.bind(client);
+  client.reset = () => {
+    reset();
+    patchDelegates();
+  };
+  patchDelegates();
+
+  return { prisma: client };
+});
+
+beforeEach(() => {
+  (prisma as unknown as { reset(): void }).reset();
+});
+
+afterAll(() => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
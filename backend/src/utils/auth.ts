@@ -1,20 +1,98 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { config } from '../config';
+
+// Mirrors the UserRole enum in schema.prisma
+export type UserRole = 'USER' | 'ADMIN';
 
 export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  role: UserRole; // Informational; requireAuth reloads the current role from the database
+  tokenVersion: number; // Must match users.tokenVersion; bumped to invalidate issued tokens
+  sessionId?: string; // Session the token belongs to; absent on tokens issued before session tracking
 }
 
+// Short-lived access token; clients renew it with a refresh token (see services/refresh-tokens)
 export function generateToken(payload: JWTPayload): string {
   return jwt.sign(payload, process.env.JWT_SECRET!, { 
-    expiresIn: '7d',
+    expiresIn: config.JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
     issuer: 'ai-coding-agent',
     audience: 'ai-coding-agent-users'
   });
 }
 
+export interface TwoFactorChallengePayload {
+  userId: string;
+  tokenVersion: number;
+}
+
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'ai-coding-agent-2fa';
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Proof that the password step of a login succeeded. Uses its own audience so
+// it can never be accepted as an access token.
+export function generateTwoFactorChallenge(payload: TwoFactorChallengePayload): string {
+  return jwt.sign(payload, process.env.JWT_SECRET!, {
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    issuer: 'ai-coding-agent',
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): TwoFactorChallengePayload {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, {
+      issuer: 'ai-coding-agent',
+      audience: TWO_FACTOR_CHALLENGE_AUDIENCE
+    }) as TwoFactorChallengePayload;
+
+    return { userId: payload.userId, tokenVersion: payload.tokenVersion };
+  } catch (error) {
+    throw new Error('Invalid challenge token');
+  }
+}
+
+export interface PreviewTicketPayload {
+  userId: string;
+  artifactId: string;
+  tokenVersion: number;
+  sessionId?: string;
+}
+
+const PREVIEW_TICKET_AUDIENCE = 'ai-coding-agent-preview';
+export const PREVIEW_TICKET_TTL_SECONDS = 5 * 60;
+
+// Lets an iframe load one artifact preview without an access token in its URL.
+// Uses its own audience so it can never be accepted as an access token.
+export function generatePreviewTicket(payload: PreviewTicketPayload): string {
+  return jwt.sign(payload, process.env.JWT_SECRET!, {
+    expiresIn: PREVIEW_TICKET_TTL_SECONDS,
+    issuer: 'ai-coding-agent',
+    audience: PREVIEW_TICKET_AUDIENCE
+  });
+}
+
+export function verifyPreviewTicket(ticket: string): PreviewTicketPayload {
+  try {
+    const payload = jwt.verify(ticket, process.env.JWT_SECRET!, {
+      issuer: 'ai-coding-agent',
+      audience: PREVIEW_TICKET_AUDIENCE
+    }) as PreviewTicketPayload;
+
+    return {
+      userId: payload.userId,
+      artifactId: payload.artifactId,
+      tokenVersion: payload.tokenVersion,
+      sessionId: payload.sessionId,
+    };
+  } catch (error) {
+    throw new Error('Invalid preview ticket');
+  }
+}
+
 export function verifyToken(token: string): JWTPayload {
   try {
     const payload = jwt.verify(token, process.env.JWT_SECRET!, {
@@ -36,6 +114,18 @@ export async function comparePassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
+/**
+ * Generate a random URL-safe token for links sent by email, refresh tokens, etc.
+ * Only the hash (see hashToken) should ever be persisted.
+ */
+export function generateOpaqueToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 export function extractTokenFromHeader(authHeader?: string): string | null {
   if (!authHeader) return null;
   
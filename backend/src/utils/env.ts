@@ -2,18 +2,39 @@ import { z } from 'zod';
 
 const envSchema = z.object({
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
-  GEMINI_API_KEY: z.string().min(1, 'GEMINI_API_KEY is required'),
+  LLM_PROVIDER: z.string().optional().default('gemini'),
+  LLM_RECORD_PROVIDER: z.string().optional().default('gemini'),
+  GEMINI_API_KEY: z.string().optional(),
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   PORT: z.string().optional().default('3001'),
   NODE_ENV: z.enum(['development', 'production', 'test']).optional().default('development'),
   CORS_ORIGINS: z.string().optional().default('http://localhost:3000'),
   
-  // AWS S3 Configuration
-  AWS_REGION: z.string().min(1, 'AWS_REGION is required'),
-  AWS_ACCESS_KEY_ID: z.string().min(1, 'AWS_ACCESS_KEY_ID is required'),
-  AWS_SECRET_ACCESS_KEY: z.string().min(1, 'AWS_SECRET_ACCESS_KEY is required'),
-  S3_BUCKET_NAME: z.string().min(1, 'S3_BUCKET_NAME is required'),
+  // Storage Configuration
+  STORAGE_DRIVER: z.string().optional(),
+  
+  // AWS S3 Configuration (required when the storage driver is 's3')
+  AWS_REGION: z.string().optional(),
+  AWS_ACCESS_KEY_ID: z.string().optional(),
+  AWS_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_BUCKET_NAME: z.string().optional(),
   S3_CODE_PREFIX: z.string().optional().default('code-artifacts/'),
+}).refine(env => {
+  const provider = env.LLM_PROVIDER === 'record' ? env.LLM_RECORD_PROVIDER : env.LLM_PROVIDER;
+  return provider !== 'gemini' || !!env.GEMINI_API_KEY;
+}, {
+  message: 'GEMINI_API_KEY is required',
+  path: ['GEMINI_API_KEY'],
+}).superRefine((env, ctx) => {
+  // Mirrors getStorageDriver: the offline providers default to local storage
+  const driver = env.STORAGE_DRIVER ?? (['mock', 'replay'].includes(env.LLM_PROVIDER) ? 'local' : 's3');
+  if (driver !== 's3') return;
+
+  for (const key of ['AWS_REGION', 'AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'S3_BUCKET_NAME'] as const) {
+    if (!env[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${key} is required`, path: [key] });
+    }
+  }
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
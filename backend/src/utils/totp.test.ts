@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from './totp';
+
+// The SHA-1 secret from RFC 6238, appendix B
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('any bytes at all');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 test vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code);
+  });
+
+  it('accepts codes from neighbouring time steps only', () => {
+    vi.useFakeTimers({ now: 1111111109 * 1000 });
+    try {
+      const step = getTimeStep();
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2))).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
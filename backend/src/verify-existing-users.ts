@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+import { prisma } from "./utils/database";
+
+// Load environment variables
+dotenv.config();
+
+// Marks accounts created before email verification existed as verified, so
+// they keep access to chat. Accounts that signed up since were sent a
+// verification token and are left alone. Safe to run repeatedly.
+async function main() {
+  console.log("📧 Marking existing accounts as verified...");
+
+  const { count } = await prisma.user.updateMany({
+    where: {
+      emailVerifiedAt: null,
+      authTokens: { none: { type: "EMAIL_VERIFICATION" } },
+    },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  console.log(
+    count > 0
+      ? `✅ Marked ${count} existing account(s) as verified.`
+      : "✅ No unverified accounts predate email verification."
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Error marking accounts as verified:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    // Parsed by src/config at import, so they have to be set before any test file loads
+    env: {
+      NODE_ENV: 'test',
+      DATABASE_URL: 'file:./test.db', // Never opened; the database is replaced by an in-memory mock
+      JWT_SECRET: 'test-secret-that-is-at-least-32-characters-long',
+      LLM_PROVIDER: 'mock',
+      MAIL_DRIVER: 'log',
+      LLM_RETRY_BASE_DELAY_MS: '1',
+    },
+  },
+});
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  CreditCard,
+  Loader2,
+  Search,
+  ShieldAlert,
+} from "lucide-react";
+import { AuthGuard } from "@/components/auth/auth-guard";
+import { UserDetailPanel } from "@/components/admin/user-detail-panel";
+import { AuditLogCard } from "@/components/admin/audit-log-card";
+import { NavigationSidebar } from "@/components/sidebar/navigation-sidebar";
+import {
+  SidebarProvider,
+  SidebarInset,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/components/providers/auth-provider";
+import { getAdminUsers, AdminUser } from "@/lib/api/admin";
+
+const USERS_PER_PAGE = 20;
+
+function AdminUsers() {
+  const { user: currentUser } = useAuth();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<
+    "" | "active" | "disabled"
+  >("");
+  const [page, setPage] = useState(1);
+  const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["admin-users", page, search, statusFilter],
+    queryFn: () =>
+      getAdminUsers({
+        page,
+        limit: USERS_PER_PAGE,
+        search: search || undefined,
+        status: statusFilter || undefined,
+      }),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const handleUserUpdated = (updated: AdminUser) => {
+    setSelectedUser(updated);
+    refetch();
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_420px]">
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            {data ? `${data.pagination.totalCount} accounts` : "All accounts"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by email or username..."
+                className="pl-9"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setPage(1);
+                setStatusFilter(e.target.value as typeof statusFilter);
+              }}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              <option value="">All</option>
+              <option value="active">Active</option>
+              <option value="disabled">Disabled</option>
+            </select>
+            <Button type="submit" variant="outline">
+              Search
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading users...
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : data && data.users.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">User</th>
+                    <th className="py-2 font-medium">Role</th>
+                    <th className="py-2 font-medium text-right">Credits</th>
+                    <th className="py-2 font-medium text-right">Chats</th>
+                    <th className="py-2 font-medium text-right">Joined</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.users.map((user) => (
+                    <tr
+                      key={user.id}
+                      onClick={() => setSelectedUser(user)}
+                      className={`cursor-pointer border-b hover:bg-muted/50 ${
+                        selectedUser?.id === user.id ? "bg-muted" : ""
+                      }`}
+                    >
+                      <td className="py-2">
+                        <div className="font-medium">{user.username}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {user.email}
+                        </div>
+                      </td>
+                      <td className="py-2">
+                        <div className="flex gap-1">
+                          <Badge
+                            variant={
+                              user.role === "ADMIN" ? "default" : "outline"
+                            }
+                          >
+                            {user.role}
+                          </Badge>
+                          {user.disabledAt && (
+                            <Badge variant="destructive">Disabled</Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right">{user.credits}</td>
+                      <td className="py-2 text-right">
+                        {user.conversationCount}
+                      </td>
+                      <td className="py-2 text-right text-muted-foreground">
+                        {formatDistanceToNow(new Date(user.createdAt), {
+                          addSuffix: true,
+                        })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No users found.</p>
+          )}
+
+          {data && data.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">
+                Page {data.pagination.page} of {data.pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={!data.pagination.hasPrev}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={!data.pagination.hasNext}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div>
+        {selectedUser ? (
+          <UserDetailPanel
+            key={selectedUser.id}
+            user={selectedUser}
+            isCurrentUser={selectedUser.id === currentUser?.id}
+            onUserUpdated={handleUserUpdated}
+          />
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select a user to view usage and manage the account.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+
+  return (
+    <AuthGuard>
+      <ErrorBoundary>
+        <SidebarProvider defaultOpen={true}>
+          <div className="h-screen w-full flex overflow-hidden">
+            <NavigationSidebar />
+            <SidebarInset className="flex-1 flex flex-col">
+              {/* Header */}
+              <header className="flex-none border-b bg-background">
+                <div className="container flex h-14 max-w-screen-2xl items-center">
+                  <SidebarTrigger />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => router.push("/")}
+                    className="ml-2 md:hidden"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back to chat</span>
+                  </Button>
+                  <div className="ml-4 flex-1">
+                    <h1 className="text-lg font-semibold">Admin</h1>
+                    <p className="text-sm text-muted-foreground hidden sm:block">
+                      Manage users, credits and access, and review the audit log
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="mr-4">
+                    <CreditCard className="h-3 w-3 mr-1" />
+                    {user?.credits || 0} credits
+                  </Badge>
+                  <ThemeToggle />
+                </div>
+              </header>
+
+              {/* Content */}
+              <main className="flex-1 overflow-y-auto">
+                <div className="container max-w-screen-2xl p-6">
+                  {isAdmin ? (
+                    <div className="space-y-6">
+                      <AdminUsers />
+                      <AuditLogCard />
+                    </div>
+                  ) : (
+                    <Alert variant="destructive" className="max-w-lg">
+                      <ShieldAlert className="h-4 w-4" />
+                      <AlertDescription>
+                        You do not have permission to view this page.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              </main>
+            </SidebarInset>
+          </div>
+        </SidebarProvider>
+      </ErrorBoundary>
+    </AuthGuard>
+  );
+}
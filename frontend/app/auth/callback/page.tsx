@@ -0,0 +1,128 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, XCircle } from "lucide-react";
+import { exchangeOidcCode, isTwoFactorChallenge } from "@/lib/api/auth";
+import { useAuth } from "@/components/providers/auth-provider";
+import { TwoFactorChallengeForm } from "@/components/auth/two-factor-challenge-form";
+
+// Error codes set by the backend OIDC callback
+const ERROR_MESSAGES: Record<string, string> = {
+  access_denied: "Sign-in was cancelled.",
+  email_not_verified:
+    "Your identity provider has not verified your email address, so it can't be used to sign in.",
+  missing_email: "Your identity provider did not share an email address.",
+  account_disabled:
+    "This account has been disabled. Please contact support.",
+  invalid_state: "This sign-in attempt expired. Please try again.",
+  unknown_provider: "This sign-in provider is not available.",
+};
+
+function OidcCallbackContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const code = searchParams.get("code");
+  const errorCode = searchParams.get("error");
+  const { login: authLogin } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<{
+    token: string;
+    redirectPath: string;
+  } | null>(null);
+  // Login codes are single-use, so guard against the effect running twice in dev
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    if (errorCode || !code) {
+      setError(
+        ERROR_MESSAGES[errorCode ?? ""] ??
+          "We couldn't sign you in with that provider. Please try again."
+      );
+      return;
+    }
+
+    exchangeOidcCode(code)
+      .then((result) => {
+        if (isTwoFactorChallenge(result)) {
+          setChallenge({
+            token: result.challengeToken,
+            redirectPath: result.redirectPath,
+          });
+          return;
+        }
+        authLogin(result.token, result.user);
+        router.replace(result.redirectPath || "/");
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Sign-in failed");
+      });
+  }, [code, errorCode, authLogin, router]);
+
+  if (challenge) {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+          <CardDescription>Confirm it&apos;s you to finish signing in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorChallengeForm
+            challengeToken={challenge.token}
+            onSuccess={() => router.replace(challenge.redirectPath || "/")}
+            onCancel={() => router.replace("/")}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center">
+          {error ? (
+            <XCircle className="h-8 w-8 text-destructive" />
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">
+          {error ? "Sign-in failed" : "Signing you in"}
+        </CardTitle>
+        <CardDescription>
+          {error ?? "Completing sign-in with your identity provider..."}
+        </CardDescription>
+      </CardHeader>
+      {error && (
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/">Back to sign in</Link>
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function OidcCallbackPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin" />}>
+        <OidcCallbackContent />
+      </Suspense>
+    </div>
+  );
+}
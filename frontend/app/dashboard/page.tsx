@@ -1,55 +1,134 @@
-import { AppSidebar } from "@/components/app-sidebar"
-import {
-  Breadcrumb,
-  BreadcrumbItem,
-  BreadcrumbLink,
-  BreadcrumbList,
-  BreadcrumbPage,
-  BreadcrumbSeparator,
-} from "@/components/ui/breadcrumb"
-import { Separator } from "@/components/ui/separator"
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { AuthGuard } from "@/components/auth/auth-guard";
+import { NavigationSidebar } from "@/components/sidebar/navigation-sidebar";
 import {
-  SidebarInset,
   SidebarProvider,
+  SidebarInset,
   SidebarTrigger,
-} from "@/components/ui/sidebar"
+} from "@/components/ui/sidebar";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UsageCard } from "@/components/dashboard/usage-card";
+import { ArtifactsCard } from "@/components/dashboard/artifacts-card";
+import { QualityCard } from "@/components/dashboard/quality-card";
+import { getUsageAnalytics, getQualityAnalytics } from "@/lib/api/analytics";
+
+const RANGES = [7, 30, 90];
+
+function formatLatency(ms: number | null) {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export default function DashboardPage() {
+  const router = useRouter();
+  const [days, setDays] = useState(30);
+
+  // Same queries as the cards below; react-query shares the results
+  const { data: usageData } = useQuery({
+    queryKey: ["analytics-usage", days],
+    queryFn: () => getUsageAnalytics(days),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+  const { data: qualityData } = useQuery({
+    queryKey: ["analytics-quality"],
+    queryFn: getQualityAnalytics,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const usage = usageData?.usage;
+  const builds = qualityData?.quality.builds;
+
+  const stats = [
+    { label: "Messages", value: usage ? String(usage.totals.messages) : "-" },
+    { label: "Credits spent", value: usage ? String(usage.totals.creditsSpent) : "-" },
+    { label: "Average response time", value: formatLatency(usage?.averageLatencyMs ?? null) },
+    {
+      label: "Build success rate",
+      value:
+        builds && builds.successRate !== null
+          ? `${Math.round(builds.successRate * 100)}%`
+          : "-",
+    },
+  ];
 
-export default function Page() {
   return (
-    <SidebarProvider>
-      <AppSidebar />
-      <SidebarInset>
-        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
-          <div className="flex items-center gap-2 px-4">
-            <SidebarTrigger className="-ml-1" />
-            <Separator
-              orientation="vertical"
-              className="mr-2 data-[orientation=vertical]:h-4"
-            />
-            <Breadcrumb>
-              <BreadcrumbList>
-                <BreadcrumbItem className="hidden md:block">
-                  <BreadcrumbLink href="#">
-                    Building Your Application
-                  </BreadcrumbLink>
-                </BreadcrumbItem>
-                <BreadcrumbSeparator className="hidden md:block" />
-                <BreadcrumbItem>
-                  <BreadcrumbPage>Data Fetching</BreadcrumbPage>
-                </BreadcrumbItem>
-              </BreadcrumbList>
-            </Breadcrumb>
-          </div>
-        </header>
-        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
-          <div className="grid auto-rows-min gap-4 md:grid-cols-3">
-            <div className="bg-muted/50 aspect-video rounded-xl" />
-            <div className="bg-muted/50 aspect-video rounded-xl" />
-            <div className="bg-muted/50 aspect-video rounded-xl" />
+    <AuthGuard>
+      <ErrorBoundary>
+        <SidebarProvider defaultOpen={true}>
+          <div className="h-screen w-full flex overflow-hidden">
+            <NavigationSidebar />
+            <SidebarInset className="flex-1 flex flex-col">
+              {/* Header */}
+              <header className="flex-none border-b bg-background">
+                <div className="container flex h-14 max-w-screen-2xl items-center">
+                  <SidebarTrigger />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => router.push("/")}
+                    className="ml-2 md:hidden"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back to chat</span>
+                  </Button>
+                  <div className="ml-4 flex-1">
+                    <h1 className="text-lg font-semibold">Dashboard</h1>
+                    <p className="text-sm text-muted-foreground hidden sm:block">
+                      Your usage, artifacts and response quality
+                    </p>
+                  </div>
+                  <select
+                    value={days}
+                    onChange={(e) => setDays(Number(e.target.value))}
+                    className="mr-4 h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                    aria-label="Date range"
+                  >
+                    {RANGES.map((range) => (
+                      <option key={range} value={range}>
+                        Last {range} days
+                      </option>
+                    ))}
+                  </select>
+                  <ThemeToggle />
+                </div>
+              </header>
+
+              {/* Content */}
+              <main className="flex-1 overflow-y-auto">
+                <div className="container max-w-screen-2xl p-6 space-y-6">
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                    {stats.map((stat) => (
+                      <Card key={stat.label}>
+                        <CardContent className="space-y-1">
+                          <p className="text-sm text-muted-foreground">{stat.label}</p>
+                          <p className="text-2xl font-semibold">{stat.value}</p>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+
+                  <UsageCard days={days} />
+
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    <ArtifactsCard days={days} />
+                    <QualityCard />
+                  </div>
+                </div>
+              </main>
+            </SidebarInset>
           </div>
-          <div className="bg-muted/50 min-h-[100vh] flex-1 rounded-xl md:min-h-min" />
-        </div>
-      </SidebarInset>
-    </SidebarProvider>
-  )
+        </SidebarProvider>
+      </ErrorBoundary>
+    </AuthGuard>
+  );
 }
@@ -0,0 +1,114 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Loader2, Users, XCircle } from "lucide-react";
+import { AuthGuard } from "@/components/auth/auth-guard";
+import { getInvitationPreview, acceptInvitation } from "@/lib/api/teams";
+import { setActiveWorkspaceId } from "@/lib/config/api";
+import { useAppStore } from "@/lib/store/app-store";
+import { TEAM_ROLE_LABELS } from "@/components/teams/team-members-card";
+
+function InviteContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const queryClient = useQueryClient();
+  const { startNewChat, setConversations } = useAppStore();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["team-invitation", token],
+    queryFn: () => getInvitationPreview(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => acceptInvitation(token!),
+    onSuccess: ({ team }) => {
+      // Open the team's workspace straight away
+      setActiveWorkspaceId(team.id);
+      setConversations([]);
+      startNewChat();
+      queryClient.resetQueries();
+      router.push("/");
+    },
+  });
+
+  const invitation = data?.invitation;
+  const errorMessage = !token
+    ? "This invitation link is missing its token."
+    : error?.message;
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center">
+          {isLoading ? (
+            <Loader2 className="h-8 w-8 animate-spin" />
+          ) : errorMessage ? (
+            <XCircle className="h-8 w-8 text-destructive" />
+          ) : (
+            <Users className="h-8 w-8" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">
+          {invitation ? `Join ${invitation.team.name}` : "Team invitation"}
+        </CardTitle>
+        <CardDescription>
+          {errorMessage ??
+            (invitation
+              ? `${invitation.invitedBy ?? "A team admin"} invited you to join as ${TEAM_ROLE_LABELS[invitation.role].toLowerCase()}. Members can read and continue the team's conversations.`
+              : "Loading invitation...")}
+        </CardDescription>
+      </CardHeader>
+      {!isLoading && (
+        <CardContent className="space-y-2">
+          {acceptMutation.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{acceptMutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+          {invitation && (
+            <Button
+              className="w-full"
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending}
+            >
+              {acceptMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Join team
+            </Button>
+          )}
+          <Button asChild variant="outline" className="w-full">
+            <Link href="/">Continue to the app</Link>
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function InvitePage() {
+  return (
+    <AuthGuard>
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin" />}>
+          <InviteContent />
+        </Suspense>
+      </div>
+    </AuthGuard>
+  );
+}
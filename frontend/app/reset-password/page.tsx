@@ -0,0 +1,58 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1 text-center">
+        <CardTitle className="text-2xl">Choose a new password</CardTitle>
+        <CardDescription>
+          Signing in again will be required on all of your devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {token ? (
+          <ResetPasswordForm token={token} />
+        ) : (
+          <>
+            <Alert variant="destructive">
+              <AlertDescription>
+                This password reset link is missing its token.
+              </AlertDescription>
+            </Alert>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/">Back to sign in</Link>
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin" />}>
+        <ResetPasswordContent />
+      </Suspense>
+    </div>
+  );
+}
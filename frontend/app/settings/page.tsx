@@ -0,0 +1,129 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, CreditCard } from "lucide-react";
+import { AuthGuard } from "@/components/auth/auth-guard";
+import { ChangePasswordForm } from "@/components/auth/change-password-form";
+import { AccessTokensCard } from "@/components/settings/access-tokens-card";
+import { TwoFactorCard } from "@/components/settings/two-factor-card";
+import { SessionsCard } from "@/components/settings/sessions-card";
+import { AccountDataCard } from "@/components/settings/account-data-card";
+import { CreditHistoryCard } from "@/components/settings/credit-history-card";
+import { CustomInstructionsCard } from "@/components/settings/custom-instructions-card";
+import { NavigationSidebar } from "@/components/sidebar/navigation-sidebar";
+import {
+  SidebarProvider,
+  SidebarInset,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/components/providers/auth-provider";
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+
+  return (
+    <AuthGuard>
+      <ErrorBoundary>
+        <SidebarProvider defaultOpen={true}>
+          <div className="h-screen w-full flex overflow-hidden">
+            <NavigationSidebar />
+            <SidebarInset className="flex-1 flex flex-col">
+              {/* Header */}
+              <header className="flex-none border-b bg-background">
+                <div className="container flex h-14 max-w-screen-2xl items-center">
+                  <SidebarTrigger />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => router.push("/")}
+                    className="ml-2 md:hidden"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back to chat</span>
+                  </Button>
+                  <div className="ml-4 flex-1">
+                    <h1 className="text-lg font-semibold">Settings</h1>
+                    <p className="text-sm text-muted-foreground hidden sm:block">
+                      Manage your account and security
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="mr-4">
+                    <CreditCard className="h-3 w-3 mr-1" />
+                    {user?.credits || 0} credits
+                  </Badge>
+                  <ThemeToggle />
+                </div>
+              </header>
+
+              {/* Content */}
+              <main className="flex-1 overflow-y-auto">
+                <div className="container max-w-screen-md p-6 space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Account</CardTitle>
+                      <CardDescription>Your profile details</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Username</span>
+                        <span className="font-medium">{user?.username}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Email</span>
+                        <span className="font-medium">
+                          {user?.email}{" "}
+                          {user && !user.emailVerified && (
+                            <Badge variant="secondary" className="ml-1">
+                              Unverified
+                            </Badge>
+                          )}
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Password</CardTitle>
+                      <CardDescription>
+                        Changing your password signs you out on all other
+                        devices.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ChangePasswordForm />
+                    </CardContent>
+                  </Card>
+
+                  <CustomInstructionsCard />
+
+                  <CreditHistoryCard />
+
+                  <TwoFactorCard />
+
+                  <SessionsCard />
+
+                  <AccessTokensCard />
+
+                  <AccountDataCard />
+                </div>
+              </main>
+            </SidebarInset>
+          </div>
+        </SidebarProvider>
+      </ErrorBoundary>
+    </AuthGuard>
+  );
+}
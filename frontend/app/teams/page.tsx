@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { AuthGuard } from "@/components/auth/auth-guard";
+import { TeamSettingsCard } from "@/components/teams/team-settings-card";
+import { TeamMembersCard } from "@/components/teams/team-members-card";
+import { TeamInstructionsCard } from "@/components/teams/team-instructions-card";
+import { TeamInvitationsCard } from "@/components/teams/team-invitations-card";
+import { NavigationSidebar } from "@/components/sidebar/navigation-sidebar";
+import {
+  SidebarProvider,
+  SidebarInset,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { getTeam, isTeamManager } from "@/lib/api/teams";
+import { getActiveWorkspaceId } from "@/lib/config/api";
+
+export default function TeamsPage() {
+  const router = useRouter();
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+
+  // The page manages whichever team is active in the team switcher
+  useEffect(() => {
+    setTeamId(getActiveWorkspaceId());
+    setWorkspaceLoaded(true);
+  }, []);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["team", teamId],
+    queryFn: () => getTeam(teamId!),
+    enabled: !!teamId,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const team = data?.team;
+
+  return (
+    <AuthGuard>
+      <ErrorBoundary>
+        <SidebarProvider defaultOpen={true}>
+          <div className="h-screen w-full flex overflow-hidden">
+            <NavigationSidebar />
+            <SidebarInset className="flex-1 flex flex-col">
+              {/* Header */}
+              <header className="flex-none border-b bg-background">
+                <div className="container flex h-14 max-w-screen-2xl items-center">
+                  <SidebarTrigger />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => router.push("/")}
+                    className="ml-2 md:hidden"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back to chat</span>
+                  </Button>
+                  <div className="ml-4 flex-1">
+                    <h1 className="text-lg font-semibold">
+                      {team?.name ?? "Team"}
+                    </h1>
+                    <p className="text-sm text-muted-foreground hidden sm:block">
+                      Manage members and invitations
+                    </p>
+                  </div>
+                  <ThemeToggle />
+                </div>
+              </header>
+
+              {/* Content */}
+              <main className="flex-1 overflow-y-auto">
+                <div className="container max-w-screen-md p-6 space-y-6">
+                  {workspaceLoaded && !teamId ? (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Personal workspace</CardTitle>
+                        <CardDescription>
+                          Switch to a team in the sidebar to manage it, or
+                          create a new team from the same menu.
+                        </CardDescription>
+                      </CardHeader>
+                    </Card>
+                  ) : isLoading || !workspaceLoaded ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Loading team...
+                    </div>
+                  ) : error ? (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error.message}</AlertDescription>
+                    </Alert>
+                  ) : team ? (
+                    <>
+                      <TeamSettingsCard
+                        key={team.id}
+                        team={team}
+                        onChange={refetch}
+                      />
+
+                      <TeamInstructionsCard
+                        key={`instructions-${team.id}`}
+                        team={team}
+                        onChange={refetch}
+                      />
+
+                      <TeamMembersCard team={team} onChange={refetch} />
+
+                      {isTeamManager(team.role) && (
+                        <TeamInvitationsCard team={team} />
+                      )}
+                    </>
+                  ) : (
+                    <Card>
+                      <CardContent className="pt-6 text-sm text-muted-foreground">
+                        Team not found.
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+              </main>
+            </SidebarInset>
+          </div>
+        </SidebarProvider>
+      </ErrorBoundary>
+    </AuthGuard>
+  );
+}
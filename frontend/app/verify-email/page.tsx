@@ -0,0 +1,87 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { verifyEmail } from "@/lib/api/auth";
+import { useAuth } from "@/components/providers/auth-provider";
+
+type VerificationState = "pending" | "success" | "error";
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const { refreshUser } = useAuth();
+  const [state, setState] = useState<VerificationState>("pending");
+  const [message, setMessage] = useState<string>("Verifying your email...");
+  // Tokens are single-use, so guard against the effect running twice in dev
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    if (!token) {
+      setState("error");
+      setMessage("This verification link is missing its token.");
+      return;
+    }
+
+    verifyEmail(token)
+      .then((result) => {
+        setState("success");
+        setMessage(result.message);
+        return refreshUser();
+      })
+      .catch((err) => {
+        setState("error");
+        setMessage(
+          err instanceof Error ? err.message : "Email verification failed"
+        );
+      });
+  }, [token, refreshUser]);
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center">
+          {state === "pending" && <Loader2 className="h-8 w-8 animate-spin" />}
+          {state === "success" && (
+            <CheckCircle className="h-8 w-8 text-green-600" />
+          )}
+          {state === "error" && (
+            <XCircle className="h-8 w-8 text-destructive" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">Email verification</CardTitle>
+        <CardDescription>{message}</CardDescription>
+      </CardHeader>
+      {state !== "pending" && (
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/">Continue to the app</Link>
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin" />}>
+        <VerifyEmailContent />
+      </Suspense>
+    </div>
+  );
+}
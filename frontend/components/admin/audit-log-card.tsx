@@ -0,0 +1,295 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
+import {
+  getAuditEvents,
+  exportAuditEvents,
+  AuditEventFilters,
+} from "@/lib/api/admin";
+
+const EVENTS_PER_PAGE = 50;
+
+// Prefix filters match every action of a kind, e.g. all failed and successful logins
+const ACTION_GROUPS = [
+  { label: "All authentication", value: "auth." },
+  { label: "All two-factor", value: "two_factor." },
+  { label: "All admin", value: "admin." },
+];
+
+interface FilterForm {
+  action: string;
+  actorEmail: string;
+  ipAddress: string;
+  targetId: string;
+  from: string; // yyyy-mm-dd from the date input
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  action: "",
+  actorEmail: "",
+  ipAddress: "",
+  targetId: "",
+  from: "",
+  to: "",
+};
+
+// Date inputs are in local time; the range includes the whole "to" day
+function toApiFilters(form: FilterForm): AuditEventFilters {
+  return {
+    action: form.action || undefined,
+    actorEmail: form.actorEmail.trim() || undefined,
+    ipAddress: form.ipAddress.trim() || undefined,
+    targetId: form.targetId.trim() || undefined,
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export function AuditLogCard() {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-audit-events", page, filters],
+    queryFn: () =>
+      getAuditEvents({ ...filters, page, limit: EVENTS_PER_PAGE }),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: () => exportAuditEvents(filters),
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const element = document.createElement("a");
+      element.href = url;
+      element.download = filename;
+      document.body.appendChild(element);
+      element.click();
+      document.body.removeChild(element);
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  const updateField = (field: keyof FilterForm, value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const applyFilters = (next: FilterForm) => {
+    setPage(1);
+    setFilters(toApiFilters(next));
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Audit log</CardTitle>
+          <CardDescription>
+            {data
+              ? `${data.pagination.totalCount} matching events`
+              : "Sign-ins, credential changes, deletions, exports and admin actions"}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+        >
+          {exportMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters(form);
+          }}
+          className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4"
+        >
+          <select
+            value={form.action}
+            onChange={(e) => updateField("action", e.target.value)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            aria-label="Action"
+          >
+            <option value="">All actions</option>
+            {ACTION_GROUPS.map((group) => (
+              <option key={group.value} value={group.value}>
+                {group.label}
+              </option>
+            ))}
+            {data?.actions.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={form.actorEmail}
+            onChange={(e) => updateField("actorEmail", e.target.value)}
+            placeholder="Actor email"
+          />
+          <Input
+            value={form.ipAddress}
+            onChange={(e) => updateField("ipAddress", e.target.value)}
+            placeholder="IP address"
+          />
+          <Input
+            value={form.targetId}
+            onChange={(e) => updateField("targetId", e.target.value)}
+            placeholder="Target ID"
+          />
+          <Input
+            type="date"
+            value={form.from}
+            onChange={(e) => updateField("from", e.target.value)}
+            aria-label="From"
+          />
+          <Input
+            type="date"
+            value={form.to}
+            onChange={(e) => updateField("to", e.target.value)}
+            aria-label="To"
+          />
+          <Button type="submit" variant="outline">
+            Apply filters
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleReset}>
+            Reset
+          </Button>
+        </form>
+
+        {exportMutation.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{exportMutation.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading events...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : data && data.events.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 font-medium">Time</th>
+                  <th className="py-2 font-medium">Action</th>
+                  <th className="py-2 font-medium">Actor</th>
+                  <th className="py-2 font-medium">Target</th>
+                  <th className="py-2 font-medium">IP address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.events.map((event) => (
+                  <tr key={event.id} className="border-b align-top">
+                    <td className="py-2 whitespace-nowrap text-muted-foreground">
+                      {format(new Date(event.createdAt), "yyyy-MM-dd HH:mm:ss")}
+                    </td>
+                    <td className="py-2">
+                      <Badge
+                        variant={
+                          event.action.endsWith("_failed") ||
+                          event.action === "auth.refresh_token_reused"
+                            ? "destructive"
+                            : "outline"
+                        }
+                      >
+                        {event.action}
+                      </Badge>
+                      {event.metadata && (
+                        <div className="mt-1 max-w-xs truncate font-mono text-xs text-muted-foreground">
+                          {JSON.stringify(event.metadata)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {event.actorEmail ?? (
+                        <span className="text-muted-foreground">
+                          {event.actorId ?? "Anonymous"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {event.targetType ? (
+                        <>
+                          <div>{event.targetType}</div>
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {event.targetId}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+                    <td className="py-2 font-mono text-xs">
+                      {event.ipAddress ?? "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No events found.</p>
+        )}
+
+        {data && data.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <span className="text-sm text-muted-foreground">
+              Page {data.pagination.page} of {data.pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!data.pagination.hasPrev}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!data.pagination.hasNext}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Shield, ShieldOff, Ban, CheckCircle } from "lucide-react";
+import {
+  getUserUsage,
+  adjustUserCredits,
+  updateUser,
+  AdminUser,
+  UpdateUserRequest,
+} from "@/lib/api/admin";
+import { getPlans, PlanId } from "@/lib/api/credits";
+
+interface UserDetailPanelProps {
+  user: AdminUser;
+  isCurrentUser: boolean;
+  onUserUpdated: (user: AdminUser) => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function UserDetailPanel({
+  user,
+  isCurrentUser,
+  onUserUpdated,
+}: UserDetailPanelProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const {
+    data: usageData,
+    isLoading: usageLoading,
+    refetch: refetchUsage,
+  } = useQuery({
+    queryKey: ["admin-user-usage", user.id],
+    queryFn: () => getUserUsage(user.id),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: plansData } = useQuery({
+    queryKey: ["plans"],
+    queryFn: getPlans,
+    staleTime: Infinity,
+  });
+
+  const creditsMutation = useMutation({
+    mutationFn: ({ value, note }: { value: number; note?: string }) =>
+      adjustUserCredits(user.id, value, note),
+    onSuccess: (result) => {
+      setAmount("");
+      setReason("");
+      onUserUpdated(result.user);
+      refetchUsage();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UpdateUserRequest) => updateUser(user.id, data),
+    onSuccess: (result) => onUserUpdated(result.user),
+  });
+
+  const parsedAmount = Number(amount);
+  const canAdjust =
+    amount !== "" && Number.isInteger(parsedAmount) && parsedAmount !== 0;
+
+  const handleAdjust = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdjust) return;
+    creditsMutation.mutate({
+      value: parsedAmount,
+      note: reason.trim() || undefined,
+    });
+  };
+
+  const usage = usageData?.usage;
+  const actionError = creditsMutation.error || updateMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {user.username}
+          {user.role === "ADMIN" && <Badge>Admin</Badge>}
+          {user.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+        </CardTitle>
+        <CardDescription>{user.email}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Usage */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Usage</h3>
+          {usageLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading usage...
+            </div>
+          ) : usage ? (
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <dt className="text-muted-foreground">Credits</dt>
+              <dd className="font-medium">{usage.credits}</dd>
+              <dt className="text-muted-foreground">Conversations</dt>
+              <dd className="font-medium">{usage.conversations}</dd>
+              <dt className="text-muted-foreground">Prompts (total)</dt>
+              <dd className="font-medium">{usage.messages.user}</dd>
+              <dt className="text-muted-foreground">Responses (total)</dt>
+              <dd className="font-medium">{usage.messages.assistant}</dd>
+              <dt className="text-muted-foreground">Prompts (30 days)</dt>
+              <dd className="font-medium">{usage.messagesLast30Days.user}</dd>
+              <dt className="text-muted-foreground">Artifacts</dt>
+              <dd className="font-medium">
+                {usage.artifacts.count} (
+                {formatBytes(usage.artifacts.totalBytes)})
+              </dd>
+              <dt className="text-muted-foreground">Last active</dt>
+              <dd className="font-medium">
+                {usage.lastActiveAt
+                  ? formatDistanceToNow(new Date(usage.lastActiveAt), {
+                      addSuffix: true,
+                    })
+                  : "Never"}
+              </dd>
+            </dl>
+          ) : null}
+        </div>
+
+        <Separator />
+
+        {/* Credits */}
+        <form onSubmit={handleAdjust} className="space-y-2">
+          <h3 className="text-sm font-medium">Adjust credits</h3>
+          <p className="text-xs text-muted-foreground">
+            Use a negative number to deduct credits.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              step={1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="e.g. 50"
+              className="w-28"
+              disabled={creditsMutation.isPending}
+            />
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={200}
+              disabled={creditsMutation.isPending}
+            />
+            <Button
+              type="submit"
+              disabled={!canAdjust || creditsMutation.isPending}
+            >
+              {creditsMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Apply
+            </Button>
+          </div>
+        </form>
+
+        <Separator />
+
+        {/* Plan */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Plan</h3>
+          <p className="text-xs text-muted-foreground">
+            {user.nextRefillAt
+              ? `Next refill on ${format(new Date(user.nextRefillAt), "PP")}.`
+              : "Refilled on the next run of the refill job."}{" "}
+            Team plans apply when they are more generous.
+          </p>
+          <select
+            value={user.planId}
+            onChange={(e) =>
+              updateMutation.mutate({ planId: e.target.value as PlanId })
+            }
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            aria-label="Plan"
+            disabled={updateMutation.isPending || !plansData}
+          >
+            {(plansData?.plans ?? []).map((plan) => (
+              <option key={plan.id} value={plan.id}>
+                {plan.name} ({plan.monthlyCredits} credits/month)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Separator />
+
+        {/* Account actions */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Account</h3>
+          {isCurrentUser ? (
+            <p className="text-xs text-muted-foreground">
+              You cannot change the role or status of your own account.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={updateMutation.isPending}
+                onClick={() =>
+                  updateMutation.mutate({
+                    role: user.role === "ADMIN" ? "USER" : "ADMIN",
+                  })
+                }
+              >
+                {user.role === "ADMIN" ? (
+                  <>
+                    <ShieldOff className="mr-2 h-4 w-4" />
+                    Remove admin
+                  </>
+                ) : (
+                  <>
+                    <Shield className="mr-2 h-4 w-4" />
+                    Make admin
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className={user.disabledAt ? undefined : "text-destructive"}
+                disabled={updateMutation.isPending}
+                onClick={() =>
+                  updateMutation.mutate({ disabled: !user.disabledAt })
+                }
+              >
+                {user.disabledAt ? (
+                  <>
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    Enable account
+                  </>
+                ) : (
+                  <>
+                    <Ban className="mr-2 h-4 w-4" />
+                    Disable account
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {actionError && (
+          <Alert variant="destructive">
+            <AlertDescription>{actionError.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, CheckCircle } from "lucide-react";
+import { changePassword } from "@/lib/api/auth";
+
+interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export function ChangePasswordForm() {
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const changeForm = useForm<ChangePasswordFormData>();
+
+  const handleChange = async (data: ChangePasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const result = await changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      setSuccessMessage(
+        `${result.message}. Other devices have been signed out.`
+      );
+      changeForm.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {successMessage && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{successMessage}</AlertDescription>
+        </Alert>
+      )}
+
+      <form
+        onSubmit={changeForm.handleSubmit(handleChange)}
+        className="space-y-4 max-w-sm"
+      >
+        <div className="space-y-2">
+          <label htmlFor="current-password" className="text-sm font-medium">
+            Current password
+          </label>
+          <Input
+            id="current-password"
+            {...changeForm.register("currentPassword", {
+              required: "Current password is required",
+            })}
+            type="password"
+            autoComplete="current-password"
+            disabled={isLoading}
+          />
+          {changeForm.formState.errors.currentPassword && (
+            <p className="text-sm text-destructive">
+              {changeForm.formState.errors.currentPassword.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="new-password" className="text-sm font-medium">
+            New password
+          </label>
+          <Input
+            id="new-password"
+            {...changeForm.register("newPassword", {
+              required: "New password is required",
+              minLength: {
+                value: 8,
+                message: "Password must be at least 8 characters",
+              },
+            })}
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+          />
+          {changeForm.formState.errors.newPassword && (
+            <p className="text-sm text-destructive">
+              {changeForm.formState.errors.newPassword.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="confirm-new-password" className="text-sm font-medium">
+            Confirm new password
+          </label>
+          <Input
+            id="confirm-new-password"
+            {...changeForm.register("confirmPassword", {
+              required: "Please confirm your new password",
+              validate: (value) =>
+                value === changeForm.getValues("newPassword") ||
+                "Passwords do not match",
+            })}
+            type="password"
+            autoComplete="new-password"
+            disabled={isLoading}
+          />
+          {changeForm.formState.errors.confirmPassword && (
+            <p className="text-sm text-destructive">
+              {changeForm.formState.errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Updating password...
+            </>
+          ) : (
+            "Change password"
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/components/providers/auth-provider'
+import { resendVerificationEmail } from '@/lib/api/auth'
+import { Loader2, MailWarning } from 'lucide-react'
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth()
+  const [isSending, setIsSending] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  if (!user || user.emailVerified) {
+    return null
+  }
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setStatus(null)
+    try {
+      const result = await resendVerificationEmail()
+      setStatus(result.message)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to resend verification email')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Alert className="rounded-none border-x-0 border-t-0">
+      <MailWarning className="h-4 w-4" />
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          Please verify <strong>{user.email}</strong> to start sending messages.
+          {status && <span className="ml-2 text-muted-foreground">{status}</span>}
+        </span>
+        <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+          {isSending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Resend email
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, CheckCircle } from "lucide-react";
+import { requestPasswordReset } from "@/lib/api/auth";
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+export function ForgotPasswordForm() {
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const forgotForm = useForm<ForgotPasswordFormData>();
+
+  const handleRequest = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await requestPasswordReset(data.email);
+      setSentMessage(result.message);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to request password reset"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sentMessage) {
+    return (
+      <Alert>
+        <CheckCircle className="h-4 w-4" />
+        <AlertDescription>{sentMessage}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form
+        onSubmit={forgotForm.handleSubmit(handleRequest)}
+        className="space-y-4"
+      >
+        <div className="space-y-2">
+          <label htmlFor="forgot-email" className="text-sm font-medium">
+            Email
+          </label>
+          <Input
+            id="forgot-email"
+            {...forgotForm.register("email", {
+              required: "Email is required",
+              pattern: {
+                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                message: "Invalid email address",
+              },
+            })}
+            type="email"
+            placeholder="Enter your email"
+            disabled={isLoading}
+          />
+          {forgotForm.formState.errors.email && (
+            <p className="text-sm text-destructive">
+              {forgotForm.formState.errors.email.message}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending link...
+            </>
+          ) : (
+            "Send reset link"
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
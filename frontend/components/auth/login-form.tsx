@@ -25,17 +25,45 @@ import {
   ArrowRight,
   Star,
 } from "lucide-react";
-import { login } from "@/lib/api/auth";
+import { login, isTwoFactorChallenge } from "@/lib/api/auth";
 import { useAuth } from "@/components/providers/auth-provider";
+import { RegisterForm } from "@/components/auth/register-form";
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+import { OidcProviderButtons } from "@/components/auth/oidc-provider-buttons";
+import { TwoFactorChallengeForm } from "@/components/auth/two-factor-challenge-form";
 
 interface LoginFormData {
   email: string;
   password: string;
 }
 
+type AuthMode = "login" | "register" | "forgot" | "two-factor";
+
+const MODE_HEADINGS: Record<AuthMode, { title: string; description: string }> =
+  {
+    login: {
+      title: "Welcome back",
+      description: "Sign in to continue building amazing projects",
+    },
+    register: {
+      title: "Create an account",
+      description: "Sign up to start building with the AI coding assistant",
+    },
+    forgot: {
+      title: "Reset your password",
+      description: "We'll email you a link to choose a new password",
+    },
+    "two-factor": {
+      title: "Two-factor authentication",
+      description: "Confirm it's you to finish signing in",
+    },
+  };
+
 export function LoginForm() {
+  const [mode, setMode] = useState<AuthMode>("login");
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const { login: authLogin } = useAuth();
 
   const loginForm = useForm<LoginFormData>();
@@ -46,6 +74,11 @@ export function LoginForm() {
 
     try {
       const result = await login(data);
+      if (isTwoFactorChallenge(result)) {
+        setChallengeToken(result.challengeToken);
+        setMode("two-factor");
+        return;
+      }
       authLogin(result.token, result.user);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed");
@@ -54,6 +87,12 @@ export function LoginForm() {
     }
   };
 
+  const switchMode = (nextMode: AuthMode) => {
+    setError(null);
+    setChallengeToken(null);
+    setMode(nextMode);
+  };
+
   return (
     <div className="min-h-screen grid lg:grid-cols-2">
       {/* Left Side - Product Details */}
@@ -166,92 +205,160 @@ export function LoginForm() {
           <Card>
             <CardHeader className="space-y-1">
               <CardTitle className="text-2xl text-center">
-                Welcome back
+                {MODE_HEADINGS[mode].title}
               </CardTitle>
               <CardDescription className="text-center">
-                Sign in to continue building amazing projects
+                {MODE_HEADINGS[mode].description}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              <form
-                onSubmit={loginForm.handleSubmit(handleLogin)}
-                className="space-y-4"
-              >
-                <div className="space-y-2">
-                  <label htmlFor="email" className="text-sm font-medium">
-                    Email
-                  </label>
-                  <Input
-                    id="email"
-                    {...loginForm.register("email", {
-                      required: "Email is required",
-                      pattern: {
-                        value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                        message: "Invalid email address",
-                      },
-                    })}
-                    type="email"
-                    placeholder="Enter your email"
-                    disabled={isLoading}
-                  />
-                  {loginForm.formState.errors.email && (
-                    <p className="text-sm text-destructive">
-                      {loginForm.formState.errors.email.message}
-                    </p>
-                  )}
-                </div>
+              {mode === "two-factor" && challengeToken ? (
+                <TwoFactorChallengeForm
+                  challengeToken={challengeToken}
+                  onCancel={() => {
+                    loginForm.resetField("password");
+                    switchMode("login");
+                  }}
+                />
+              ) : mode === "register" ? (
+                <>
+                  <RegisterForm />
 
-                <div className="space-y-2">
-                  <label htmlFor="password" className="text-sm font-medium">
-                    Password
-                  </label>
-                  <Input
-                    id="password"
-                    {...loginForm.register("password", {
-                      required: "Password is required",
-                    })}
-                    type="password"
-                    placeholder="Enter your password"
-                    disabled={isLoading}
-                  />
-                  {loginForm.formState.errors.password && (
-                    <p className="text-sm text-destructive">
-                      {loginForm.formState.errors.password.message}
-                    </p>
-                  )}
-                </div>
+                  <Separator />
 
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Signing in...
-                    </>
-                  ) : (
-                    <>
+                  <p className="text-center text-sm text-muted-foreground">
+                    Already have an account?{" "}
+                    <button
+                      type="button"
+                      className="font-medium text-foreground underline-offset-4 hover:underline"
+                      onClick={() => switchMode("login")}
+                    >
                       Sign in
-                      <ArrowRight className="ml-2 h-4 w-4" />
-                    </>
+                    </button>
+                  </p>
+                </>
+              ) : mode === "forgot" ? (
+                <>
+                  <ForgotPasswordForm />
+
+                  <Separator />
+
+                  <p className="text-center text-sm text-muted-foreground">
+                    Remembered it?{" "}
+                    <button
+                      type="button"
+                      className="font-medium text-foreground underline-offset-4 hover:underline"
+                      onClick={() => switchMode("login")}
+                    >
+                      Back to sign in
+                    </button>
+                  </p>
+                </>
+              ) : (
+                <>
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
                   )}
-                </Button>
-              </form>
 
-              <Separator />
+                  <form
+                    onSubmit={loginForm.handleSubmit(handleLogin)}
+                    className="space-y-4"
+                  >
+                    <div className="space-y-2">
+                      <label htmlFor="email" className="text-sm font-medium">
+                        Email
+                      </label>
+                      <Input
+                        id="email"
+                        {...loginForm.register("email", {
+                          required: "Email is required",
+                          pattern: {
+                            value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                            message: "Invalid email address",
+                          },
+                        })}
+                        type="email"
+                        placeholder="Enter your email"
+                        disabled={isLoading}
+                      />
+                      {loginForm.formState.errors.email && (
+                        <p className="text-sm text-destructive">
+                          {loginForm.formState.errors.email.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <label htmlFor="password" className="text-sm font-medium">
+                          Password
+                        </label>
+                        <button
+                          type="button"
+                          className="text-sm text-muted-foreground underline-offset-4 hover:underline"
+                          onClick={() => switchMode("forgot")}
+                        >
+                          Forgot password?
+                        </button>
+                      </div>
+                      <Input
+                        id="password"
+                        {...loginForm.register("password", {
+                          required: "Password is required",
+                        })}
+                        type="password"
+                        placeholder="Enter your password"
+                        disabled={isLoading}
+                      />
+                      {loginForm.formState.errors.password && (
+                        <p className="text-sm text-destructive">
+                          {loginForm.formState.errors.password.message}
+                        </p>
+                      )}
+                    </div>
 
-              {/* Demo Notice */}
-              <Alert>
-                <CheckCircle className="h-4 w-4" />
-                <AlertDescription>
-                  <strong>Demo Access:</strong> Use any valid email format and
-                  password to access the demo environment.
-                </AlertDescription>
-              </Alert>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Signing in...
+                        </>
+                      ) : (
+                        <>
+                          Sign in
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </>
+                      )}
+                    </Button>
+                  </form>
+
+                  <OidcProviderButtons disabled={isLoading} />
+
+                  <Separator />
+
+                  {/* Demo Notice */}
+                  <Alert>
+                    <CheckCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      <strong>Demo Access:</strong> Use any valid email format and
+                      password to access the demo environment.
+                    </AlertDescription>
+                  </Alert>
+
+                  <p className="text-center text-sm text-muted-foreground">
+                    Don&apos;t have an account?{" "}
+                    <button
+                      type="button"
+                      className="font-medium text-foreground underline-offset-4 hover:underline"
+                      onClick={() => switchMode("register")}
+                    >
+                      Sign up
+                    </button>
+                  </p>
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -0,0 +1,57 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { KeyRound } from "lucide-react";
+import { getOidcAuthorizeUrl, getOidcProviders } from "@/lib/api/auth";
+
+interface OidcProviderButtonsProps {
+  disabled?: boolean;
+}
+
+// Renders nothing unless the backend has identity providers configured
+export function OidcProviderButtons({ disabled }: OidcProviderButtonsProps) {
+  const { data } = useQuery({
+    queryKey: ["oidc-providers"],
+    queryFn: getOidcProviders,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  const providers = data?.providers ?? [];
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Separator className="flex-1" />
+        <span className="text-xs uppercase text-muted-foreground">or</span>
+        <Separator className="flex-1" />
+      </div>
+
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <Button
+            key={provider.id}
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={disabled}
+            onClick={() => {
+              window.location.href = getOidcAuthorizeUrl(
+                provider.id,
+                window.location.pathname
+              );
+            }}
+          >
+            <KeyRound className="mr-2 h-4 w-4" />
+            Continue with {provider.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, ArrowRight } from "lucide-react";
+import { register } from "@/lib/api/auth";
+import { useAuth } from "@/components/providers/auth-provider";
+
+interface RegisterFormData {
+  email: string;
+  username: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export function RegisterForm() {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { login: authLogin } = useAuth();
+
+  const registerForm = useForm<RegisterFormData>();
+
+  const handleRegister = async (data: RegisterFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await register({
+        email: data.email,
+        username: data.username,
+        password: data.password,
+      });
+      authLogin(result.token, result.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Registration failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form
+        onSubmit={registerForm.handleSubmit(handleRegister)}
+        className="space-y-4"
+      >
+        <div className="space-y-2">
+          <label htmlFor="register-email" className="text-sm font-medium">
+            Email
+          </label>
+          <Input
+            id="register-email"
+            {...registerForm.register("email", {
+              required: "Email is required",
+              pattern: {
+                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                message: "Invalid email address",
+              },
+            })}
+            type="email"
+            placeholder="Enter your email"
+            disabled={isLoading}
+          />
+          {registerForm.formState.errors.email && (
+            <p className="text-sm text-destructive">
+              {registerForm.formState.errors.email.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="register-username" className="text-sm font-medium">
+            Username
+          </label>
+          <Input
+            id="register-username"
+            {...registerForm.register("username", {
+              required: "Username is required",
+              minLength: {
+                value: 3,
+                message: "Username must be at least 3 characters",
+              },
+              maxLength: {
+                value: 30,
+                message: "Username must be at most 30 characters",
+              },
+              pattern: {
+                value: /^[a-zA-Z0-9_.-]+$/,
+                message:
+                  "Only letters, numbers, dots, dashes and underscores are allowed",
+              },
+            })}
+            placeholder="Choose a username"
+            disabled={isLoading}
+          />
+          {registerForm.formState.errors.username && (
+            <p className="text-sm text-destructive">
+              {registerForm.formState.errors.username.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="register-password" className="text-sm font-medium">
+            Password
+          </label>
+          <Input
+            id="register-password"
+            {...registerForm.register("password", {
+              required: "Password is required",
+              minLength: {
+                value: 8,
+                message: "Password must be at least 8 characters",
+              },
+            })}
+            type="password"
+            placeholder="Create a password"
+            disabled={isLoading}
+          />
+          {registerForm.formState.errors.password && (
+            <p className="text-sm text-destructive">
+              {registerForm.formState.errors.password.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor="register-confirm-password"
+            className="text-sm font-medium"
+          >
+            Confirm password
+          </label>
+          <Input
+            id="register-confirm-password"
+            {...registerForm.register("confirmPassword", {
+              required: "Please confirm your password",
+              validate: (value) =>
+                value === registerForm.getValues("password") ||
+                "Passwords do not match",
+            })}
+            type="password"
+            placeholder="Repeat your password"
+            disabled={isLoading}
+          />
+          {registerForm.formState.errors.confirmPassword && (
+            <p className="text-sm text-destructive">
+              {registerForm.formState.errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Creating account...
+            </>
+          ) : (
+            <>
+              Create account
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
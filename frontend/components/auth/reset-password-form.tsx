@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, CheckCircle } from "lucide-react";
+import { resetPassword } from "@/lib/api/auth";
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+interface ResetPasswordFormProps {
+  token: string;
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetForm = useForm<ResetPasswordFormData>();
+
+  const handleReset = async (data: ResetPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await resetPassword(token, data.password);
+      setSuccessMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (successMessage) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{successMessage}</AlertDescription>
+        </Alert>
+        <Button asChild className="w-full">
+          <Link href="/">Sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={resetForm.handleSubmit(handleReset)} className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="reset-password" className="text-sm font-medium">
+            New password
+          </label>
+          <Input
+            id="reset-password"
+            {...resetForm.register("password", {
+              required: "Password is required",
+              minLength: {
+                value: 8,
+                message: "Password must be at least 8 characters",
+              },
+            })}
+            type="password"
+            placeholder="Create a new password"
+            disabled={isLoading}
+          />
+          {resetForm.formState.errors.password && (
+            <p className="text-sm text-destructive">
+              {resetForm.formState.errors.password.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor="reset-confirm-password"
+            className="text-sm font-medium"
+          >
+            Confirm new password
+          </label>
+          <Input
+            id="reset-confirm-password"
+            {...resetForm.register("confirmPassword", {
+              required: "Please confirm your password",
+              validate: (value) =>
+                value === resetForm.getValues("password") ||
+                "Passwords do not match",
+            })}
+            type="password"
+            placeholder="Repeat your new password"
+            disabled={isLoading}
+          />
+          {resetForm.formState.errors.confirmPassword && (
+            <p className="text-sm text-destructive">
+              {resetForm.formState.errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Resetting password...
+            </>
+          ) : (
+            "Reset password"
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
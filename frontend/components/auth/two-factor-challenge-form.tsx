@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { AuthResponse, verifyTwoFactorLogin } from "@/lib/api/auth";
+import { useAuth } from "@/components/providers/auth-provider";
+
+interface TwoFactorChallengeFormProps {
+  challengeToken: string;
+  onSuccess?: (result: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+export function TwoFactorChallengeForm({
+  challengeToken,
+  onSuccess,
+  onCancel,
+}: TwoFactorChallengeFormProps) {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { login: authLogin } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await verifyTwoFactorLogin(challengeToken, code.trim());
+      authLogin(result.token, result.user);
+      onSuccess?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode((current) => !current);
+    setCode("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="two-factor-code" className="text-sm font-medium">
+            {useRecoveryCode ? "Recovery code" : "Authentication code"}
+          </label>
+          {useRecoveryCode ? (
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              autoFocus
+              disabled={isLoading}
+            />
+          ) : (
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              autoFocus
+              disabled={isLoading}
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            {useRecoveryCode
+              ? "Each recovery code can only be used once."
+              : "Enter the 6-digit code from your authenticator app."}
+          </p>
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={
+            isLoading || (useRecoveryCode ? !code.trim() : code.length !== 6)
+          }
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Verify
+            </>
+          )}
+        </Button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          className="text-muted-foreground underline-offset-4 hover:underline"
+          onClick={toggleRecoveryCode}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button
+          type="button"
+          className="text-muted-foreground underline-offset-4 hover:underline"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,15 @@
 import { useState, useRef, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { Send } from 'lucide-react'
+import { Send, Square } from 'lucide-react'
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void
   isLoading: boolean
+  onStop?: () => void
 }
 
-export function ChatInput({ onSendMessage, isLoading }: ChatInputProps) {
+export function ChatInput({ onSendMessage, isLoading, onStop }: ChatInputProps) {
   const [message, setMessage] = useState('')
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -52,16 +53,29 @@ export function ChatInput({ onSendMessage, isLoading }: ChatInputProps) {
           rows={1}
         />
         
-        {/* Send button */}
-        <Button
-          type="submit"
-          size="icon"
-          disabled={!message.trim() || isLoading}
-          className="absolute bottom-2 right-2 h-10 w-10 rounded-full"
-        >
-          <Send className="h-4 w-4" />
-          <span className="sr-only">Send message</span>
-        </Button>
+        {/* Stop button while generating, send button otherwise */}
+        {isLoading && onStop ? (
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={onStop}
+            className="absolute bottom-2 right-2 h-10 w-10 rounded-full"
+          >
+            <Square className="h-4 w-4 fill-current" />
+            <span className="sr-only">Stop generating</span>
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!message.trim() || isLoading}
+            className="absolute bottom-2 right-2 h-10 w-10 rounded-full"
+          >
+            <Send className="h-4 w-4" />
+            <span className="sr-only">Send message</span>
+          </Button>
+        )}
       </div>
       
       {/* Loading indicator */}
@@ -5,8 +5,9 @@ import { useAppStore, CodeArtifact } from "@/lib/store/app-store";
 import { MessageList } from "./message-list";
 import { ChatInput } from "./chat-input";
 import { ChatHome } from "./chat-home";
+import { ChatSettingsPopover } from "./chat-settings-popover";
 import { useMutation } from "@tanstack/react-query";
-import { streamChatMessage } from "@/lib/api/chat";
+import { streamChatMessage, cancelChatMessage } from "@/lib/api/chat";
 import { getArtifactCode } from "@/lib/api/artifacts";
 import { CreditExhaustedDialog } from "@/components/ui/credit-exhausted-dialog";
 import { useAuth } from "@/components/providers/auth-provider";
@@ -21,13 +22,18 @@ export function ChatInterface() {
     currentConversationId,
     setCurrentConversation,
     addConversation,
+    generationSettings,
+    setGenerationSettings,
   } = useAppStore();
 
   const { user } = useAuth();
   const [currentResponse, setCurrentResponse] = useState("");
   const [currentArtifacts, setCurrentArtifacts] = useState<CodeArtifact[]>([]);
   const [showCreditDialog, setShowCreditDialog] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Stream session of the response being generated, used to stop it
+  const streamSessionRef = useRef<string | null>(null);
 
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
@@ -120,8 +126,15 @@ export function ChatInterface() {
         (build: { status: string; message?: string }) => {
           console.log("Build result:", build);
         },
-        currentConversationId || undefined
+        currentConversationId || undefined,
+        generationSettings,
+        (sessionId) => {
+          streamSessionRef.current = sessionId;
+        },
+        setIsReconnecting
       );
+      streamSessionRef.current = null;
+      setIsReconnecting(false);
 
       // If we got conversation metadata and it's a new conversation, update the state
       if (result && result.conversationId && !currentConversationId) {
@@ -148,6 +161,8 @@ export function ChatInterface() {
         role: "assistant",
         content: responseContent,
         artifacts: currentArtifacts,
+        usage: result ? result.usage : undefined,
+        cancelled: result?.cancelled,
       });
       setCurrentResponse("");
       setCurrentArtifacts([]);
@@ -155,6 +170,8 @@ export function ChatInterface() {
     },
     onError: (error) => {
       console.error("Failed to send message:", error);
+      streamSessionRef.current = null;
+      setIsReconnecting(false);
       setLoading(false);
       setCurrentResponse("");
 
@@ -183,6 +200,14 @@ export function ChatInterface() {
     sendMessageMutation.mutate(content);
   };
 
+  // The server ends the stream with what was generated so far
+  const handleStop = () => {
+    if (!streamSessionRef.current) return;
+    cancelChatMessage(streamSessionRef.current).catch((error) => {
+      console.error("Failed to stop generation:", error);
+    });
+  };
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -190,7 +215,16 @@ export function ChatInterface() {
   }, [messages, currentResponse]);
 
   return (
-    <div className="flex h-full flex-col">
+    <div className="relative flex h-full flex-col">
+      {/* Generation settings for this conversation */}
+      <div className="absolute right-4 top-4 z-10">
+        <ChatSettingsPopover
+          settings={generationSettings}
+          onChange={setGenerationSettings}
+          disabled={isLoading}
+        />
+      </div>
+
       {/* Content Area */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto">
         {messages.length === 0 && !currentResponse ? (
@@ -215,9 +249,15 @@ export function ChatInterface() {
       {(messages.length > 0 || currentResponse) && (
         <div className="border-t bg-background p-4">
           <div className="mx-auto max-w-3xl">
+            {isReconnecting && (
+              <p className="mb-2 text-center text-xs text-muted-foreground">
+                Connection lost. Reconnecting...
+              </p>
+            )}
             <ChatInput
               onSendMessage={handleSendMessage}
               isLoading={isLoading}
+              onStop={handleStop}
             />
           </div>
         </div>
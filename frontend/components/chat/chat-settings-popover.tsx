@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getChatModels } from "@/lib/api/chat";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/api/account";
+import {
+  GenerationSettings,
+  DEFAULT_GENERATION_SETTINGS,
+} from "@/lib/store/app-store";
+
+interface ChatSettingsPopoverProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+interface NumberSettingProps {
+  id: string;
+  label: string;
+  hint: string;
+  value: number | null;
+  min: number;
+  max: number;
+  step: number;
+  placeholder: string;
+  onChange: (value: number | null) => void;
+}
+
+function parseSetting(text: string, min: number, max: number) {
+  if (text.trim() === "") return null;
+  const value = Number(text);
+  return Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+}
+
+// Keeps the typed text, so partial input like "0." is not overwritten
+function NumberSetting({
+  id,
+  label,
+  hint,
+  value,
+  min,
+  max,
+  step,
+  placeholder,
+  onChange,
+}: NumberSettingProps) {
+  const [text, setText] = useState(value?.toString() ?? "");
+  const [syncedValue, setSyncedValue] = useState(value);
+  const parsed = parseSetting(text, min, max);
+
+  // Take over values set from outside, such as a reset or another conversation
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    if (parsed !== value) {
+      setText(value?.toString() ?? "");
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm font-medium">
+        {label}
+      </label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={text}
+        placeholder={placeholder}
+        aria-invalid={parsed === undefined}
+        onChange={(e) => {
+          setText(e.target.value);
+          const next = parseSetting(e.target.value, min, max);
+          if (next !== undefined) onChange(next);
+        }}
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+}
+
+export function ChatSettingsPopover({
+  settings,
+  onChange,
+  disabled,
+}: ChatSettingsPopoverProps) {
+  const { data } = useQuery({
+    queryKey: ["chat-models"],
+    queryFn: getChatModels,
+    // The model list only changes with the server's configuration
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const update = (changes: Partial<GenerationSettings>) =>
+    onChange({ ...settings, ...changes });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          {settings.model ?? data?.defaultModel ?? "Settings"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="max-h-[80vh] w-80 space-y-4 overflow-y-auto"
+      >
+        <div>
+          <h3 className="text-sm font-medium">Chat settings</h3>
+          <p className="text-xs text-muted-foreground">
+            Saved with the conversation when you send your next message.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label htmlFor="chat-settings-model" className="text-sm font-medium">
+            Model
+          </label>
+          <select
+            id="chat-settings-model"
+            value={settings.model ?? ""}
+            onChange={(e) => update({ model: e.target.value || null })}
+            className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+            disabled={!data}
+          >
+            <option value="">
+              Default{data ? ` (${data.defaultModel})` : ""}
+            </option>
+            {(data?.models ?? [])
+              .filter((model) => model !== data?.defaultModel)
+              .map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+          </select>
+        </div>
+
+        <NumberSetting
+          id="chat-settings-temperature"
+          label="Temperature"
+          hint="0 to 2. Lower is more focused, higher more varied."
+          value={settings.temperature}
+          min={0}
+          max={2}
+          step={0.1}
+          placeholder="Default"
+          onChange={(temperature) => update({ temperature })}
+        />
+
+        <NumberSetting
+          id="chat-settings-max-tokens"
+          label="Max output tokens"
+          hint={
+            data
+              ? `Up to ${data.maxOutputTokens} on your plan.`
+              : "Limited by your plan."
+          }
+          value={settings.maxOutputTokens}
+          min={1}
+          max={data?.maxOutputTokens ?? Number.MAX_SAFE_INTEGER}
+          step={1}
+          placeholder="Default"
+          onChange={(maxOutputTokens) =>
+            update({
+              maxOutputTokens:
+                maxOutputTokens === null ? null : Math.round(maxOutputTokens),
+            })
+          }
+        />
+
+        <NumberSetting
+          id="chat-settings-top-p"
+          label="Top P"
+          hint="0 to 1. Only the most likely tokens up to this probability are sampled."
+          value={settings.topP}
+          min={0}
+          max={1}
+          step={0.05}
+          placeholder="Default"
+          onChange={(topP) => update({ topP })}
+        />
+
+        <div className="space-y-1">
+          <label
+            htmlFor="chat-settings-instructions"
+            className="text-sm font-medium"
+          >
+            Instructions for this chat
+          </label>
+          <Textarea
+            id="chat-settings-instructions"
+            value={settings.customInstructions ?? ""}
+            onChange={(e) =>
+              update({ customInstructions: e.target.value || null })
+            }
+            placeholder="Take precedence over your own and your team's instructions"
+            maxLength={MAX_INSTRUCTIONS_LENGTH}
+            rows={3}
+          />
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+        >
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
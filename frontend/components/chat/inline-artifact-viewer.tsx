@@ -21,7 +21,7 @@ import { CodeEditor } from '@/components/sidebar/code-editor'
 import { CodePreview } from '@/components/sidebar/code-preview'
 import { CodeArtifact, useAppStore } from '@/lib/store/app-store'
 import { getArtifactCode, downloadArtifact } from '@/lib/api/artifacts'
-import { buildApiUrl, API_CONFIG } from '@/lib/config/api'
+import { usePreviewUrl } from '@/hooks/use-preview-url'
 
 interface InlineArtifactViewerProps {
   artifact: CodeArtifact
@@ -128,6 +128,11 @@ export function InlineArtifactViewer({ artifact, className = '' }: InlineArtifac
   const isWebLanguage = ['html', 'css', 'javascript', 'tsx', 'jsx', 'typescript', 'react'].includes(
     artifact.language.toLowerCase()
   )
+
+  // The compact view embeds the backend preview; the expanded view uses CodePreview
+  const { data: previewUrl } = usePreviewUrl(
+    !isExpanded && currentView === 'preview' && isWebLanguage ? artifact.id : undefined
+  )
   
   // Debug logging
   console.log('Artifact language check:', {
@@ -280,7 +285,7 @@ export function InlineArtifactViewer({ artifact, className = '' }: InlineArtifac
           ) : isWebLanguage ? (
             <div className="h-24 border border-border rounded-md overflow-hidden bg-background">
               <iframe
-                src={buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.PREVIEW(artifact.id))}
+                src={previewUrl}
                 className="w-full h-full border-none"
                 sandbox="allow-scripts allow-same-origin"
                 title={`Preview of ${artifact.title}`}
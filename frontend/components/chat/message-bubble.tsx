@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Message, useAppStore } from '@/lib/store/app-store'
+import { Message, MessageUsage, useAppStore } from '@/lib/store/app-store'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
@@ -17,6 +17,18 @@ import {
 } from 'lucide-react'
 import { ArtifactAwareMarkdown } from './artifact-aware-markdown'
 
+function formatUsage(usage: MessageUsage) {
+  const parts = []
+  if (usage.promptTokens !== null || usage.completionTokens !== null) {
+    const tokens = (usage.promptTokens ?? 0) + (usage.completionTokens ?? 0)
+    parts.push(`${tokens.toLocaleString()} tokens`)
+  }
+  if (usage.credits !== null) {
+    parts.push(`${usage.credits} ${usage.credits === 1 ? 'credit' : 'credits'}`)
+  }
+  return parts.join(' · ')
+}
+
 interface MessageBubbleProps {
   message: Message
   isStreaming?: boolean
@@ -78,6 +90,21 @@ export function MessageBubble({ message, isStreaming = false, onResend }: Messag
               <div className="w-1 h-1 bg-primary rounded-full animate-bounce [animation-delay:0.2s]"></div>
             </div>
           )}
+          {!isUser && !isStreaming && message.usage && (
+            <span
+              className="text-xs text-muted-foreground"
+              title={
+                message.usage.promptTokens !== null
+                  ? `${message.usage.promptTokens.toLocaleString()} prompt + ${(message.usage.completionTokens ?? 0).toLocaleString()} completion tokens`
+                  : undefined
+              }
+            >
+              {formatUsage(message.usage)}
+            </span>
+          )}
+          {!isUser && !isStreaming && message.cancelled && (
+            <span className="text-xs text-muted-foreground">Stopped</span>
+          )}
         </div>
 
         <div className="w-full">
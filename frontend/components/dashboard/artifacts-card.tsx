@@ -0,0 +1,73 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { getArtifactAnalytics } from "@/lib/api/analytics";
+import { BarList } from "./bar-list";
+
+export function ArtifactsCard({ days }: { days: number }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["analytics-artifacts", days],
+    queryFn: () => getArtifactAnalytics(days),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const artifacts = data?.artifacts;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Artifacts</CardTitle>
+        <CardDescription>
+          {artifacts
+            ? `${artifacts.total} created in the last ${artifacts.days} days`
+            : "Code extracted from responses"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading artifacts...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : artifacts ? (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">By language</h3>
+              <BarList
+                items={artifacts.byLanguage.map((group) => ({
+                  label: group.language,
+                  value: group.count,
+                }))}
+                emptyMessage="No artifacts yet."
+              />
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">By type</h3>
+              <BarList
+                items={artifacts.byType.map((group) => ({
+                  label: group.type.toLowerCase(),
+                  value: group.count,
+                }))}
+                emptyMessage="No artifacts yet."
+              />
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
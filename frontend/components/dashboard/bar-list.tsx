@@ -0,0 +1,34 @@
+"use client";
+
+interface BarListProps {
+  items: Array<{ label: string; value: number }>;
+  emptyMessage: string;
+}
+
+// Horizontal bars with counts, scaled to the largest item
+export function BarList({ items, emptyMessage }: BarListProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(1, ...items.map((item) => item.value));
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.label} className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span>{item.label}</span>
+            <span className="font-medium">{item.value}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-primary"
+              style={{ width: `${(item.value / max) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
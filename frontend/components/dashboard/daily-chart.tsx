@@ -0,0 +1,41 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+
+interface DailyChartProps {
+  data: Array<{ date: string; value: number }>;
+  unit: string;
+  className?: string; // Bar colour
+}
+
+// Vertical bars, one per day, scaled to the busiest day
+export function DailyChart({ data, unit, className = "bg-primary" }: DailyChartProps) {
+  const max = Math.max(1, ...data.map((day) => day.value));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-32 items-end gap-px">
+        {data.map((day) => (
+          <div
+            key={day.date}
+            className="group relative flex h-full flex-1 items-end"
+            title={`${format(parseISO(day.date), "PP")}: ${day.value} ${unit}`}
+          >
+            <div
+              className={`w-full rounded-t-sm ${className} ${
+                day.value === 0 ? "opacity-20" : "group-hover:opacity-80"
+              }`}
+              style={{ height: `${Math.max(2, (day.value / max) * 100)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      {data.length > 0 && (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{format(parseISO(data[0].date), "MMM d")}</span>
+          <span>{format(parseISO(data[data.length - 1].date), "MMM d")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
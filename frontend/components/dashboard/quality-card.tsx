@@ -0,0 +1,91 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { getQualityAnalytics } from "@/lib/api/analytics";
+import { BarList } from "./bar-list";
+
+export function QualityCard() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["analytics-quality"],
+    queryFn: getQualityAnalytics,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const quality = data?.quality;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Builds and security</CardTitle>
+        <CardDescription>
+          {quality
+            ? `All users, since the server started ${formatDistanceToNow(
+                new Date(quality.since),
+                { addSuffix: true }
+              )}`
+            : "Preview builds and security scans across the service"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading metrics...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : quality ? (
+          <>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Builds</span>
+                <span className="font-medium">
+                  {quality.builds.succeeded} of {quality.builds.total} succeeded
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Average build time</span>
+                <span className="font-medium">
+                  {quality.builds.averageBuildTimeMs !== null
+                    ? `${(quality.builds.averageBuildTimeMs / 1000).toFixed(1)}s`
+                    : "-"}
+                </span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <h3 className="font-medium">Security scores</h3>
+                <span className="text-muted-foreground">
+                  {quality.security.scans} scans
+                </span>
+              </div>
+              <BarList
+                items={[...quality.security.distribution]
+                  .reverse()
+                  .filter((band) => band.count > 0)
+                  .map((band) => ({
+                    label: `${band.min}-${band.max}`,
+                    value: band.count,
+                  }))}
+                emptyMessage="No responses have been scanned yet."
+              />
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
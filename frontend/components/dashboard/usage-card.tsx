@@ -0,0 +1,76 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { getUsageAnalytics } from "@/lib/api/analytics";
+import { DailyChart } from "./daily-chart";
+
+export function UsageCard({ days }: { days: number }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["analytics-usage", days],
+    queryFn: () => getUsageAnalytics(days),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const usage = data?.usage;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          Prompts you sent and credits spent per day, in your own conversations
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading activity...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : usage ? (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <h3 className="font-medium">Messages per day</h3>
+                <span className="text-muted-foreground">
+                  {usage.totals.messages} total
+                </span>
+              </div>
+              <DailyChart
+                data={usage.daily.map((day) => ({ date: day.date, value: day.messages }))}
+                unit="messages"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <h3 className="font-medium">Credits spent per day</h3>
+                <span className="text-muted-foreground">
+                  {usage.totals.creditsSpent} total
+                </span>
+              </div>
+              <DailyChart
+                data={usage.daily.map((day) => ({ date: day.date, value: day.creditsSpent }))}
+                unit="credits"
+                className="bg-amber-500"
+              />
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { ChatInterface } from '@/components/chat/chat-interface'
 import { CodeArtifactSidebar } from '@/components/sidebar/code-artifact-sidebar'
 import { NavigationSidebar } from '@/components/sidebar/navigation-sidebar'
 import { AuthGuard } from '@/components/auth/auth-guard'
+import { EmailVerificationBanner } from '@/components/auth/email-verification-banner'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { ThemeToggle } from '@/components/theme-toggle'
 import {
@@ -39,6 +40,8 @@ export function MainLayout() {
                   <ThemeToggle />
                 </div>
               </header>
+
+              <EmailVerificationBanner />
               
               {/* Main Content Area */}
               <main className="flex-1 overflow-hidden">
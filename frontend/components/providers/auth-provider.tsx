@@ -1,7 +1,8 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
 import { User, getCurrentUser, logout as apiLogout } from '@/lib/api/auth'
+import { AUTH_EXPIRED_EVENT, clearAuthTokens } from '@/lib/config/api'
 
 interface AuthContextType {
   isAuthenticated: boolean
@@ -9,6 +10,7 @@ interface AuthContextType {
   isLoading: boolean
   login: (token: string, user: User) => void
   logout: () => void
+  refreshUser: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -40,8 +42,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
           setUser(currentUser)
           setIsAuthenticated(true)
         } catch (error) {
-          // Token is invalid, remove it
-          localStorage.removeItem('authToken')
+          // Token is invalid and could not be refreshed, remove it
+          clearAuthTokens()
           setUser(null)
           setIsAuthenticated(false)
           console.warn('Auth token validation failed:', error)
@@ -53,20 +55,43 @@ export function AuthProvider({ children }: AuthProviderProps) {
     checkAuth()
   }, [])
 
+  useEffect(() => {
+    // The refresh token was rejected (expired, revoked or reused): sign out locally
+    const handleExpired = () => {
+      setUser(null)
+      setIsAuthenticated(false)
+    }
+
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired)
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired)
+  }, [])
+
   const login = (token: string, userData: User) => {
     setUser(userData)
     setIsAuthenticated(true)
     localStorage.setItem('authToken', token)
   }
 
+  // Re-fetch the profile after server-side changes (e.g. email verification)
+  const refreshUser = useCallback(async () => {
+    if (!localStorage.getItem('authToken')) return
+    try {
+      const { user: currentUser } = await getCurrentUser()
+      setUser(currentUser)
+      setIsAuthenticated(true)
+    } catch (error) {
+      console.warn('Failed to refresh user:', error)
+    }
+  }, [])
+
   const logout = () => {
     setUser(null)
     setIsAuthenticated(false)
-    apiLogout()
+    void apiLogout()
   }
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, isLoading, login, logout, refreshUser }}>
       {children}
     </AuthContext.Provider>
   )
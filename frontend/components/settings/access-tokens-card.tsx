@@ -0,0 +1,330 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Check, Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import {
+  getTokens,
+  createToken,
+  revokeToken,
+  PersonalAccessToken,
+  TokenScope,
+} from "@/lib/api/tokens";
+
+const SCOPE_DESCRIPTIONS: Record<TokenScope, string> = {
+  "chat:write": "Send chat messages",
+  "conversations:read": "Read conversations",
+  "conversations:write": "Rename and delete conversations",
+  "artifacts:read": "Read artifact code",
+  "artifacts:write": "Bundle and delete artifacts",
+};
+
+const EXPIRATION_OPTIONS = [
+  { label: "7 days", value: "7" },
+  { label: "30 days", value: "30" },
+  { label: "90 days", value: "90" },
+  { label: "1 year", value: "365" },
+  { label: "No expiration", value: "never" },
+];
+
+export function AccessTokensCard() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>([]);
+  const [expiration, setExpiration] = useState("30");
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [tokenToRevoke, setTokenToRevoke] =
+    useState<PersonalAccessToken | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["access-tokens"],
+    queryFn: getTokens,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createToken,
+    onSuccess: (result) => {
+      setNewSecret(result.secret);
+      setCopied(false);
+      setName("");
+      setScopes([]);
+      refetch();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeToken,
+    onSuccess: () => {
+      setTokenToRevoke(null);
+      refetch();
+    },
+  });
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiration === "never" ? null : Number(expiration),
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    setCopied(true);
+  };
+
+  const availableScopes =
+    data?.availableScopes ?? (Object.keys(SCOPE_DESCRIPTIONS) as TokenScope[]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal access tokens</CardTitle>
+        <CardDescription>
+          Use tokens to call the API from scripts and CI. Send them as{" "}
+          <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newSecret && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertDescription className="space-y-2">
+              <p>Copy your new token now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">
+                  {newSecret}
+                </code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? (
+                    <Check className="h-3 w-3" />
+                  ) : (
+                    <Copy className="h-3 w-3" />
+                  )}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-2">
+              <label htmlFor="token-name" className="text-sm font-medium">
+                Token name
+              </label>
+              <Input
+                id="token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. CI pipeline"
+                maxLength={100}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="token-expiration" className="text-sm font-medium">
+                Expiration
+              </label>
+              <select
+                id="token-expiration"
+                value={expiration}
+                onChange={(e) => setExpiration(e.target.value)}
+                disabled={createMutation.isPending}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {EXPIRATION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Scopes</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {availableScopes.map((scope) => (
+                <label
+                  key={scope}
+                  className="flex items-start gap-2 rounded-md border p-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    disabled={createMutation.isPending}
+                  />
+                  <span>
+                    <span className="font-mono text-xs">{scope}</span>
+                    <span className="block text-muted-foreground">
+                      {SCOPE_DESCRIPTIONS[scope]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {createMutation.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{createMutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            disabled={
+              createMutation.isPending || !name.trim() || scopes.length === 0
+            }
+          >
+            {createMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Generate token
+          </Button>
+        </form>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading tokens...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : data && data.tokens.length > 0 ? (
+          <ul className="space-y-3">
+            {data.tokens.map((token) => {
+              const isExpired =
+                !!token.expiresAt && new Date(token.expiresAt) < new Date();
+              return (
+                <li
+                  key={token.id}
+                  className="flex items-start justify-between gap-4 rounded-md border p-3"
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <code className="text-xs text-muted-foreground">
+                        {token.tokenPrefix}…
+                      </code>
+                      {isExpired && <Badge variant="secondary">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="text-xs">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created{" "}
+                      {formatDistanceToNow(new Date(token.createdAt), {
+                        addSuffix: true,
+                      })}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(
+                            new Date(token.lastUsedAt),
+                            { addSuffix: true }
+                          )}`
+                        : "Never used"}
+                      {" · "}
+                      {token.expiresAt
+                        ? `${isExpired ? "Expired" : "Expires"} ${formatDistanceToNow(
+                            new Date(token.expiresAt),
+                            { addSuffix: true }
+                          )}`
+                        : "Never expires"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => setTokenToRevoke(token)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Revoke token</span>
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            You have no personal access tokens.
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!tokenToRevoke}
+        onOpenChange={(open) => !open && setTokenToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Scripts using &quot;{tokenToRevoke?.name}&quot; will immediately
+              lose access. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                tokenToRevoke && revokeMutation.mutate(tokenToRevoke.id)
+              }
+              className="bg-red-600 hover:bg-red-700"
+              disabled={revokeMutation.isPending}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { exportAccountData, deleteAccount } from "@/lib/api/account";
+import { useAuth } from "@/components/providers/auth-provider";
+
+export function AccountDataCard() {
+  const { user, logout } = useAuth();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const exportMutation = useMutation({
+    mutationFn: exportAccountData,
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const element = document.createElement("a");
+      element.href = url;
+      element.download = filename;
+      document.body.appendChild(element);
+      element.click();
+      document.body.removeChild(element);
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () =>
+      deleteAccount({
+        password,
+        code: user?.twoFactorEnabled ? code.trim() : undefined,
+      }),
+    onSuccess: () => {
+      setConfirmDelete(false);
+      logout();
+    },
+  });
+
+  const closeDeleteDialog = (open: boolean) => {
+    if (open) return;
+    setConfirmDelete(false);
+    setPassword("");
+    setCode("");
+    setConfirmation("");
+    deleteMutation.reset();
+  };
+
+  const canDelete =
+    !!password &&
+    confirmation === user?.username &&
+    (!user?.twoFactorEnabled || !!code.trim()) &&
+    !deleteMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your data</CardTitle>
+        <CardDescription>
+          Download a copy of your data or permanently delete your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {exportMutation.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{exportMutation.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Export account data</p>
+            <p className="text-sm text-muted-foreground">
+              A zip archive of every conversation, message and generated
+              artifact.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+          >
+            {exportMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export
+          </Button>
+        </div>
+
+        <div className="flex items-start justify-between gap-4 rounded-md border border-destructive/50 p-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-destructive">
+              Delete account
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Permanently removes your account, conversations and generated
+              code. This cannot be undone.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="text-destructive"
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={closeDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete account</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of your conversations, messages and generated code will be
+              deleted permanently. Export your data first if you want to keep
+              a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <form
+            id="delete-account-form"
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (canDelete) deleteMutation.mutate();
+            }}
+          >
+            {deleteMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {deleteMutation.error.message}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <label
+                htmlFor="delete-account-password"
+                className="text-sm font-medium"
+              >
+                Password
+              </label>
+              <Input
+                id="delete-account-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                disabled={deleteMutation.isPending}
+              />
+            </div>
+
+            {user?.twoFactorEnabled && (
+              <div className="space-y-2">
+                <label
+                  htmlFor="delete-account-code"
+                  className="text-sm font-medium"
+                >
+                  Authentication code
+                </label>
+                <Input
+                  id="delete-account-code"
+                  autoComplete="one-time-code"
+                  placeholder="123456 or a recovery code"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  disabled={deleteMutation.isPending}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label
+                htmlFor="delete-account-confirmation"
+                className="text-sm font-medium"
+              >
+                Type <span className="font-mono">{user?.username}</span> to
+                confirm
+              </label>
+              <Input
+                id="delete-account-confirmation"
+                autoComplete="off"
+                value={confirmation}
+                onChange={(event) => setConfirmation(event.target.value)}
+                disabled={deleteMutation.isPending}
+              />
+            </div>
+          </form>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <Button
+              type="submit"
+              form="delete-account-form"
+              className="bg-red-600 hover:bg-red-700"
+              disabled={!canDelete}
+            >
+              {deleteMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Delete account
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
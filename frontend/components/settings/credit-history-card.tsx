@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  getCreditUsage,
+  getCreditHistory,
+  CreditTransactionType,
+  CREDIT_TRANSACTION_LABELS,
+} from "@/lib/api/credits";
+
+const TRANSACTIONS_PER_PAGE = 20;
+
+function formatAmount(amount: number) {
+  return amount > 0 ? `+${amount}` : String(amount);
+}
+
+export function CreditHistoryCard() {
+  const [type, setType] = useState<CreditTransactionType | "">("");
+  const [page, setPage] = useState(1);
+
+  const usageQuery = useQuery({
+    queryKey: ["credit-usage"],
+    queryFn: getCreditUsage,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const historyQuery = useQuery({
+    queryKey: ["credit-history", page, type],
+    queryFn: () =>
+      getCreditHistory({
+        page,
+        limit: TRANSACTIONS_PER_PAGE,
+        type: type || undefined,
+      }),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const usage = usageQuery.data?.usage;
+  const effectivePlan = usageQuery.data?.plan;
+  const nextRefillAt = usageQuery.data?.nextRefillAt;
+  const history = historyQuery.data;
+
+  // Types that moved the balance in the last 30 days, largest first
+  const breakdown = usage
+    ? (Object.entries(usage.last30Days.byType) as [CreditTransactionType, number][])
+        .filter(([, amount]) => amount !== 0)
+        .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Credits</CardTitle>
+        <CardDescription>
+          {usage
+            ? `${usage.balance} credits remaining. Responses are charged by the tokens they use.`
+            : "Your balance and what used it"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {usageQuery.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{usageQuery.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {usage && (
+          <div className="space-y-2 text-sm">
+            {effectivePlan && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Plan</span>
+                  <span className="font-medium">
+                    {effectivePlan.plan.name}
+                    {effectivePlan.team && ` (via ${effectivePlan.team.name})`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Topped up to {effectivePlan.plan.monthlyCredits} credits
+                  </span>
+                  <span className="font-medium">
+                    {nextRefillAt ? format(new Date(nextRefillAt), "PP") : "Soon"}
+                  </span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Used in the last 30 days</span>
+              <span className="font-medium">{usage.last30Days.spent}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Added in the last 30 days</span>
+              <span className="font-medium">{usage.last30Days.added}</span>
+            </div>
+            {breakdown.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                {breakdown.map(([transactionType, amount]) => (
+                  <Badge key={transactionType} variant="outline">
+                    {CREDIT_TRANSACTION_LABELS[transactionType]}:{" "}
+                    {formatAmount(amount)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-sm font-medium">History</h3>
+          <select
+            value={type}
+            onChange={(e) => {
+              setPage(1);
+              setType(e.target.value as CreditTransactionType | "");
+            }}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            aria-label="Transaction type"
+          >
+            <option value="">All transactions</option>
+            {(Object.keys(CREDIT_TRANSACTION_LABELS) as CreditTransactionType[]).map(
+              (transactionType) => (
+                <option key={transactionType} value={transactionType}>
+                  {CREDIT_TRANSACTION_LABELS[transactionType]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+
+        {historyQuery.isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : historyQuery.error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{historyQuery.error.message}</AlertDescription>
+          </Alert>
+        ) : history && history.transactions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Description</th>
+                  <th className="py-2 text-right font-medium">Amount</th>
+                  <th className="py-2 text-right font-medium">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.transactions.map((transaction) => (
+                  <tr key={transaction.id} className="border-b align-top">
+                    <td className="py-2 whitespace-nowrap text-muted-foreground">
+                      {format(new Date(transaction.createdAt), "yyyy-MM-dd HH:mm")}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex items-center gap-2">
+                        <span>
+                          {transaction.description ||
+                            CREDIT_TRANSACTION_LABELS[transaction.type]}
+                        </span>
+                        {transaction.refunded && (
+                          <Badge variant="secondary">Refunded</Badge>
+                        )}
+                      </div>
+                      {transaction.conversationId && (
+                        <p className="text-xs text-muted-foreground">
+                          {transaction.conversationTitle || "Untitled conversation"}
+                        </p>
+                      )}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-mono ${
+                        transaction.amount < 0 ? "text-destructive" : "text-green-600"
+                      }`}
+                    >
+                      {formatAmount(transaction.amount)}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {transaction.balanceAfter}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No transactions found.</p>
+        )}
+
+        {history && history.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <span className="text-sm text-muted-foreground">
+              Page {history.pagination.page} of {history.pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!history.pagination.hasPrev}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!history.pagination.hasNext}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import {
+  getCustomInstructions,
+  updateCustomInstructions,
+  MAX_INSTRUCTIONS_LENGTH,
+} from "@/lib/api/account";
+
+export function CustomInstructionsCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["custom-instructions"],
+    queryFn: getCustomInstructions,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const saved = data?.instructions ?? "";
+  const instructions = draft ?? saved;
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateCustomInstructions(instructions.trim()),
+    onSuccess: () => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["custom-instructions"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom instructions</CardTitle>
+        <CardDescription>
+          Added to every conversation. Team and per-chat instructions take
+          precedence where they conflict.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+          className="space-y-3"
+        >
+          {saveMutation.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{saveMutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+          <Textarea
+            value={instructions}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="e.g. We always use TypeScript, Tailwind and Vitest."
+            maxLength={MAX_INSTRUCTIONS_LENGTH}
+            rows={5}
+            disabled={isLoading || saveMutation.isPending}
+            aria-label="Custom instructions"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {instructions.length}/{MAX_INSTRUCTIONS_LENGTH}
+            </span>
+            <Button
+              type="submit"
+              disabled={
+                isLoading ||
+                saveMutation.isPending ||
+                instructions.trim() === saved
+              }
+            >
+              {saveMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import {
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  logoutEverywhere,
+  Session,
+} from "@/lib/api/sessions";
+import { useAuth } from "@/components/providers/auth-provider";
+
+// Rough browser/OS label; good enough to recognise your own devices
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) {
+    return { label: "Unknown device", mobile: false };
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+    ? "Opera"
+    : /Firefox\//.test(userAgent)
+    ? "Firefox"
+    : /Chrome\//.test(userAgent)
+    ? "Chrome"
+    : /Safari\//.test(userAgent)
+    ? "Safari"
+    : null;
+
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+    ? "Android"
+    : /Windows/.test(userAgent)
+    ? "Windows"
+    : /Mac OS X/.test(userAgent)
+    ? "macOS"
+    : /Linux/.test(userAgent)
+    ? "Linux"
+    : null;
+
+  const label =
+    browser && os
+      ? `${browser} on ${os}`
+      : browser || os || userAgent.split(" ")[0];
+
+  return { label, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+}
+
+export function SessionsCard() {
+  const { logout } = useAuth();
+  const [sessionToRevoke, setSessionToRevoke] = useState<Session | null>(null);
+  const [confirmLogoutAll, setConfirmLogoutAll] = useState(false);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["sessions"],
+    queryFn: getSessions,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: Session) => revokeSession(session.id),
+    onSuccess: (_, session) => {
+      setSessionToRevoke(null);
+      if (session.current) {
+        logout();
+      } else {
+        refetch();
+      }
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: revokeOtherSessions,
+    onSuccess: () => refetch(),
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: logoutEverywhere,
+    onSuccess: () => {
+      setConfirmLogoutAll(false);
+      logout();
+    },
+  });
+
+  const sessions = data?.sessions ?? [];
+  const hasOtherSessions = sessions.some((session) => !session.current);
+  const mutationError =
+    revokeMutation.error ||
+    revokeOthersMutation.error ||
+    logoutAllMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          Devices where you are signed in. Sign out any session you don&apos;t
+          recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mutationError && (
+          <Alert variant="destructive">
+            <AlertDescription>{mutationError.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : (
+          <ul className="space-y-3">
+            {sessions.map((session) => {
+              const device = describeUserAgent(session.userAgent);
+              const DeviceIcon = device.mobile ? Smartphone : Monitor;
+              return (
+                <li
+                  key={session.id}
+                  className="flex items-start justify-between gap-4 rounded-md border p-3"
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="font-medium truncate"
+                          title={session.userAgent ?? undefined}
+                        >
+                          {device.label}
+                        </span>
+                        {session.current && (
+                          <Badge variant="secondary">This device</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress ?? "Unknown IP"}
+                        {" · "}
+                        Signed in{" "}
+                        {formatDistanceToNow(new Date(session.createdAt), {
+                          addSuffix: true,
+                        })}
+                        {" · "}
+                        {session.current
+                          ? "Active now"
+                          : `Last active ${formatDistanceToNow(
+                              new Date(session.lastSeenAt),
+                              { addSuffix: true }
+                            )}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => setSessionToRevoke(session)}
+                  >
+                    <LogOut className="h-4 w-4" />
+                    <span className="sr-only">Sign out session</span>
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+          >
+            {revokeOthersMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Sign out other sessions
+          </Button>
+          <Button
+            variant="outline"
+            className="text-destructive"
+            onClick={() => setConfirmLogoutAll(true)}
+          >
+            Log out everywhere
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog
+        open={!!sessionToRevoke}
+        onOpenChange={(open) => !open && setSessionToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out session</AlertDialogTitle>
+            <AlertDialogDescription>
+              {sessionToRevoke?.current
+                ? "This is the device you are using now. You will be signed out."
+                : `"${describeUserAgent(sessionToRevoke?.userAgent ?? null).label}" will be signed out immediately.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                sessionToRevoke && revokeMutation.mutate(sessionToRevoke)
+              }
+              className="bg-red-600 hover:bg-red-700"
+              disabled={revokeMutation.isPending}
+            >
+              Sign out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmLogoutAll} onOpenChange={setConfirmLogoutAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log out everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session, including this one, will be signed out. You will
+              need to sign in again on each device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => logoutAllMutation.mutate()}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={logoutAllMutation.isPending}
+            >
+              Log out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
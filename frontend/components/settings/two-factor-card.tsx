@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import Image from "next/image";
+import QRCode from "qrcode";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Copy, Loader2, ShieldCheck } from "lucide-react";
+import {
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "@/lib/api/two-factor";
+import { useAuth } from "@/components/providers/auth-provider";
+
+type PendingAction = "disable" | "regenerate" | null;
+
+function RecoveryCodesAlert({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  };
+
+  return (
+    <Alert>
+      <ShieldCheck className="h-4 w-4" />
+      <AlertDescription className="space-y-3">
+        <p>
+          Save these recovery codes somewhere safe. Each one signs you in once
+          if you lose access to your authenticator app. They will not be shown
+          again.
+        </p>
+        <div className="grid grid-cols-2 gap-1 rounded bg-muted p-3 font-mono text-xs">
+          {codes.map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? (
+            <Check className="mr-2 h-3 w-3" />
+          ) : (
+            <Copy className="mr-2 h-3 w-3" />
+          )}
+          Copy codes
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function TwoFactorCard() {
+  const { refreshUser } = useAuth();
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading, error, refetch } = useQuery({
+    queryKey: ["two-factor-status"],
+    queryFn: getTwoFactorStatus,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: beginTwoFactorSetup,
+    onSuccess: () => {
+      setCode("");
+      setRecoveryCodes(null);
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: enableTwoFactor,
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      setupMutation.reset();
+      setCode("");
+      refetch();
+      refreshUser();
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => disableTwoFactor(password, code.trim()),
+    onSuccess: () => {
+      resetAction();
+      setRecoveryCodes(null);
+      refetch();
+      refreshUser();
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: regenerateRecoveryCodes,
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      resetAction();
+      refetch();
+    },
+  });
+
+  const setup = setupMutation.data;
+
+  // Render the otpauth URI as a QR code locally; the secret never leaves the browser
+  useEffect(() => {
+    if (!setup) {
+      setQrCodeUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    QRCode.toDataURL(setup.otpauthUrl, { width: 192, margin: 1 })
+      .then((url) => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch((err) => console.warn("Failed to render QR code:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setup]);
+
+  function resetAction() {
+    setPendingAction(null);
+    setPassword("");
+    setCode("");
+    disableMutation.reset();
+    regenerateMutation.reset();
+  }
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    enableMutation.mutate(code.trim());
+  };
+
+  const handleConfirmAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pendingAction === "disable") {
+      disableMutation.mutate();
+    } else if (pendingAction === "regenerate") {
+      regenerateMutation.mutate(code.trim());
+    }
+  };
+
+  const actionError = disableMutation.error || regenerateMutation.error;
+  const actionPending =
+    disableMutation.isPending || regenerateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-factor authentication
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app in addition to your password
+          when signing in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && <RecoveryCodesAlert codes={recoveryCodes} />}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} of 10 recovery codes remaining.
+            </p>
+
+            {pendingAction ? (
+              <form onSubmit={handleConfirmAction} className="space-y-4">
+                {pendingAction === "disable" && (
+                  <div className="space-y-2">
+                    <label
+                      htmlFor="two-factor-password"
+                      className="text-sm font-medium"
+                    >
+                      Password
+                    </label>
+                    <Input
+                      id="two-factor-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      disabled={actionPending}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="two-factor-action-code"
+                    className="text-sm font-medium"
+                  >
+                    Authentication or recovery code
+                  </label>
+                  <Input
+                    id="two-factor-action-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    disabled={actionPending}
+                  />
+                </div>
+
+                {actionError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{actionError.message}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    variant={
+                      pendingAction === "disable" ? "destructive" : "default"
+                    }
+                    disabled={
+                      actionPending ||
+                      !code.trim() ||
+                      (pendingAction === "disable" && !password)
+                    }
+                  >
+                    {actionPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    {pendingAction === "disable"
+                      ? "Disable two-factor authentication"
+                      : "Generate new codes"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={resetAction}
+                    disabled={actionPending}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setPendingAction("regenerate")}
+                >
+                  Regenerate recovery codes
+                </Button>
+                <Button
+                  variant="outline"
+                  className="text-destructive"
+                  onClick={() => setPendingAction("disable")}
+                >
+                  Disable
+                </Button>
+              </div>
+            )}
+          </>
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, or enter the key
+              manually.
+            </p>
+            <div className="flex flex-col items-center gap-3 sm:flex-row sm:items-start">
+              {qrCodeUrl ? (
+                <Image
+                  src={qrCodeUrl}
+                  alt="Authenticator QR code"
+                  width={192}
+                  height={192}
+                  unoptimized
+                  className="rounded border bg-white"
+                />
+              ) : (
+                <div className="flex h-48 w-48 items-center justify-center rounded border">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              )}
+              <div className="space-y-1 text-sm min-w-0">
+                <span className="text-muted-foreground">Setup key</span>
+                <code className="block break-all rounded bg-muted px-2 py-1 text-xs">
+                  {setup.secret}
+                </code>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="two-factor-setup-code" className="text-sm font-medium">
+                Code from your app
+              </label>
+              <Input
+                id="two-factor-setup-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                disabled={enableMutation.isPending}
+              />
+            </div>
+
+            {enableMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{enableMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={enableMutation.isPending || code.length !== 6}
+              >
+                {enableMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Enable
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setupMutation.reset();
+                  enableMutation.reset();
+                  setCode("");
+                }}
+                disabled={enableMutation.isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            {setupMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{setupMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+            >
+              {setupMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Set up two-factor authentication
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
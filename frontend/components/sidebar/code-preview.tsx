@@ -2,9 +2,9 @@
 
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { AlertTriangle } from 'lucide-react'
+import { AlertTriangle, Loader2 } from 'lucide-react'
 import { useAppStore } from '@/lib/store/app-store'
-import { getPreviewUrl } from '@/lib/api/artifacts'
+import { usePreviewUrl } from '@/hooks/use-preview-url'
 
 interface CodePreviewProps {
   code: string
@@ -15,6 +15,7 @@ interface CodePreviewProps {
 export function CodePreview({ code, language, title }: CodePreviewProps) {
   const { currentArtifact } = useAppStore()
   const isWebLanguage = ['html', 'css', 'javascript', 'tsx', 'jsx', 'typescript', 'react'].includes(language.toLowerCase())
+  const backendPreview = usePreviewUrl(isWebLanguage ? currentArtifact?.id : undefined)
   
   if (!isWebLanguage) {
     return (
@@ -37,7 +38,7 @@ export function CodePreview({ code, language, title }: CodePreviewProps) {
     if (['javascript', 'jsx', 'tsx', 'typescript', 'react'].includes(language.toLowerCase())) {
       if (currentArtifact?.id) {
         console.log('Using backend preview for React component:', currentArtifact.id)
-        return getPreviewUrl(currentArtifact.id)
+        return backendPreview.data
       }
       // If no artifact ID but it's React code, encourage saving
       console.log('React code detected but no artifact ID available')
@@ -46,7 +47,7 @@ export function CodePreview({ code, language, title }: CodePreviewProps) {
     // For non-React with artifact, also use backend
     if (currentArtifact?.id) {
       console.log('Using backend preview for artifact:', currentArtifact.id)
-      return getPreviewUrl(currentArtifact.id)
+      return backendPreview.data
     }
     
     // Fallback to local preview generation
@@ -106,6 +107,28 @@ export function CodePreview({ code, language, title }: CodePreviewProps) {
 
   const previewUrl = getArtifactPreviewUrl()
 
+  if (backendPreview.error) {
+    return (
+      <div className="h-full flex items-center justify-center p-4">
+        <Card className="p-6 text-center">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="font-medium mb-2">Preview Unavailable</h3>
+          <p className="text-sm text-muted-foreground">{backendPreview.error.message}</p>
+        </Card>
+      </div>
+    )
+  }
+
+  // Waiting for a preview ticket
+  if (!previewUrl) {
+    return (
+      <div className="h-full flex items-center justify-center p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading preview...
+      </div>
+    )
+  }
+
   return (
     <div className="h-full w-full p-4">
       <iframe
@@ -25,11 +25,15 @@ import {
   ChevronDown,
   Loader2,
   LogOut,
+  Settings,
+  ShieldCheck,
+  BarChart3,
 } from "lucide-react";
 import { useAppStore, CodeArtifact } from "@/lib/store/app-store";
 import { getConversations, getConversation } from "@/lib/api/conversations";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { ConversationMenu } from "./conversation-menu";
+import { TeamSwitcher } from "@/components/team-switcher";
 import { useAuth } from "@/components/providers/auth-provider";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -52,6 +56,7 @@ export function NavigationSidebar() {
     clearMessages,
     addMessage,
     setCurrentArtifact,
+    setGenerationSettings,
   } = useAppStore();
 
   const { user, logout } = useAuth();
@@ -80,6 +85,13 @@ export function NavigationSidebar() {
     mutationFn: (conversationId: string) => getConversation(conversationId),
     onSuccess: (data) => {
       clearMessages();
+      setGenerationSettings({
+        model: data.conversation.model,
+        temperature: data.conversation.temperature,
+        maxOutputTokens: data.conversation.maxOutputTokens,
+        topP: data.conversation.topP,
+        customInstructions: data.conversation.customInstructions,
+      });
       let latestArtifact: CodeArtifact | null = null;
 
       // Convert backend messages to frontend format
@@ -119,6 +131,15 @@ export function NavigationSidebar() {
           role: msg.role.toLowerCase() as "user" | "assistant",
           content: msg.content,
           artifacts: artifacts.length > 0 ? artifacts : undefined,
+          usage:
+            msg.creditsCharged !== null
+              ? {
+                  promptTokens: msg.promptTokens,
+                  completionTokens: msg.completionTokens,
+                  credits: msg.creditsCharged,
+                }
+              : undefined,
+          cancelled: msg.cancelled,
         });
       });
 
@@ -177,6 +198,7 @@ export function NavigationSidebar() {
             </SidebarMenuButton>
           </SidebarMenuItem>
         </SidebarMenu>
+        <TeamSwitcher />
       </SidebarHeader>
 
       <SidebarContent>
@@ -201,6 +223,15 @@ export function NavigationSidebar() {
                   </Badge>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  tooltip="Dashboard"
+                  onClick={() => router.push("/dashboard")}
+                >
+                  <BarChart3 />
+                  <span>Dashboard</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -292,6 +323,16 @@ export function NavigationSidebar() {
                     </span>
                   </div>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/settings")}>
+                  <Settings className="h-4 w-4 mr-2" />
+                  Settings
+                </DropdownMenuItem>
+                {user?.role === "ADMIN" && (
+                  <DropdownMenuItem onClick={() => router.push("/admin")}>
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Admin
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={logout} className="text-destructive">
                   <LogOut className="h-4 w-4 mr-2" />
                   Sign out
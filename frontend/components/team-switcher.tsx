@@ -1,7 +1,9 @@
 "use client"
 
 import * as React from "react"
-import { ChevronsUpDown, Plus } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { Check, ChevronsUpDown, Loader2, Plus, Settings, User, Users } from "lucide-react"
 
 import {
   DropdownMenu,
@@ -9,31 +11,91 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
-  DropdownMenuShortcut,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import {
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
   useSidebar,
 } from "@/components/ui/sidebar"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { getTeams, createTeam, Team, TeamRole } from "@/lib/api/teams"
+import { getActiveWorkspaceId, setActiveWorkspaceId } from "@/lib/config/api"
+import { useAppStore } from "@/lib/store/app-store"
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  MEMBER: "Member",
+}
 
-export function TeamSwitcher({
-  teams,
-}: {
-  teams: {
-    name: string
-    logo: React.ElementType
-    plan: string
-  }[]
-}) {
+// Selects the workspace (personal or a team) that every API call operates in
+export function TeamSwitcher() {
   const { isMobile } = useSidebar()
-  const [activeTeam, setActiveTeam] = React.useState(teams[0])
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const { startNewChat, setConversations } = useAppStore()
+  const [activeTeamId, setActiveTeamId] = React.useState<string | null>(null)
+  const [createOpen, setCreateOpen] = React.useState(false)
+  const [teamName, setTeamName] = React.useState("")
 
-  if (!activeTeam) {
-    return null
-  }
+  // localStorage is only available after mount
+  React.useEffect(() => {
+    setActiveTeamId(getActiveWorkspaceId())
+  }, [])
+
+  const { data } = useQuery({
+    queryKey: ["teams"],
+    queryFn: getTeams,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  })
+
+  const teams = React.useMemo(() => data?.teams ?? [], [data])
+  const activeTeam = teams.find((team) => team.id === activeTeamId) ?? null
+
+  const switchWorkspace = React.useCallback(
+    (teamId: string | null) => {
+      setActiveWorkspaceId(teamId)
+      setActiveTeamId(teamId)
+      setConversations([])
+      startNewChat()
+      // Cached data belongs to the previous workspace
+      queryClient.resetQueries()
+      router.push("/")
+    },
+    [queryClient, router, setConversations, startNewChat]
+  )
+
+  // Fall back to the personal workspace after leaving or losing access to a team
+  React.useEffect(() => {
+    if (data && activeTeamId && !activeTeam) {
+      switchWorkspace(null)
+    }
+  }, [data, activeTeamId, activeTeam, switchWorkspace])
+
+  const createMutation = useMutation({
+    mutationFn: () => createTeam(teamName.trim()),
+    onSuccess: ({ team }) => {
+      setCreateOpen(false)
+      setTeamName("")
+      switchWorkspace(team.id)
+    },
+  })
+
+  const renderLogo = (team: Team | null, className: string) =>
+    team ? <Users className={className} /> : <User className={className} />
 
   return (
     <SidebarMenu>
@@ -45,11 +107,19 @@ export function TeamSwitcher({
               className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
             >
               <div className="bg-sidebar-primary text-sidebar-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg">
-                <activeTeam.logo className="size-4" />
+                {renderLogo(activeTeam, "size-4")}
               </div>
               <div className="grid flex-1 text-left text-sm leading-tight">
-                <span className="truncate font-medium">{activeTeam.name}</span>
-                <span className="truncate text-xs">{activeTeam.plan}</span>
+                <span className="truncate font-medium">
+                  {activeTeam?.name ?? "Personal"}
+                </span>
+                <span className="truncate text-xs">
+                  {activeTeam
+                    ? `${ROLE_LABELS[activeTeam.role]} · ${activeTeam.memberCount} ${
+                        activeTeam.memberCount === 1 ? "member" : "members"
+                      }`
+                    : "Only you"}
+                </span>
               </div>
               <ChevronsUpDown className="ml-auto" />
             </SidebarMenuButton>
@@ -61,23 +131,47 @@ export function TeamSwitcher({
             sideOffset={4}
           >
             <DropdownMenuLabel className="text-muted-foreground text-xs">
-              Teams
+              Workspaces
             </DropdownMenuLabel>
-            {teams.map((team, index) => (
+            <DropdownMenuItem
+              onClick={() => activeTeam && switchWorkspace(null)}
+              className="gap-2 p-2"
+            >
+              <div className="flex size-6 items-center justify-center rounded-md border">
+                <User className="size-3.5 shrink-0" />
+              </div>
+              Personal
+              {!activeTeam && <Check className="ml-auto size-4" />}
+            </DropdownMenuItem>
+            {teams.map((team) => (
               <DropdownMenuItem
-                key={team.name}
-                onClick={() => setActiveTeam(team)}
+                key={team.id}
+                onClick={() => team.id !== activeTeam?.id && switchWorkspace(team.id)}
                 className="gap-2 p-2"
               >
                 <div className="flex size-6 items-center justify-center rounded-md border">
-                  <team.logo className="size-3.5 shrink-0" />
+                  <Users className="size-3.5 shrink-0" />
                 </div>
-                {team.name}
-                <DropdownMenuShortcut>⌘{index + 1}</DropdownMenuShortcut>
+                <span className="truncate">{team.name}</span>
+                {team.id === activeTeam?.id && <Check className="ml-auto size-4" />}
               </DropdownMenuItem>
             ))}
             <DropdownMenuSeparator />
-            <DropdownMenuItem className="gap-2 p-2">
+            {activeTeam && (
+              <DropdownMenuItem
+                className="gap-2 p-2"
+                onClick={() => router.push("/teams")}
+              >
+                <div className="flex size-6 items-center justify-center rounded-md border bg-transparent">
+                  <Settings className="size-4" />
+                </div>
+                <div className="text-muted-foreground font-medium">Manage team</div>
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              className="gap-2 p-2"
+              onClick={() => setCreateOpen(true)}
+            >
               <div className="flex size-6 items-center justify-center rounded-md border bg-transparent">
                 <Plus className="size-4" />
               </div>
@@ -86,6 +180,63 @@ export function TeamSwitcher({
           </DropdownMenuContent>
         </DropdownMenu>
       </SidebarMenuItem>
+
+      <Dialog
+        open={createOpen}
+        onOpenChange={(open) => {
+          setCreateOpen(open)
+          if (!open) {
+            setTeamName("")
+            createMutation.reset()
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create team</DialogTitle>
+            <DialogDescription>
+              Conversations in a team workspace are shared with every member.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="create-team-form"
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault()
+              if (teamName.trim()) createMutation.mutate()
+            }}
+          >
+            {createMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{createMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Input
+              value={teamName}
+              onChange={(event) => setTeamName(event.target.value)}
+              placeholder="Team name"
+              maxLength={80}
+              disabled={createMutation.isPending}
+              autoFocus
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="create-team-form"
+              disabled={!teamName.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Create team
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </SidebarMenu>
   )
 }
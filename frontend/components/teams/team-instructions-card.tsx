@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import {
+  updateTeamInstructions,
+  isTeamManager,
+  TeamDetails,
+} from "@/lib/api/teams";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/api/account";
+
+interface TeamInstructionsCardProps {
+  team: TeamDetails;
+  onChange: () => void;
+}
+
+export function TeamInstructionsCard({
+  team,
+  onChange,
+}: TeamInstructionsCardProps) {
+  const [instructions, setInstructions] = useState(
+    team.customInstructions ?? ""
+  );
+  const canEdit = isTeamManager(team.role);
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateTeamInstructions(team.id, instructions.trim()),
+    onSuccess: onChange,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team instructions</CardTitle>
+        <CardDescription>
+          Added to every conversation in {team.name}. They take precedence over
+          members&apos; own instructions; per-chat instructions take precedence
+          over them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+          className="space-y-3"
+        >
+          {saveMutation.error && (
+            <Alert variant="destructive">
+              <AlertDescription>{saveMutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+          <Textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder={
+              canEdit
+                ? "e.g. We always use TypeScript, Tailwind and Vitest."
+                : "No team instructions"
+            }
+            maxLength={MAX_INSTRUCTIONS_LENGTH}
+            rows={5}
+            disabled={!canEdit || saveMutation.isPending}
+            aria-label="Team instructions"
+          />
+          {canEdit && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {instructions.length}/{MAX_INSTRUCTIONS_LENGTH}
+              </span>
+              <Button
+                type="submit"
+                disabled={
+                  saveMutation.isPending ||
+                  instructions.trim() === (team.customInstructions ?? "")
+                }
+              >
+                {saveMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
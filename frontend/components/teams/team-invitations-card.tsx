@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Check, Copy, Link2, Loader2, Trash2 } from "lucide-react";
+import {
+  getInvitations,
+  createInvitation,
+  revokeInvitation,
+  TeamDetails,
+} from "@/lib/api/teams";
+import { TEAM_ROLE_LABELS } from "./team-members-card";
+
+const EXPIRATION_OPTIONS = [
+  { label: "1 day", value: 1 },
+  { label: "7 days", value: 7 },
+  { label: "30 days", value: 30 },
+];
+
+const USES_OPTIONS = [
+  { label: "One person", value: "1" },
+  { label: "Up to 10 people", value: "10" },
+  { label: "Unlimited", value: "unlimited" },
+];
+
+export function TeamInvitationsCard({ team }: { team: TeamDetails }) {
+  const [role, setRole] = useState<"ADMIN" | "MEMBER">("MEMBER");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [uses, setUses] = useState("1");
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["team-invitations", team.id],
+    queryFn: () => getInvitations(team.id),
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createInvitation(team.id, {
+        role,
+        expiresInDays,
+        maxUses: uses === "unlimited" ? null : Number(uses),
+      }),
+    onSuccess: (result) => {
+      setNewUrl(result.url);
+      setCopied(false);
+      refetch();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      revokeInvitation(team.id, invitationId),
+    onSuccess: () => refetch(),
+  });
+
+  const handleCopy = async () => {
+    if (!newUrl) return;
+    await navigator.clipboard.writeText(newUrl);
+    setCopied(true);
+  };
+
+  const mutationError = createMutation.error || revokeMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitation links</CardTitle>
+        <CardDescription>
+          Anyone with a link can join {team.name} until it expires or runs out
+          of uses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newUrl && (
+          <Alert>
+            <Link2 className="h-4 w-4" />
+            <AlertDescription className="space-y-2">
+              <p>Copy the invitation link now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">
+                  {newUrl}
+                </code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? (
+                    <Check className="h-3 w-3" />
+                  ) : (
+                    <Copy className="h-3 w-3" />
+                  )}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {mutationError && (
+          <Alert variant="destructive">
+            <AlertDescription>{mutationError.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="grid gap-4 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end"
+        >
+          <div className="space-y-2">
+            <label htmlFor="invitation-role" className="text-sm font-medium">
+              Role
+            </label>
+            <select
+              id="invitation-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as "ADMIN" | "MEMBER")}
+              disabled={createMutation.isPending}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              <option value="MEMBER">{TEAM_ROLE_LABELS.MEMBER}</option>
+              <option value="ADMIN">{TEAM_ROLE_LABELS.ADMIN}</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="invitation-expiration"
+              className="text-sm font-medium"
+            >
+              Expires after
+            </label>
+            <select
+              id="invitation-expiration"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              disabled={createMutation.isPending}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              {EXPIRATION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="invitation-uses" className="text-sm font-medium">
+              Can be used by
+            </label>
+            <select
+              id="invitation-uses"
+              value={uses}
+              onChange={(e) => setUses(e.target.value)}
+              disabled={createMutation.isPending}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              {USES_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending}>
+            {createMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Create link
+          </Button>
+        </form>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading invitations...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : data && data.invitations.length > 0 ? (
+          <ul className="space-y-3">
+            {data.invitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">
+                      {TEAM_ROLE_LABELS[invitation.role]}
+                    </Badge>
+                    <span className="text-sm">
+                      {invitation.maxUses === null
+                        ? `${invitation.useCount} joined`
+                        : `${invitation.useCount} of ${invitation.maxUses} used`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {invitation.invitedBy
+                      ? `Created by ${invitation.invitedBy} · `
+                      : ""}
+                    Expires{" "}
+                    {formatDistanceToNow(new Date(invitation.expiresAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => revokeMutation.mutate(invitation.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Revoke invitation</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No active invitation links.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
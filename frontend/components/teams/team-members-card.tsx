@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { UserMinus } from "lucide-react";
+import {
+  updateMemberRole,
+  removeMember,
+  isTeamManager,
+  TeamDetails,
+  TeamMember,
+  TeamRole,
+} from "@/lib/api/teams";
+import { useAuth } from "@/components/providers/auth-provider";
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  MEMBER: "Member",
+};
+
+interface TeamMembersCardProps {
+  team: TeamDetails;
+  onChange: () => void;
+}
+
+export function TeamMembersCard({ team, onChange }: TeamMembersCardProps) {
+  const { user } = useAuth();
+  const [memberToRemove, setMemberToRemove] = useState<TeamMember | null>(
+    null
+  );
+
+  const canManage = isTeamManager(team.role);
+  // Only owners can hand out or take away ownership
+  const assignableRoles: TeamRole[] =
+    team.role === "OWNER" ? ["OWNER", "ADMIN", "MEMBER"] : ["ADMIN", "MEMBER"];
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: TeamRole }) =>
+      updateMemberRole(team.id, userId, role),
+    onSuccess: onChange,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (member: TeamMember) => removeMember(team.id, member.userId),
+    onSuccess: () => {
+      setMemberToRemove(null);
+      onChange();
+    },
+  });
+
+  const mutationError = roleMutation.error || removeMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Members</CardTitle>
+        <CardDescription>
+          Everyone here can read and continue the team&apos;s conversations.
+          Owners and admins manage members and invitations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mutationError && (
+          <Alert variant="destructive">
+            <AlertDescription>{mutationError.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="space-y-3">
+          {team.members.map((member) => {
+            const isSelf = member.userId === user?.id;
+            const canEdit =
+              canManage &&
+              !isSelf &&
+              (member.role !== "OWNER" || team.role === "OWNER");
+            return (
+              <li
+                key={member.userId}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">
+                      {member.username}
+                    </span>
+                    {isSelf && <Badge variant="secondary">You</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {member.email} · Joined{" "}
+                    {formatDistanceToNow(new Date(member.joinedAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canEdit ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          roleMutation.mutate({
+                            userId: member.userId,
+                            role: e.target.value as TeamRole,
+                          })
+                        }
+                        disabled={roleMutation.isPending}
+                        className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+                      >
+                        {assignableRoles.map((role) => (
+                          <option key={role} value={role}>
+                            {TEAM_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        onClick={() => setMemberToRemove(member)}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                        <span className="sr-only">Remove member</span>
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="outline">
+                      {TEAM_ROLE_LABELS[member.role]}
+                    </Badge>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+
+      <AlertDialog
+        open={!!memberToRemove}
+        onOpenChange={(open) => !open && setMemberToRemove(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove member</AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToRemove?.username} will lose access to {team.name} and
+              its conversations. Conversations they started stay with the team.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                memberToRemove && removeMutation.mutate(memberToRemove)
+              }
+              className="bg-red-600 hover:bg-red-700"
+              disabled={removeMutation.isPending}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
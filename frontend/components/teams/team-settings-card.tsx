@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut, Trash2 } from "lucide-react";
+import {
+  renameTeam,
+  deleteTeam,
+  removeMember,
+  isTeamManager,
+  TeamDetails,
+} from "@/lib/api/teams";
+import { useAuth } from "@/components/providers/auth-provider";
+
+interface TeamSettingsCardProps {
+  team: TeamDetails;
+  onChange: () => void;
+}
+
+export function TeamSettingsCard({ team, onChange }: TeamSettingsCardProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(team.name);
+  const [confirmAction, setConfirmAction] = useState<"leave" | "delete" | null>(
+    null
+  );
+
+  // The team switcher falls back to the personal workspace once the team is gone
+  const handleGone = () => {
+    setConfirmAction(null);
+    queryClient.invalidateQueries({ queryKey: ["teams"] });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: () => renameTeam(team.id, name.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      onChange();
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: () => removeMember(team.id, user!.id),
+    onSuccess: handleGone,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteTeam(team.id),
+    onSuccess: handleGone,
+  });
+
+  const mutationError =
+    renameMutation.error || leaveMutation.error || deleteMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team</CardTitle>
+        <CardDescription>
+          {team.members.length}{" "}
+          {team.members.length === 1 ? "member" : "members"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mutationError && (
+          <Alert variant="destructive">
+            <AlertDescription>{mutationError.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isTeamManager(team.role) && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              renameMutation.mutate();
+            }}
+            className="flex gap-2"
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={80}
+              disabled={renameMutation.isPending}
+              aria-label="Team name"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={
+                renameMutation.isPending ||
+                !name.trim() ||
+                name.trim() === team.name
+              }
+            >
+              {renameMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Rename
+            </Button>
+          </form>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            className="text-destructive"
+            onClick={() => setConfirmAction("leave")}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Leave team
+          </Button>
+          {team.role === "OWNER" && (
+            <Button
+              variant="outline"
+              className="text-destructive"
+              onClick={() => setConfirmAction("delete")}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete team
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog
+        open={!!confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === "delete" ? "Delete team" : "Leave team"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === "delete"
+                ? `${team.name} and all of its conversations will be deleted for every member. This cannot be undone.`
+                : `You will lose access to ${team.name} and its conversations until someone invites you again.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                confirmAction === "delete"
+                  ? deleteMutation.mutate()
+                  : leaveMutation.mutate()
+              }
+              className="bg-red-600 hover:bg-red-700"
+              disabled={leaveMutation.isPending || deleteMutation.isPending}
+            >
+              {confirmAction === "delete" ? "Delete team" : "Leave team"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 'use client'
 
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
 import {
   Dialog,
   DialogContent,
@@ -13,7 +15,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { Mail, CreditCard, AlertTriangle, Copy } from 'lucide-react'
+import { Mail, CreditCard, AlertTriangle, Copy, CalendarClock } from 'lucide-react'
+import { getCreditUsage } from '@/lib/api/credits'
 
 interface CreditExhaustedDialogProps {
   open: boolean
@@ -26,6 +29,20 @@ export function CreditExhaustedDialog({
   onOpenChange, 
   remainingCredits 
 }: CreditExhaustedDialogProps) {
+  // Shares the settings page's cache; refreshed whenever the dialog opens
+  const { data } = useQuery({
+    queryKey: ['credit-usage'],
+    queryFn: getCreditUsage,
+    enabled: open,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  })
+
+  const effectivePlan = data?.plan
+  const nextRefill = data?.nextRefillAt
+    ? `on ${format(new Date(data.nextRefillAt), 'PPP')}`
+    : 'shortly'
+
   const handleContactSupport = () => {
     window.open('mailto:subasgupta@outlook.com?subject=Request for Additional Credits&body=Hello,%0A%0AI would like to request additional credits for my account.%0A%0AThank you.', '_blank')
   }
@@ -67,12 +84,36 @@ export function CreditExhaustedDialog({
                 </Badge>
               </CardTitle>
             </CardHeader>
+            {effectivePlan && (
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Plan</span>
+                  <span className="font-medium">
+                    {effectivePlan.plan.name}
+                    {effectivePlan.team && ` (via ${effectivePlan.team.name})`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Monthly allowance</span>
+                  <span className="font-medium">{effectivePlan.plan.monthlyCredits} credits</span>
+                </div>
+              </CardContent>
+            )}
           </Card>
 
+          {effectivePlan && (
+            <Alert>
+              <CalendarClock className="h-4 w-4" />
+              <AlertDescription>
+                Your credits will be topped up to {effectivePlan.plan.monthlyCredits} {nextRefill}.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <Alert>
             <Mail className="h-4 w-4" />
             <AlertDescription>
-              To continue using the platform, please contact our support team to get additional credits.
+              Need credits sooner or a bigger plan? Contact our support team.
             </AlertDescription>
           </Alert>
 
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query"
+import { getPreviewUrl } from "@/lib/api/artifacts"
+
+// Preview tickets expire after a few minutes. An iframe only needs the URL for
+// its initial load, so keep it while mounted and mint a fresh one on remount.
+export function usePreviewUrl(artifactId: string | undefined) {
+  return useQuery({
+    queryKey: ["artifact-preview-url", artifactId],
+    queryFn: () => getPreviewUrl(artifactId!),
+    enabled: !!artifactId,
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,72 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export interface AccountExport {
+  blob: Blob
+  filename: string
+}
+
+export interface DeleteAccountData {
+  password: string
+  code?: string // Required when two-factor authentication is enabled
+}
+
+// Zip archive of every conversation, message and artifact source
+export async function exportAccountData(): Promise<AccountExport> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ACCOUNT.EXPORT))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to export account data')
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'zocket-export.zip'
+
+  return { blob: await response.blob(), filename }
+}
+
+// Per level, as enforced by the API
+export const MAX_INSTRUCTIONS_LENGTH = 4000
+
+export async function getCustomInstructions(): Promise<{ instructions: string | null }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ACCOUNT.INSTRUCTIONS))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get custom instructions')
+  }
+
+  return response.json()
+}
+
+// Added to every prompt; an empty value clears them
+export async function updateCustomInstructions(instructions: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ACCOUNT.INSTRUCTIONS), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ instructions })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to update custom instructions')
+  }
+}
+
+// Permanently deletes the account; the caller should clear local auth state
+export async function deleteAccount(data: DeleteAccountData): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ACCOUNT.DELETE), {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(data)
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to delete account')
+  }
+}
@@ -0,0 +1,202 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+import type { UserRole } from '@/lib/api/auth'
+import type { PlanId } from '@/lib/api/credits'
+
+export interface AdminUser {
+  id: string
+  email: string
+  username: string
+  credits: number
+  planId: PlanId
+  nextRefillAt: string | null
+  role: UserRole
+  emailVerified: boolean
+  disabledAt: string | null
+  conversationCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AdminUsersResponse {
+  users: AdminUser[]
+  pagination: {
+    page: number
+    limit: number
+    totalCount: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+}
+
+export interface AdminUserQuery {
+  page?: number
+  limit?: number
+  search?: string
+  role?: UserRole
+  status?: 'active' | 'disabled'
+}
+
+export interface MessageCounts {
+  user: number
+  assistant: number
+}
+
+export interface UserUsage {
+  credits: number
+  conversations: number
+  messages: MessageCounts
+  messagesLast30Days: MessageCounts
+  artifacts: {
+    count: number
+    totalBytes: number
+  }
+  lastActiveAt: string | null
+}
+
+export interface UpdateUserRequest {
+  role?: UserRole
+  disabled?: boolean
+  planId?: PlanId
+}
+
+export interface AuditEvent {
+  id: string
+  actorId: string | null
+  actorEmail: string | null
+  action: string
+  targetType: string | null
+  targetId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface AuditEventFilters {
+  action?: string // Exact action, or a prefix ending in "." such as "auth."
+  actorId?: string
+  actorEmail?: string
+  targetType?: string
+  targetId?: string
+  ipAddress?: string
+  from?: string // ISO date-time
+  to?: string
+}
+
+export interface AuditEventsResponse {
+  events: AuditEvent[]
+  actions: string[]
+  pagination: AdminUsersResponse['pagination']
+}
+
+export interface AuditExport {
+  blob: Blob
+  filename: string
+}
+
+function toSearchParams(query: object): URLSearchParams {
+  const params = new URLSearchParams()
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.append(key, String(value))
+    }
+  })
+  return params
+}
+
+export async function getAdminUsers(query: AdminUserQuery = {}): Promise<AdminUsersResponse> {
+  const params = toSearchParams(query)
+
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.USERS)}?${params}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get users')
+  }
+
+  return response.json()
+}
+
+export async function getUserUsage(id: string): Promise<{ usage: UserUsage }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.USER_USAGE(id)))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get usage')
+  }
+
+  return response.json()
+}
+
+export async function adjustUserCredits(
+  id: string,
+  amount: number,
+  reason?: string
+): Promise<{ user: AdminUser }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.USER_CREDITS(id)), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ amount, reason }),
+  })
+
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.message || 'Failed to update credits')
+  }
+
+  return result
+}
+
+export async function updateUser(id: string, data: UpdateUserRequest): Promise<{ user: AdminUser }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.USER(id)), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.message || 'Failed to update user')
+  }
+
+  return result
+}
+
+export async function getAuditEvents(
+  query: AuditEventFilters & { page?: number; limit?: number } = {}
+): Promise<AuditEventsResponse> {
+  const params = toSearchParams(query)
+
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.AUDIT_EVENTS)}?${params}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.details?.[0]?.message || errorData.message || 'Failed to get audit events')
+  }
+
+  return response.json()
+}
+
+// CSV of the events matching the filters; the server caps the number of rows
+export async function exportAuditEvents(filters: AuditEventFilters = {}): Promise<AuditExport> {
+  const params = toSearchParams(filters)
+
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.ADMIN.AUDIT_EVENTS_EXPORT)}?${params}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.details?.[0]?.message || errorData.message || 'Failed to export audit events')
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'audit-events.csv'
+
+  return { blob: await response.blob(), filename }
+}
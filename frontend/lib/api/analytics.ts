@@ -0,0 +1,70 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export interface DailyUsage {
+  date: string // UTC day, yyyy-mm-dd
+  messages: number
+  responses: number
+  creditsSpent: number
+}
+
+export interface UsageAnalytics {
+  days: number
+  daily: DailyUsage[]
+  totals: { messages: number; responses: number; creditsSpent: number }
+  averageLatencyMs: number | null
+}
+
+export interface ArtifactAnalytics {
+  days: number
+  total: number
+  byLanguage: Array<{ language: string; count: number }>
+  byType: Array<{ type: string; count: number }>
+}
+
+// Server-wide, since the backend last started
+export interface QualityAnalytics {
+  since: string
+  builds: {
+    total: number
+    succeeded: number
+    successRate: number | null
+    averageBuildTimeMs: number | null
+  }
+  security: {
+    scans: number
+    distribution: Array<{ min: number; max: number; count: number }>
+  }
+}
+
+export async function getUsageAnalytics(days: number): Promise<{ usage: UsageAnalytics }> {
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.ANALYTICS.USAGE)}?days=${days}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get usage analytics')
+  }
+
+  return response.json()
+}
+
+export async function getArtifactAnalytics(days: number): Promise<{ artifacts: ArtifactAnalytics }> {
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.ANALYTICS.ARTIFACTS)}?days=${days}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get artifact analytics')
+  }
+
+  return response.json()
+}
+
+export async function getQualityAnalytics(): Promise<{ quality: QualityAnalytics }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ANALYTICS.QUALITY))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get build and security metrics')
+  }
+
+  return response.json()
+}
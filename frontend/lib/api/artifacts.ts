@@ -1,4 +1,4 @@
-import { buildApiUrl, API_CONFIG, getAuthToken } from '@/lib/config/api'
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
 
 export interface ArtifactCode {
   code: string
@@ -13,13 +13,7 @@ export interface ArtifactCode {
 }
 
 export async function getArtifactCode(artifactId: string): Promise<ArtifactCode> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.CODE(artifactId)), {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
-  })
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.CODE(artifactId)))
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
@@ -30,13 +24,7 @@ export async function getArtifactCode(artifactId: string): Promise<ArtifactCode>
 }
 
 export async function downloadArtifact(artifactId: string): Promise<Blob> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.DOWNLOAD(artifactId)), {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
-  })
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.DOWNLOAD(artifactId)))
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
@@ -47,10 +35,20 @@ export async function downloadArtifact(artifactId: string): Promise<Blob> {
 }
 
 
-export function getPreviewUrl(artifactId: string): string {
-  const token = getAuthToken()
-  const tokenParam = token ? `?token=${encodeURIComponent(token)}` : ''
-  return `${buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.PREVIEW(artifactId))}${tokenParam}`
+// Iframes cannot send the Authorization header, so previews are loaded with a
+// short-lived ticket that only works for this artifact
+export async function getPreviewUrl(artifactId: string): Promise<string> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.PREVIEW_TICKET(artifactId)), {
+    method: 'POST'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to authorize preview')
+  }
+
+  const { ticket } = await response.json()
+  return `${buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.PREVIEW(artifactId))}?ticket=${encodeURIComponent(ticket)}`
 }
 
 export interface HtmlExportResponse {
@@ -61,13 +59,10 @@ export interface HtmlExportResponse {
 }
 
 export async function exportArtifactAsHtml(artifactId: string): Promise<HtmlExportResponse> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.HTML_EXPORT(artifactId)), {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.HTML_EXPORT(artifactId)), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` })
     }
   })
 
@@ -94,13 +89,10 @@ export interface BundleResponse {
 }
 
 export async function bundleReactArtifact(artifactId: string): Promise<BundleResponse> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.BUNDLE(artifactId)), {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.ARTIFACTS.BUNDLE(artifactId)), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` })
     }
   })
 
@@ -1,17 +1,40 @@
-import { buildApiUrl, API_CONFIG } from '@/lib/config/api'
+import {
+  buildApiUrl,
+  API_CONFIG,
+  authFetch,
+  clearAuthTokens,
+  getRefreshToken,
+  refreshAccessToken,
+  setActiveWorkspaceId,
+  setAuthTokens,
+} from '@/lib/config/api'
 
 export interface LoginRequest {
   email: string
   password: string
 }
 
+export interface RegisterRequest {
+  email: string
+  username: string
+  password: string
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string
+  newPassword: string
+}
 
+export type UserRole = 'USER' | 'ADMIN'
 
 export interface User {
   id: string
   email: string
   username: string
   credits: number
+  role: UserRole
+  emailVerified: boolean
+  twoFactorEnabled?: boolean
   createdAt: string
   conversationCount?: number
 }
@@ -20,6 +43,31 @@ export interface AuthResponse {
   message: string
   user: User
   token: string
+  refreshToken: string
+  refreshTokenExpiresAt: string
+}
+
+// Returned instead of tokens when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  message: string
+  twoFactorRequired: true
+  challengeToken: string
+  challengeExpiresIn: number
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge
+
+export function isTwoFactorChallenge(result: LoginResult): result is TwoFactorChallenge {
+  return 'twoFactorRequired' in result && result.twoFactorRequired === true
+}
+
+export interface OidcProvider {
+  id: string
+  name: string
+}
+
+export type OidcLoginResponse = LoginResult & {
+  redirectPath: string
 }
 
 export interface ValidationError {
@@ -27,7 +75,7 @@ export interface ValidationError {
   message: string
 }
 
-export async function login(data: LoginRequest): Promise<AuthResponse> {
+export async function login(data: LoginRequest): Promise<LoginResult> {
   const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.LOGIN), {
     method: 'POST',
     headers: {
@@ -42,64 +90,247 @@ export async function login(data: LoginRequest): Promise<AuthResponse> {
     throw new Error(result.message || 'Login failed')
   }
 
-  // Store the token
-  localStorage.setItem('authToken', result.token)
+  // No tokens yet; the caller has to complete the second factor
+  if (isTwoFactorChallenge(result)) {
+    return result
+  }
+
+  // Store the token pair
+  setAuthTokens(result.token, result.refreshToken)
 
   return result
 }
 
+// Second login step for accounts with two-factor authentication
+export async function verifyTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.LOGIN_2FA), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ challengeToken, code }),
+  })
 
+  const result = await response.json()
 
-export async function getCurrentUser(): Promise<{ user: User }> {
-  const token = getAuthToken()
-  
-  if (!token) {
-    throw new Error('No auth token found')
+  if (!response.ok) {
+    const details: ValidationError[] | undefined = result.details
+    throw new Error(details?.[0]?.message || result.message || 'Verification failed')
   }
 
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.ME), {
+  // Store the token pair
+  setAuthTokens(result.token, result.refreshToken)
+
+  return result
+}
+
+export async function register(data: RegisterRequest): Promise<AuthResponse> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.REGISTER), {
+    method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`
-    }
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
   })
 
   const result = await response.json()
 
   if (!response.ok) {
-    throw new Error(result.message || 'Failed to get user')
+    const details: ValidationError[] | undefined = result.details
+    throw new Error(details?.[0]?.message || result.message || 'Registration failed')
   }
 
+  // Store the token pair
+  setAuthTokens(result.token, result.refreshToken)
+
   return result
 }
 
-export async function refreshToken(): Promise<{ token: string }> {
+export async function getOidcProviders(): Promise<{ providers: OidcProvider[] }> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.OIDC_PROVIDERS))
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to load sign-in providers')
+  }
+
+  return result
+}
+
+// Full-page navigation target; the backend redirects on to the identity provider
+export function getOidcAuthorizeUrl(providerId: string, redirectPath: string = '/'): string {
+  const url = buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.OIDC_AUTHORIZE(providerId))
+  return `${url}?redirect=${encodeURIComponent(redirectPath)}`
+}
+
+// Trade the one-time code from the OIDC callback for a token pair
+export async function exchangeOidcCode(code: string): Promise<OidcLoginResponse> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.OIDC_EXCHANGE), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ code }),
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Sign-in failed')
+  }
+
+  // The second factor is completed on the callback page
+  if (result.twoFactorRequired) {
+    return result
+  }
+
+  // Store the token pair
+  setAuthTokens(result.token, result.refreshToken)
+
+  return result
+}
+
+export async function verifyEmail(token: string): Promise<{ message: string }> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.VERIFY_EMAIL), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token }),
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Email verification failed')
+  }
+
+  return result
+}
+
+export async function resendVerificationEmail(): Promise<{ message: string }> {
   const token = getAuthToken()
-  
+
   if (!token) {
     throw new Error('No auth token found')
   }
 
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.REFRESH), {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.RESEND_VERIFICATION), {
+    method: 'POST'
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to resend verification email')
+  }
+
+  return result
+}
+
+export async function changePassword(data: ChangePasswordRequest): Promise<{ message: string }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.CHANGE_PASSWORD), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    const details: ValidationError[] | undefined = result.details
+    throw new Error(details?.[0]?.message || result.message || 'Failed to change password')
+  }
+
+  // Every other session was signed out; keep this one with the new token pair
+  setAuthTokens(result.token, result.refreshToken)
+
+  return result
+}
+
+export async function requestPasswordReset(email: string): Promise<{ message: string }> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.FORGOT_PASSWORD), {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`
-    }
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email }),
   })
 
   const result = await response.json()
 
   if (!response.ok) {
-    throw new Error(result.message || 'Failed to refresh token')
+    throw new Error(result.message || 'Failed to request password reset')
+  }
+
+  return result
+}
+
+export async function resetPassword(token: string, password: string): Promise<{ message: string }> {
+  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.RESET_PASSWORD), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token, password }),
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    const details: ValidationError[] | undefined = result.details
+    throw new Error(details?.[0]?.message || result.message || 'Failed to reset password')
+  }
+
+  return result
+}
+
+export async function getCurrentUser(): Promise<{ user: User }> {
+  const token = getAuthToken()
+  
+  if (!token) {
+    throw new Error('No auth token found')
   }
 
-  // Store the new token
-  localStorage.setItem('authToken', result.token)
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.ME))
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to get user')
+  }
 
   return result
 }
 
-export function logout(): void {
-  localStorage.removeItem('authToken')
+export async function refreshToken(): Promise<{ token: string }> {
+  const token = await refreshAccessToken()
+  return { token }
+}
+
+// Revokes the refresh token server-side, then clears local credentials
+export async function logout(): Promise<void> {
+  const refreshToken = getRefreshToken()
+
+  if (refreshToken) {
+    try {
+      await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.LOGOUT), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      })
+    } catch (error) {
+      console.warn('Failed to revoke refresh token:', error)
+    }
+  }
+
+  clearAuthTokens()
+  setActiveWorkspaceId(null)
 }
 
 export function getAuthToken(): string | null {
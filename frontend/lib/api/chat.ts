@@ -1,4 +1,5 @@
-import { buildApiUrl, API_CONFIG, getAuthToken } from '@/lib/config/api'
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+import type { MessageUsage, GenerationSettings } from '@/lib/store/app-store'
 
 export interface ChatMessage {
   role: 'user' | 'assistant'
@@ -24,6 +25,7 @@ export interface ChatResponse {
     messageId: string
     conversationId: string
     response: string
+    usage: MessageUsage
     artifacts: Artifact[]
     builds: number
     security?: {
@@ -40,13 +42,10 @@ export async function sendChatMessage(
   message: string,
   conversationId?: string
 ): Promise<ChatResponse> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.SEND), {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.SEND), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` })
     },
     body: JSON.stringify({ 
       message,
@@ -66,20 +65,86 @@ export async function sendChatMessage(
   return response.json()
 }
 
+export interface ChatModelsResponse {
+  models: string[]
+  defaultModel: string
+  maxOutputTokens: number // The plan's limit
+}
+
+export async function getChatModels(): Promise<ChatModelsResponse> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.MODELS))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get models')
+  }
+
+  return response.json()
+}
+
+export interface StreamResult {
+  conversationId: string
+  messageId: string
+  usage?: MessageUsage
+  cancelled?: boolean // Stopped early; the response is partial and free
+}
+
+// Why a generation failed: a model failure reason from the server, or "internal"
+export type GenerationErrorReason =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'unavailable'
+  | 'safety'
+  | 'bad_request'
+  | 'unknown'
+  | 'internal'
+
+// A failed generation, as reported by the stream's error event
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    readonly reason: GenerationErrorReason,
+    readonly retryable: boolean // Sending the message again may succeed
+  ) {
+    super(message)
+    this.name = 'GenerationError'
+  }
+}
+
+type StreamArtifact = { id: string; title: string; language: string; type: string; s3Key: string; s3Url: string; size: number }
+type StreamBuild = { status: string; message?: string; buildId?: string }
+
+interface StreamHandlers {
+  onMessage: (chunk: string) => void
+  onArtifact?: (artifact: StreamArtifact) => void
+  onBuild?: (build: StreamBuild) => void
+}
+
+// Where a stream got to, so a dropped connection can resume after the last event
+interface StreamState {
+  lastEventId: string | null
+  result: StreamResult | null
+  completed: boolean
+}
+
+// A dropped stream is resumed up to this many times, waiting 1s, 2s, 4s, ... between attempts
+const STREAM_RECONNECT_ATTEMPTS = 5
+const STREAM_RECONNECT_DELAY_MS = 1000
+
 export async function streamChatMessage(
   message: string,
   onMessage: (chunk: string) => void,
-  onArtifact?: (artifact: { id: string; title: string; language: string; type: string; s3Key: string; s3Url: string; size: number }) => void,
-  onBuild?: (build: { status: string; message?: string; buildId?: string }) => void,
-  conversationId?: string
-): Promise<{ conversationId: string; messageId: string } | void> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.SEND), {
+  onArtifact?: (artifact: StreamArtifact) => void,
+  onBuild?: (build: StreamBuild) => void,
+  conversationId?: string,
+  settings?: GenerationSettings,
+  onStart?: (sessionId: string) => void,
+  onReconnecting?: (reconnecting: boolean) => void // True while a dropped stream is being resumed
+): Promise<StreamResult | void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.SEND), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` })
     },
     body: JSON.stringify({ 
       message,
@@ -87,7 +152,8 @@ export async function streamChatMessage(
       stream: true,
       enableSecurity: true,
       enableBuilding: true,
-      enablePreview: true
+      enablePreview: true,
+      settings
     }),
   })
 
@@ -96,60 +162,147 @@ export async function streamChatMessage(
     throw new Error(errorData.message || 'Failed to send message')
   }
 
-  const reader = response.body?.getReader()
-  if (!reader) {
+  // Needed to cancel or resume the generation
+  const sessionId = response.headers.get('X-Stream-Session-Id')
+  if (sessionId && onStart) {
+    onStart(sessionId)
+  }
+
+  let body = response.body
+  if (!body) {
     throw new Error('No response body')
   }
 
+  const handlers: StreamHandlers = { onMessage, onArtifact, onBuild }
+  const state: StreamState = { lastEventId: null, result: null, completed: false }
+  let attempt = 0
+
+  while (true) {
+    if (body) {
+      await readStream(body, state, handlers)
+      body = null
+    }
+
+    // Without a session id the stream cannot be resumed
+    if (state.completed || !sessionId) break
+
+    if (attempt >= STREAM_RECONNECT_ATTEMPTS) {
+      throw new Error('Connection lost while receiving the response')
+    }
+    onReconnecting?.(true)
+    await new Promise((resolve) => setTimeout(resolve, STREAM_RECONNECT_DELAY_MS * 2 ** attempt))
+    attempt++
+
+    const resumed = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.STREAM(sessionId)), {
+      headers: state.lastEventId ? { 'Last-Event-ID': state.lastEventId } : {},
+    }).catch(() => null)
+
+    // The session is gone or can no longer catch up; retrying will not help
+    if (resumed && (resumed.status === 404 || resumed.status === 409)) {
+      const errorData = await resumed.json().catch(() => ({}))
+      throw new Error(errorData.message || 'Failed to resume the response')
+    }
+
+    if (resumed?.ok && resumed.body) {
+      body = resumed.body
+      attempt = 0
+      onReconnecting?.(false)
+    }
+  }
+
+  return state.result || undefined
+}
+
+// Reads server-sent events until the stream ends or the connection drops
+async function readStream(body: ReadableStream<Uint8Array>, state: StreamState, handlers: StreamHandlers) {
+  const reader = body.getReader()
   const decoder = new TextDecoder()
-  let conversationMetadata: { conversationId: string; messageId: string } | null = null
+  let buffer = ''
 
   try {
     while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      const chunk = decoder.decode(value)
-      const lines = chunk.split('\n').filter(line => line.trim())
+      let chunk: ReadableStreamReadResult<Uint8Array>
+      try {
+        chunk = await reader.read()
+      } catch {
+        // The connection dropped; the caller resumes the stream
+        return
+      }
+      if (chunk.done) return
 
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6)
-          if (data === '[DONE]') {
-            return conversationMetadata || undefined
-          }
+      // Events are separated by a blank line and may be split across reads
+      buffer += decoder.decode(chunk.value, { stream: true })
+      const events = buffer.split('\n\n')
+      buffer = events.pop() ?? ''
 
-          try {
-            const parsed = JSON.parse(data)
-            
-            if (parsed.type === 'chunk') {
-              if (parsed.data.text) {
-                onMessage(parsed.data.text)
-              } else if (parsed.data.type === 'artifact' && onArtifact) {
-                onArtifact(parsed.data.artifact)
-              } else if (parsed.data.type === 'build' && onBuild) {
-                onBuild(parsed.data.buildResult)
-              }
-            } else if (parsed.type === 'metadata' && parsed.data.conversationId) {
-              conversationMetadata = {
-                conversationId: parsed.data.conversationId,
-                messageId: parsed.data.messageId
-              }
-            } else if (parsed.type === 'error') {
-              throw new Error(parsed.data.error || 'Stream error occurred')
-            }
-          } catch (e) {
-            console.error('Failed to parse SSE data:', e)
-            if (e instanceof Error && e.message.includes('Stream error')) {
-              throw e
-            }
+      for (const event of events) {
+        for (const line of event.split('\n')) {
+          if (line.startsWith('id: ')) {
+            state.lastEventId = line.slice(4)
+          } else if (line.startsWith('data: ')) {
+            handleStreamData(line.slice(6), state, handlers)
           }
         }
+        if (state.completed) return
       }
     }
   } finally {
     reader.releaseLock()
   }
-  
-  return conversationMetadata || undefined
-}
\ No newline at end of file
+}
+
+function handleStreamData(data: string, state: StreamState, { onMessage, onArtifact, onBuild }: StreamHandlers) {
+  if (data === '[DONE]') {
+    state.completed = true
+    return
+  }
+
+  let parsed
+  try {
+    parsed = JSON.parse(data)
+  } catch (e) {
+    console.error('Failed to parse SSE data:', e)
+    return
+  }
+
+  if (parsed.type === 'chunk') {
+    if (parsed.data.text) {
+      onMessage(parsed.data.text)
+    } else if (parsed.data.type === 'artifact' && onArtifact) {
+      onArtifact(parsed.data.artifact)
+    } else if (parsed.data.type === 'build' && onBuild) {
+      onBuild(parsed.data.buildResult)
+    }
+  } else if (parsed.type === 'metadata' || parsed.type === 'complete') {
+    // The complete event ends the stream; for a successful response it also carries token usage and cost
+    state.completed = parsed.type === 'complete'
+    if (parsed.data.conversationId) {
+      state.result = {
+        conversationId: parsed.data.conversationId,
+        messageId: parsed.data.messageId,
+        usage: parsed.data.usage,
+        cancelled: parsed.data.cancelled
+      }
+    }
+  } else if (parsed.type === 'error') {
+    throw new GenerationError(
+      parsed.data.error || 'Stream error occurred',
+      parsed.data.reason ?? 'unknown',
+      parsed.data.retryable ?? false
+    )
+  }
+}
+
+export async function cancelChatMessage(sessionId: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CHAT.CANCEL), {
+    method: 'POST',
+    headers: {
+      'X-Stream-Session-Id': sessionId,
+    },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to cancel generation')
+  }
+}
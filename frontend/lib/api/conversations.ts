@@ -1,4 +1,4 @@
-import { buildApiUrl, API_CONFIG, getAuthToken } from '@/lib/config/api'
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
 
 export interface Conversation {
   id: string
@@ -9,6 +9,11 @@ export interface Conversation {
     role: string
     createdAt: string
   }
+  teamId?: string | null // Null for conversations in the personal workspace
+  createdBy?: {
+    id: string
+    username: string
+  }
   createdAt: string
   updatedAt: string
 }
@@ -16,10 +21,19 @@ export interface Conversation {
 export interface ConversationDetails {
   id: string
   title: string
+  model: string | null
+  temperature: number | null
+  maxOutputTokens: number | null
+  topP: number | null
+  customInstructions: string | null
   messages: Array<{
     id: string
     role: 'USER' | 'ASSISTANT'
     content: string
+    promptTokens: number | null
+    completionTokens: number | null
+    creditsCharged: number | null
+    cancelled: boolean
     createdAt: string
     artifacts: Array<{
       id: string
@@ -53,7 +67,6 @@ export async function getConversations(
   limit: number = 20,
   search?: string
 ): Promise<ConversationsResponse> {
-  const token = getAuthToken()
   const params = new URLSearchParams({
     page: page.toString(),
     limit: limit.toString(),
@@ -63,11 +76,7 @@ export async function getConversations(
     params.append('search', search)
   }
   
-  const response = await fetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.LIST)}?${params}`, {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
-  })
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.LIST)}?${params}`)
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
@@ -78,13 +87,7 @@ export async function getConversations(
 }
 
 export async function getConversation(id: string): Promise<{ conversation: ConversationDetails }> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.GET(id)), {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
-  })
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.GET(id)))
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
@@ -95,13 +98,10 @@ export async function getConversation(id: string): Promise<{ conversation: Conve
 }
 
 export async function updateConversation(id: string, title: string): Promise<void> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.UPDATE(id)), {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.UPDATE(id)), {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` })
     },
     body: JSON.stringify({ title })
   })
@@ -113,13 +113,8 @@ export async function updateConversation(id: string, title: string): Promise<voi
 }
 
 export async function deleteConversation(id: string): Promise<void> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.DELETE(id)), {
-    method: 'DELETE',
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.DELETE(id)), {
+    method: 'DELETE'
   })
 
   if (!response.ok) {
@@ -129,13 +124,7 @@ export async function deleteConversation(id: string): Promise<void> {
 }
 
 export async function exportConversation(id: string, format: 'json' | 'markdown' = 'json'): Promise<Blob> {
-  const token = getAuthToken()
-  
-  const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.EXPORT(id, format)), {
-    headers: {
-      ...(token && { 'Authorization': `Bearer ${token}` })
-    }
-  })
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CONVERSATIONS.EXPORT(id, format)))
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
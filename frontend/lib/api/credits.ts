@@ -0,0 +1,112 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+// Mirrors the CreditTransactionType enum on the backend
+export type CreditTransactionType = 'GRANT' | 'MESSAGE' | 'REGENERATION' | 'REFUND' | 'ADJUSTMENT'
+
+export const CREDIT_TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  GRANT: 'Grant',
+  MESSAGE: 'Chat response',
+  REGENERATION: 'Regeneration',
+  REFUND: 'Refund',
+  ADJUSTMENT: 'Adjustment'
+}
+
+export interface CreditTransaction {
+  id: string
+  type: CreditTransactionType
+  amount: number
+  balanceAfter: number
+  description: string | null
+  conversationId: string | null
+  conversationTitle: string | null
+  messageId: string | null
+  refunded: boolean
+  createdAt: string
+}
+
+export interface CreditUsage {
+  balance: number
+  last30Days: {
+    spent: number
+    added: number
+    byType: Record<CreditTransactionType, number>
+  }
+}
+
+// Mirrors the plans defined in backend/src/services/plans.ts
+export type PlanId = 'free' | 'pro' | 'team'
+
+export type PlanFeature = 'codeBuilds' | 'teamCreation' | 'apiAccess'
+
+export interface Plan {
+  id: PlanId
+  name: string
+  monthlyCredits: number
+  chatRequestsPerHour: number
+  maxOutputTokens: number
+  features: Record<PlanFeature, boolean>
+}
+
+export interface EffectivePlan {
+  plan: Plan
+  source: 'user' | 'team'
+  team: { id: string; name: string } | null
+}
+
+export interface CreditUsageResponse {
+  usage: CreditUsage
+  plan: EffectivePlan
+  nextRefillAt: string | null // null: refilled on the next run of the refill job
+}
+
+export interface CreditHistoryResponse {
+  transactions: CreditTransaction[]
+  pagination: {
+    page: number
+    limit: number
+    totalCount: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+}
+
+export async function getCreditUsage(): Promise<CreditUsageResponse> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CREDITS.USAGE))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get credit usage')
+  }
+
+  return response.json()
+}
+
+export async function getCreditHistory(
+  query: { page?: number; limit?: number; type?: CreditTransactionType } = {}
+): Promise<CreditHistoryResponse> {
+  const params = new URLSearchParams()
+  if (query.page) params.append('page', String(query.page))
+  if (query.limit) params.append('limit', String(query.limit))
+  if (query.type) params.append('type', query.type)
+
+  const response = await authFetch(`${buildApiUrl(API_CONFIG.ENDPOINTS.CREDITS.HISTORY)}?${params}`)
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get credit history')
+  }
+
+  return response.json()
+}
+
+export async function getPlans(): Promise<{ plans: Plan[] }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.CREDITS.PLANS))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get plans')
+  }
+
+  return response.json()
+}
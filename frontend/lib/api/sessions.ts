@@ -0,0 +1,55 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export interface Session {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+export async function getSessions(): Promise<{ sessions: Session[] }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.SESSIONS.LIST))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get sessions')
+  }
+
+  return response.json()
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.SESSIONS.REVOKE(id)), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to sign out session')
+  }
+}
+
+export async function revokeOtherSessions(): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.SESSIONS.REVOKE_OTHERS), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to sign out other sessions')
+  }
+}
+
+// Signs out every session including this one; the caller should clear local auth state
+export async function logoutEverywhere(): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.LOGOUT_ALL), {
+    method: 'POST'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to log out everywhere')
+  }
+}
@@ -0,0 +1,229 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export type TeamRole = 'OWNER' | 'ADMIN' | 'MEMBER'
+
+export interface Team {
+  id: string
+  name: string
+  role: TeamRole
+  memberCount: number
+  createdAt: string
+}
+
+export interface TeamMember {
+  userId: string
+  username: string
+  email: string
+  role: TeamRole
+  joinedAt: string
+}
+
+export interface TeamDetails {
+  id: string
+  name: string
+  customInstructions: string | null
+  role: TeamRole
+  createdAt: string
+  members: TeamMember[]
+}
+
+export interface TeamInvitation {
+  id: string
+  role: TeamRole
+  maxUses: number | null
+  useCount: number
+  expiresAt: string
+  createdAt: string
+  invitedBy: string | null
+}
+
+export interface CreateInvitationRequest {
+  role: Exclude<TeamRole, 'OWNER'>
+  expiresInDays: number
+  maxUses: number | null
+}
+
+export interface InvitationPreview {
+  team: { id: string; name: string }
+  role: TeamRole
+  invitedBy: string | null
+}
+
+export function isTeamManager(role: TeamRole | undefined): boolean {
+  return role === 'OWNER' || role === 'ADMIN'
+}
+
+export async function getTeams(): Promise<{ teams: Team[] }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.LIST))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get teams')
+  }
+
+  return response.json()
+}
+
+export async function createTeam(name: string): Promise<{ team: Team }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.CREATE), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ name })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to create team')
+  }
+
+  return response.json()
+}
+
+export async function getTeam(id: string): Promise<{ team: TeamDetails }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.GET(id)))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get team')
+  }
+
+  return response.json()
+}
+
+export async function renameTeam(id: string, name: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.UPDATE(id)), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ name })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to rename team')
+  }
+}
+
+// Added to prompts in every team conversation; an empty value clears them
+export async function updateTeamInstructions(id: string, instructions: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INSTRUCTIONS(id)), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ instructions })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to update team instructions')
+  }
+}
+
+export async function deleteTeam(id: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.DELETE(id)), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to delete team')
+  }
+}
+
+export async function updateMemberRole(id: string, userId: string, role: TeamRole): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.MEMBER(id, userId)), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ role })
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to change role')
+  }
+}
+
+// Removing yourself leaves the team
+export async function removeMember(id: string, userId: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.MEMBER(id, userId)), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to remove member')
+  }
+}
+
+export async function getInvitations(id: string): Promise<{ invitations: TeamInvitation[] }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INVITATIONS(id)))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get invitations')
+  }
+
+  return response.json()
+}
+
+// The returned url is only shown once
+export async function createInvitation(
+  id: string,
+  data: CreateInvitationRequest
+): Promise<{ invitation: TeamInvitation; url: string }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INVITATIONS(id)), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(data)
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to create invitation')
+  }
+
+  return response.json()
+}
+
+export async function revokeInvitation(id: string, invitationId: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INVITATION(id, invitationId)), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to revoke invitation')
+  }
+}
+
+export async function getInvitationPreview(token: string): Promise<{ invitation: InvitationPreview }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INVITATION_PREVIEW(token)))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to load invitation')
+  }
+
+  return response.json()
+}
+
+export async function acceptInvitation(token: string): Promise<{ message: string; team: Team }> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TEAMS.INVITATION_ACCEPT(token)), {
+    method: 'POST'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to accept invitation')
+  }
+
+  return response.json()
+}
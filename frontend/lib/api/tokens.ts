@@ -0,0 +1,75 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export type TokenScope =
+  | 'chat:write'
+  | 'conversations:read'
+  | 'conversations:write'
+  | 'artifacts:read'
+  | 'artifacts:write'
+
+export interface PersonalAccessToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: TokenScope[]
+  lastUsedAt: string | null
+  expiresAt: string | null
+  createdAt: string
+}
+
+export interface TokensResponse {
+  tokens: PersonalAccessToken[]
+  availableScopes: TokenScope[]
+}
+
+export interface CreateTokenRequest {
+  name: string
+  scopes: TokenScope[]
+  expiresInDays: number | null
+}
+
+export interface CreateTokenResponse {
+  message: string
+  token: PersonalAccessToken
+  secret: string
+}
+
+export async function getTokens(): Promise<TokensResponse> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TOKENS.LIST))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get tokens')
+  }
+
+  return response.json()
+}
+
+export async function createToken(data: CreateTokenRequest): Promise<CreateTokenResponse> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TOKENS.CREATE), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.message || 'Failed to create token')
+  }
+
+  return result
+}
+
+export async function revokeToken(id: string): Promise<void> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TOKENS.REVOKE(id)), {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to revoke token')
+  }
+}
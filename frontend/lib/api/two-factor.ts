@@ -0,0 +1,63 @@
+import { buildApiUrl, API_CONFIG, authFetch } from '@/lib/config/api'
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  message: string
+  secret: string
+  otpauthUrl: string
+}
+
+export interface RecoveryCodesResponse {
+  message: string
+  recoveryCodes: string[]
+}
+
+async function postTwoFactor<T>(endpoint: string, body: object, fallbackMessage: string): Promise<T> {
+  const response = await authFetch(buildApiUrl(endpoint), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.message || fallbackMessage)
+  }
+
+  return result
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await authFetch(buildApiUrl(API_CONFIG.ENDPOINTS.TWO_FACTOR.STATUS))
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.message || 'Failed to get two-factor status')
+  }
+
+  return response.json()
+}
+
+export async function beginTwoFactorSetup(): Promise<TwoFactorSetup> {
+  return postTwoFactor(API_CONFIG.ENDPOINTS.TWO_FACTOR.SETUP, {}, 'Failed to start setup')
+}
+
+export async function enableTwoFactor(code: string): Promise<RecoveryCodesResponse> {
+  return postTwoFactor(API_CONFIG.ENDPOINTS.TWO_FACTOR.ENABLE, { code }, 'Failed to enable two-factor authentication')
+}
+
+export async function disableTwoFactor(password: string, code: string): Promise<{ message: string }> {
+  return postTwoFactor(API_CONFIG.ENDPOINTS.TWO_FACTOR.DISABLE, { password, code }, 'Failed to disable two-factor authentication')
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+  return postTwoFactor(API_CONFIG.ENDPOINTS.TWO_FACTOR.RECOVERY_CODES, { code }, 'Failed to generate recovery codes')
+}
@@ -5,12 +5,27 @@ export const API_CONFIG = {
     // Auth endpoints
     AUTH: {
       LOGIN: '/api/auth/login',
+      LOGIN_2FA: '/api/auth/login/2fa',
+      REGISTER: '/api/auth/register',
+      VERIFY_EMAIL: '/api/auth/verify-email',
+      RESEND_VERIFICATION: '/api/auth/resend-verification',
+      CHANGE_PASSWORD: '/api/auth/change-password',
+      FORGOT_PASSWORD: '/api/auth/forgot-password',
+      RESET_PASSWORD: '/api/auth/reset-password',
       ME: '/api/auth/me',
-      REFRESH: '/api/auth/refresh'
+      REFRESH: '/api/auth/refresh',
+      LOGOUT: '/api/auth/logout',
+      LOGOUT_ALL: '/api/auth/logout-all',
+      OIDC_PROVIDERS: '/api/auth/oidc/providers',
+      OIDC_AUTHORIZE: (providerId: string) => `/api/auth/oidc/${providerId}/authorize`,
+      OIDC_EXCHANGE: '/api/auth/oidc/exchange'
     },
     // Chat endpoints
     CHAT: {
       SEND: '/api/chat/send',
+      MODELS: '/api/chat/models',
+      CANCEL: '/api/chat/cancel',
+      STREAM: (sessionId: string) => `/api/chat/stream/${sessionId}`,
       REGENERATE: (messageId: string) => `/api/chat/regenerate/${messageId}`
     },
     // Conversation endpoints  
@@ -21,12 +36,74 @@ export const API_CONFIG = {
       DELETE: (id: string) => `/api/conversations/${id}`,
       EXPORT: (id: string, format: string = 'json') => `/api/conversations/${id}/export?format=${format}`
     },
+    // Two-factor authentication endpoints
+    TWO_FACTOR: {
+      STATUS: '/api/auth/2fa',
+      SETUP: '/api/auth/2fa/setup',
+      ENABLE: '/api/auth/2fa/enable',
+      DISABLE: '/api/auth/2fa/disable',
+      RECOVERY_CODES: '/api/auth/2fa/recovery-codes'
+    },
+    // Session endpoints
+    SESSIONS: {
+      LIST: '/api/sessions',
+      REVOKE: (id: string) => `/api/sessions/${id}`,
+      REVOKE_OTHERS: '/api/sessions'
+    },
+    // Account data endpoints
+    ACCOUNT: {
+      EXPORT: '/api/account/export',
+      INSTRUCTIONS: '/api/account/instructions',
+      DELETE: '/api/account'
+    },
+    // Team workspace endpoints
+    TEAMS: {
+      LIST: '/api/teams',
+      CREATE: '/api/teams',
+      GET: (id: string) => `/api/teams/${id}`,
+      UPDATE: (id: string) => `/api/teams/${id}`,
+      DELETE: (id: string) => `/api/teams/${id}`,
+      INSTRUCTIONS: (id: string) => `/api/teams/${id}/instructions`,
+      MEMBER: (id: string, userId: string) => `/api/teams/${id}/members/${userId}`,
+      INVITATIONS: (id: string) => `/api/teams/${id}/invitations`,
+      INVITATION: (id: string, invitationId: string) => `/api/teams/${id}/invitations/${invitationId}`,
+      INVITATION_PREVIEW: (token: string) => `/api/teams/invitations/${encodeURIComponent(token)}`,
+      INVITATION_ACCEPT: (token: string) => `/api/teams/invitations/${encodeURIComponent(token)}/accept`
+    },
+    // Credit balance and ledger endpoints
+    CREDITS: {
+      USAGE: '/api/credits',
+      HISTORY: '/api/credits/history',
+      PLANS: '/api/credits/plans'
+    },
+    // Usage dashboard aggregates
+    ANALYTICS: {
+      USAGE: '/api/analytics/usage',
+      ARTIFACTS: '/api/analytics/artifacts',
+      QUALITY: '/api/analytics/quality'
+    },
+    // Personal access token endpoints
+    TOKENS: {
+      LIST: '/api/tokens',
+      CREATE: '/api/tokens',
+      REVOKE: (id: string) => `/api/tokens/${id}`
+    },
+    // Admin endpoints
+    ADMIN: {
+      USERS: '/api/admin/users',
+      USER: (id: string) => `/api/admin/users/${id}`,
+      USER_USAGE: (id: string) => `/api/admin/users/${id}/usage`,
+      USER_CREDITS: (id: string) => `/api/admin/users/${id}/credits`,
+      AUDIT_EVENTS: '/api/admin/audit-events',
+      AUDIT_EVENTS_EXPORT: '/api/admin/audit-events/export'
+    },
     // Artifact endpoints
     ARTIFACTS: {
       GET: (id: string) => `/api/artifacts/${id}`,
       CODE: (id: string) => `/api/artifacts/${id}/code`,
       DOWNLOAD: (id: string) => `/api/artifacts/${id}/download`, 
       PREVIEW: (id: string) => `/api/artifacts/${id}/preview`,
+      PREVIEW_TICKET: (id: string) => `/api/artifacts/${id}/preview-ticket`,
       HTML_EXPORT: (id: string) => `/api/artifacts/${id}/html-export`,
       BUNDLE: (id: string) => `/api/artifacts/${id}/bundle`
     }
@@ -46,11 +123,120 @@ export function getAuthToken(): string | null {
   return null
 }
 
+// Helper function to get the refresh token used to renew the access token
+export function getRefreshToken(): string | null {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem('refreshToken')
+  }
+  return null
+}
+
+export function setAuthTokens(token: string, refreshToken?: string): void {
+  localStorage.setItem('authToken', token)
+  if (refreshToken) {
+    localStorage.setItem('refreshToken', refreshToken)
+  }
+}
+
+export function clearAuthTokens(): void {
+  localStorage.removeItem('authToken')
+  localStorage.removeItem('refreshToken')
+}
+
+// Team whose workspace every API call operates in; null is the personal workspace
+export const WORKSPACE_HEADER = 'X-Workspace-Id'
+
+export function getActiveWorkspaceId(): string | null {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem('activeWorkspaceId')
+  }
+  return null
+}
+
+export function setActiveWorkspaceId(teamId: string | null): void {
+  if (teamId) {
+    localStorage.setItem('activeWorkspaceId', teamId)
+  } else {
+    localStorage.removeItem('activeWorkspaceId')
+  }
+}
+
+// Dispatched on window when the session can no longer be renewed
+export const AUTH_EXPIRED_EVENT = 'auth:expired'
+
+let refreshInFlight: Promise<string> | null = null
+
+// Exchange the stored refresh token for a new token pair. Concurrent callers
+// share one request, since presenting a rotated refresh token revokes the session.
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = getRefreshToken()
+      if (!refreshToken) {
+        throw new Error('No refresh token found')
+      }
+
+      const response = await fetch(buildApiUrl(API_CONFIG.ENDPOINTS.AUTH.REFRESH), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      })
+
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthTokens()
+          window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT))
+        }
+        throw new Error(result.message || 'Failed to refresh token')
+      }
+
+      setAuthTokens(result.token, result.refreshToken)
+      return result.token as string
+    })().finally(() => {
+      refreshInFlight = null
+    })
+  }
+  return refreshInFlight
+}
+
+// fetch() with the bearer token and active workspace attached. An expired access
+// token is renewed once via the refresh token and the request is retried.
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers)
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`)
+    }
+    const workspaceId = getActiveWorkspaceId()
+    if (workspaceId && !headers.has(WORKSPACE_HEADER)) {
+      headers.set(WORKSPACE_HEADER, workspaceId)
+    }
+    return fetch(input, { ...init, headers })
+  }
+
+  const response = await send(getAuthToken())
+  if (response.status !== 401 || !getRefreshToken()) {
+    return response
+  }
+
+  try {
+    return await send(await refreshAccessToken())
+  } catch {
+    return response
+  }
+}
+
 // Helper function to build auth headers
 export function getAuthHeaders(): Record<string, string> {
   const token = getAuthToken()
+  const workspaceId = getActiveWorkspaceId()
   return {
     'Content-Type': 'application/json',
-    ...(token && { 'Authorization': `Bearer ${token}` })
+    ...(token && { 'Authorization': `Bearer ${token}` }),
+    ...(workspaceId && { [WORKSPACE_HEADER]: workspaceId })
   }
 }
\ No newline at end of file
@@ -1,6 +1,29 @@
 import { create } from 'zustand'
 import { Conversation } from '@/lib/api/conversations'
 
+export interface MessageUsage {
+  promptTokens: number | null
+  completionTokens: number | null
+  credits: number | null
+}
+
+// A conversation's generation settings; null means the server default
+export interface GenerationSettings {
+  model: string | null
+  temperature: number | null
+  maxOutputTokens: number | null
+  topP: number | null
+  customInstructions: string | null // Only for this conversation
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  topP: null,
+  customInstructions: null,
+}
+
 export interface Message {
   id: string
   role: 'user' | 'assistant'
@@ -8,6 +31,8 @@ export interface Message {
   timestamp: Date
   isEditing?: boolean
   artifacts?: CodeArtifact[]
+  usage?: MessageUsage // Assistant messages only
+  cancelled?: boolean // Generation was stopped before it finished
 }
 
 export interface CodeArtifact {
@@ -36,6 +61,7 @@ interface AppState {
   // Conversation management
   conversations: Conversation[]
   currentConversationId: string | null
+  generationSettings: GenerationSettings
   
   // Actions
   addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void
@@ -55,6 +81,7 @@ interface AppState {
   addConversation: (conversation: Conversation) => void
   updateConversation: (id: string, updates: Partial<Conversation>) => void
   removeConversation: (id: string) => void
+  setGenerationSettings: (settings: GenerationSettings) => void
   clearMessages: () => void
   startNewChat: () => void
 }
@@ -69,6 +96,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   // Conversation state
   conversations: [],
   currentConversationId: null,
+  generationSettings: DEFAULT_GENERATION_SETTINGS,
 
   addMessage: (message) => {
     const newMessage: Message = {
@@ -193,6 +221,10 @@ export const useAppStore = create<AppState>((set, get) => ({
     }))
   },
 
+  setGenerationSettings: (settings) => {
+    set({ generationSettings: settings })
+  },
+
   clearMessages: () => {
     set({ messages: [], currentArtifact: null, sidebarOpen: false })
   },
@@ -202,7 +234,8 @@ export const useAppStore = create<AppState>((set, get) => ({
       messages: [], 
       currentArtifact: null, 
       sidebarOpen: false, 
-      currentConversationId: null 
+      currentConversationId: null,
+      generationSettings: DEFAULT_GENERATION_SETTINGS
     })
   },
 }))
\ No newline at end of file